@@ -8,6 +8,10 @@ import cors from "cors";
 import routes from "./routes";
 import errorHandler from "./middlewares/errorHandler";
 import options from "./utils/swagger";
+import RawBodyRequest from "./types/RawBodyRequest";
+import { backfillAttendeesCount, startEventPublishingJob } from "./services/eventLifecycleService";
+import { startReminderJob } from "./services/reminderService";
+import { backfillReviewStatus } from "./services/attendeeService";
 
 dotenv.config();
 
@@ -21,7 +25,12 @@ const corsOptions = {
 app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(specs));
 app.use(cors(corsOptions));
 app.use(helmet());
-app.use(express.json());
+app.use(express.json({
+    // payment webhooks are verified against the exact bytes the gateway signed
+    verify: (req, res, buf) => {
+        (req as RawBodyRequest).rawBody = buf;
+    },
+}));
 app.use(routes);
 app.use(errorHandler);
 
@@ -37,8 +46,19 @@ const uri = `mongodb+srv://${DB_USERNAME}:${DB_PASSWORD}@${CLUSTER_URL}/${DB_NAM
 
 mongoose
     .connect(uri)
-    .then(() => {
+    .then(async () => {
         console.log("Connected to MongoDB Atlas");
+        await backfillReviewStatus().catch((err) => {
+            console.error("Couldn't backfill attendee review status:", err);
+        });
+        // registrations only start once every event knows how many seats are already taken
+        await backfillAttendeesCount().catch((err) => {
+            console.error("Couldn't backfill event attendee counts:", err);
+        });
+        startEventPublishingJob().catch((err) => {
+            console.error("Couldn't start event publishing job:", err);
+        });
+        startReminderJob();
         app.listen(PORT, () => {
             console.log(`Server is running on port http://localhost:${PORT}/`);
         });
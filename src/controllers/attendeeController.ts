@@ -1,11 +1,24 @@
 import { Request, Response, NextFunction } from "express";
 import { isValidObjectId } from "mongoose";
+import { AuthenticatedRequest } from "../middlewares/authenticateUser";
 import {
     deleteAttendeeById,
     getAllAttendees,
     getAttendeeById,
-    updateAttendeeApprovalStatus,
+    getPendingAttendees,
+    reviewAttendees,
+    reviewStatusFilter,
+    updateAttendeeReview,
 } from "../services/attendeeService";
+import { checkInAttendee, TicketPayload, verifyTicketToken } from "../services/ticketService";
+import { exportAttendees } from "../services/attendeeExportService";
+import { getEvent } from "../services/eventService";
+import { getOrganizedEventIds } from "../services/organizerService";
+import { ReviewStatus } from "../models/EventAttendee";
+import AttendeeExportFilters from "../types/AttendeeExport";
+import RegistrationQuestion from "../types/RegistrationQuestion";
+import asyncWrapper from "../utils/asyncWrapper";
+import AppError from "../errors/AppError";
 import ValidationError from "../errors/ValidationError";
 import NotFoundError from "../errors/NotFoundError";
 
@@ -19,9 +32,15 @@ export const allAttendees = async (req: Request, res: Response, next: NextFuncti
     }
 };
 
-export const pendingAttendees = async (req: Request, res: Response, next: NextFunction) => {
+// organizers only see the attendees of the events they organize, admins see everything
+const getOrganizerScope = async (req: AuthenticatedRequest) => (
+    req.user.role === "admin" ? null : getOrganizedEventIds(req.user.id)
+);
+
+export const pendingAttendees = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-        const attendees = await getAllAttendees(false);
+        const scope = await getOrganizerScope(req);
+        const attendees = await getPendingAttendees(scope ? { eventId: { $in: scope } } : {});
 
         res.json({ attendees });
     } catch (err) {
@@ -29,6 +48,69 @@ export const pendingAttendees = async (req: Request, res: Response, next: NextFu
     }
 };
 
+const EXPORT_CONTENT_TYPES = {
+    csv: "text/csv; charset=utf-8",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const sendAttendeesExport = async (
+    res: Response,
+    filename: string,
+    filters: AttendeeExportFilters,
+    questions?: RegistrationQuestion[],
+) => {
+    res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[filters.format]);
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}.${filters.format}"`);
+
+    try {
+        await exportAttendees(res, filters, questions);
+    } catch (err) {
+        // the status line is already sent, cutting the connection is the only way to signal a broken file
+        if (res.headersSent) {
+            res.destroy(err as Error);
+            return;
+        }
+        throw err;
+    }
+};
+
+export const exportPendingAttendees = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const scope = await getOrganizerScope(req);
+        const filters = { ...req.query, status: "pending", ...(scope && { eventIds: scope }) } as unknown as AttendeeExportFilters;
+        const date = new Date().toISOString()
+            .slice(0, 10);
+
+        await sendAttendeesExport(res, `pending-attendees-${date}`, filters);
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const exportEventAttendees = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        const filters = { ...req.query, eventId } as unknown as AttendeeExportFilters;
+
+        await sendAttendeesExport(res, `event-${eventId}-attendees`, filters, event.registrationForm);
+    } catch (err) {
+        next(err);
+    }
+};
+
 export const attendeeById = async (req: Request, res: Response, next: NextFunction) => {
     try {
         const { attendeeId } = req.params;
@@ -51,7 +133,7 @@ export const attendeeById = async (req: Request, res: Response, next: NextFuncti
     }
 };
 
-export const approveAttendee = async (req: Request, res: Response, next: NextFunction) => {
+export const approveAttendee = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
         const { attendeeId } = req.params;
         if (!isValidObjectId(attendeeId)) {
@@ -59,7 +141,7 @@ export const approveAttendee = async (req: Request, res: Response, next: NextFun
             return;
         }
 
-        const attendee = await updateAttendeeApprovalStatus(attendeeId, true);
+        const attendee = await updateAttendeeReview(attendeeId, ReviewStatus.Approved, req.user.id);
 
         if (!attendee) {
             next(new NotFoundError("Attendee does not exist"));
@@ -72,7 +154,7 @@ export const approveAttendee = async (req: Request, res: Response, next: NextFun
     }
 };
 
-export const rejectAttendee = async (req: Request, res: Response, next: NextFunction) => {
+export const rejectAttendee = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
         const { attendeeId } = req.params;
         if (!isValidObjectId(attendeeId)) {
@@ -80,7 +162,7 @@ export const rejectAttendee = async (req: Request, res: Response, next: NextFunc
             return;
         }
 
-        const attendee = await updateAttendeeApprovalStatus(attendeeId, false);
+        const attendee = await updateAttendeeReview(attendeeId, ReviewStatus.Rejected, req.user.id, req.body.reason ?? null);
 
         if (!attendee) {
             next(new NotFoundError("Attendee does not exist"));
@@ -93,6 +175,33 @@ export const rejectAttendee = async (req: Request, res: Response, next: NextFunc
     }
 };
 
+export const reviewAttendeesInBulk = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const {
+            decision, attendeeIds, filter, reason,
+        } = req.body;
+
+        const scope = await getOrganizerScope(req);
+
+        if (scope && filter?.eventId && !scope.includes(filter.eventId)) {
+            next(new AppError("Access denied. Admins and the event organizers only.", 403));
+            return;
+        }
+
+        const query = attendeeIds
+            ? { _id: { $in: attendeeIds } }
+            : { ...(filter.eventId && { eventId: filter.eventId }), ...reviewStatusFilter(filter.status) };
+        // attendees of other events are skipped, like attendees already in the requested state
+        const scopedQuery = scope ? { ...query, eventId: filter?.eventId ?? { $in: scope } } : query;
+
+        const result = await reviewAttendees(scopedQuery, decision, req.user.id, reason ?? null);
+
+        res.json(result);
+    } catch (err) {
+        next(err);
+    }
+};
+
 export const deleteAttendee = async (req: Request, res: Response, next: NextFunction) => {
     try {
         const { attendeeId } = req.params;
@@ -113,3 +222,44 @@ export const deleteAttendee = async (req: Request, res: Response, next: NextFunc
         next(err);
     }
 };
+
+export const checkIn = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { ticket } = req.body;
+
+        if (!ticket || typeof ticket !== "string") {
+            next(new ValidationError("Validation Error", { ticket: "ticket is required" }));
+            return;
+        }
+
+        const [verifyErr, payload] = await asyncWrapper<TicketPayload>(verifyTicketToken(ticket));
+
+        if (verifyErr || !payload) {
+            next(new ValidationError("Invalid ticket"));
+            return;
+        }
+
+        const attendee = await getAttendeeById(payload.attendeeId);
+
+        if (!attendee || attendee.eventId.toString() !== payload.eventId || attendee.userId.toString() !== payload.userId) {
+            next(new NotFoundError("Ticket registration no longer exists"));
+            return;
+        }
+
+        if (!attendee.isApproved || attendee.isWaitlisted) {
+            next(new AppError("Ticket holder is not approved to attend this event", 403));
+            return;
+        }
+
+        const checkedInAttendee = await checkInAttendee(payload.attendeeId, req.user.id);
+
+        if (!checkedInAttendee) {
+            next(new AppError("Ticket has already been used", 409));
+            return;
+        }
+
+        res.json({ attendee: checkedInAttendee });
+    } catch (err) {
+        next(err);
+    }
+};
@@ -0,0 +1,94 @@
+import { Request, Response, NextFunction } from "express";
+import { isValidObjectId } from "mongoose";
+import { AuthenticatedRequest } from "../middlewares/authenticateUser";
+import {
+    buildEventCalendar,
+    buildUpcomingEventsCalendar,
+    buildUserCalendar,
+    findUserByCalendarToken,
+    getCalendarFeedUrl,
+    regenerateCalendarToken,
+} from "../services/calendarService";
+import { canViewEvent, getEvent } from "../services/eventService";
+import ValidationError from "../errors/ValidationError";
+import NotFoundError from "../errors/NotFoundError";
+
+const sendCalendar = (res: Response, calendar: string, filename?: string) => {
+    res.type("text/calendar; charset=utf-8");
+    if (filename) {
+        res.attachment(filename);
+    }
+    res.send(calendar);
+};
+
+export const eventCalendar = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const eventId = req.params.id;
+        const { inviteToken } = req.query;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event || !(await canViewEvent(event, req.user, typeof inviteToken === "string" ? inviteToken : undefined))) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        sendCalendar(res, buildEventCalendar(event), `event-${event.id}.ics`);
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const upcomingEventsCalendar = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const calendar = await buildUpcomingEventsCalendar();
+
+        sendCalendar(res, calendar);
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const userCalendarFeed = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { token } = req.params;
+
+        const user = await findUserByCalendarToken(token);
+
+        if (!user) {
+            next(new NotFoundError("Calendar feed doesn't exist"));
+            return;
+        }
+
+        const calendar = await buildUserCalendar(user.id);
+
+        sendCalendar(res, calendar);
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const myCalendarFeed = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const token = req.user.calendarToken || await regenerateCalendarToken(req.user.id);
+
+        res.json({ url: getCalendarFeedUrl(token) });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const resetMyCalendarFeed = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const token = await regenerateCalendarToken(req.user.id);
+
+        res.json({ url: getCalendarFeedUrl(token) });
+    } catch (err) {
+        next(err);
+    }
+};
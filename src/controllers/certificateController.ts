@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction } from "express";
+import { isValidObjectId } from "mongoose";
+import { AuthenticatedRequest } from "../middlewares/authenticateUser";
+import { getEvent, getEventAttendee } from "../services/eventService";
+import {
+    CERTIFICATE_CODE_PATTERN,
+    findCertificateByCode,
+    issueCertificate,
+    renderCertificate,
+} from "../services/certificateService";
+import ValidationError from "../errors/ValidationError";
+import NotFoundError from "../errors/NotFoundError";
+import AppError from "../errors/AppError";
+
+export const myCertificate = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        if (!event.certificateEligible) {
+            next(new ValidationError("This event doesn't issue certificates"));
+            return;
+        }
+
+        const attendee = await getEventAttendee(req.user.id, eventId);
+
+        if (!attendee) {
+            next(new NotFoundError("You are not registered to this event"));
+            return;
+        }
+
+        if (!attendee.checkedInAt) {
+            next(new AppError("Certificates are only issued to attendees who checked in at the event", 403));
+            return;
+        }
+
+        const certificate = await issueCertificate(attendee, req.user, event);
+        const pdf = await renderCertificate(certificate);
+
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader("Content-Disposition", `attachment; filename="certificate-${certificate.code}.pdf"`);
+        pdf.pipe(res);
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const verifyCertificate = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const code = req.params.code.toUpperCase();
+
+        if (!CERTIFICATE_CODE_PATTERN.test(code)) {
+            next(new ValidationError("Invalid certificate code format"));
+            return;
+        }
+
+        const certificate = await findCertificateByCode(code);
+
+        if (!certificate) {
+            next(new NotFoundError("No certificate was issued with this code"));
+            return;
+        }
+
+        res.json({ valid: true, certificate });
+    } catch (err) {
+        next(err);
+    }
+};
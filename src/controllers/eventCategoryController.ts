@@ -8,6 +8,8 @@ import isObjectIdValid from "../utils/mongoose";
 import Event from "../models/Event";
 import { deleteImageFromCloud, uploadImageToCloud } from "../utils/cloudinary";
 import AppError from "../errors/AppError";
+import { publicEventFilter, publishedEventFilter } from "../services/eventService";
+import { deleteCategoryOrganizers } from "../services/organizerService";
 
 export const createCategory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const { name } = req.body;
@@ -86,7 +88,7 @@ export const getCategoryEvents = async (req: Request, res: Response, next: NextF
         return;
     }
 
-    const [err, events] = await asyncWrapper(Event.find({ category: categoryId }));
+    const [err, events] = await asyncWrapper(Event.find({ category: categoryId, ...publishedEventFilter(), ...publicEventFilter() }));
 
     if (err) {
         next(err);
@@ -194,6 +196,13 @@ export const deleteCategoryById = async (req: Request, res: Response, next: Next
         return;
     }
 
+    const [organizersErr] = await asyncWrapper(deleteCategoryOrganizers(categoryId));
+
+    if (organizersErr) {
+        next(organizersErr);
+        return;
+    }
+
     await deleteImageFromCloud(category?.cloudinaryPublicId || "");
 
     res.status(204).json({ message: "Category deleted successfully" });
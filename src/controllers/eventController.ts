@@ -1,24 +1,73 @@
 import { Request, Response, NextFunction } from "express";
 import { isValidObjectId } from "mongoose";
 import asyncWrapper from "../utils/asyncWrapper";
-import Event from "../models/Event";
+import Event, {
+    EventVisibility, evaluateEligibility, evaluateRegistration, RegistrationStatus,
+} from "../models/Event";
+import { UserRole } from "../models/User";
+import { PaymentMethod, ReviewStatus } from "../models/EventAttendee";
 import EventCategory from "../models/EventCategory";
 import ValidationError from "../errors/ValidationError";
 import isObjectIdValid from "../utils/mongoose";
 import NotFoundError from "../errors/NotFoundError";
 import { AuthenticatedRequest } from "../middlewares/authenticateUser";
 import {
+    canViewEvent,
+    deleteAllEventAttendees,
     deleteEventAttendee,
     getActiveEndedBeforeDate,
     getActiveEventsAtDate,
     getActiveEventsStartsAfterDate,
     getAllEventsService,
     getEvent,
+    getEventAttendee,
     getEventAttendees,
+    getEventWaitlist,
+    getListedActiveEvents,
+    getMeetingDetailsForUser,
+    getWaitlistPosition,
+    isEventVisible,
     isUserRegisteredInEvent,
+    promoteWaitlistedAttendees,
     registerUserInEvent,
+    searchEventsService,
 } from "../services/eventService";
+import EventSearchFilters from "../types/EventSearch";
+import { createEventSeries } from "../services/eventSeriesService";
+import { generateTicketQRCode, generateTicketToken } from "../services/ticketService";
+import { deleteEventSessions, findSessionOutsideWindow } from "../services/sessionService";
+import { checkVenueBooking } from "../services/venueService";
+import {
+    applyEventUpdate, getBookedStartDates, parseZonedDates, toVenueBooking,
+} from "../services/eventUpdateService";
+import { resetEventReminders } from "../services/reminderService";
+import { deleteEventFeedbacks } from "../services/feedbackService";
+import { replaceAttendeeReceipt } from "../services/attendeeService";
+import { startCheckout } from "../services/paymentService";
+import {
+    AttendeeTicket,
+    quoteTicket,
+    releaseTicket,
+    reserveTicket,
+} from "../services/pricingService";
+import { requestRefund } from "../services/refundService";
+import {
+    acceptInvitation,
+    deleteEventInvitations,
+    findUserInvitation,
+    getInviteLinkByToken,
+    getInviteLinkError,
+    redeemInviteLink,
+    releaseInviteLink,
+} from "../services/invitationService";
+import { deleteEventTeams } from "../services/teamService";
+import { deleteEventOrganizers, organizesCategory, organizesEvent } from "../services/organizerService";
+import { RefundReason } from "../models/RefundRequest";
 import { uploadImageToCloud } from "../utils/cloudinary";
+import { expandRecurrence, MAX_OCCURRENCES } from "../utils/recurrence";
+import { DEFAULT_TIMEZONE, parseDateInTimeZone } from "../utils/timezone";
+import { buildAnswersSchema } from "../utils/registrationForm";
+import { formatValidationErrors } from "../utils/joiValidation";
 import AppError from "../errors/AppError";
 
 export const createEvent = async (req: Request, res: Response, next: NextFunction) => {
@@ -40,14 +89,65 @@ export const createEvent = async (req: Request, res: Response, next: NextFunctio
         return;
     }
 
-    const event = new Event({ ...req.body });
+    const { recurrence, ...eventData } = req.body;
+    const timezone = eventData.timezone ?? DEFAULT_TIMEZONE;
+    parseZonedDates(eventData, timezone);
+
+    if (recurrence) {
+        // a date only until includes occurrences on that day
+        const until = recurrence.until && parseDateInTimeZone(
+            /^\d{4}-\d{2}-\d{2}$/.test(recurrence.until) ? `${recurrence.until}T23:59:59` : recurrence.until,
+            timezone,
+        );
+        const rule = { interval: 1, ...recurrence, until };
+        const startDates = expandRecurrence(eventData.startDate, rule, timezone);
+
+        if (startDates.length > MAX_OCCURRENCES) {
+            next(new ValidationError("Validation Error", { recurrence: `recurrence can't produce more than ${MAX_OCCURRENCES} occurrences` }));
+            return;
+        }
+
+        const [bookingErr, booking] = await asyncWrapper(checkVenueBooking(toVenueBooking(new Event(eventData), startDates)));
+        if (bookingErr) {
+            next(bookingErr);
+            return;
+        }
+
+        if (booking.errors) {
+            next(new ValidationError("Validation Error", booking.errors));
+            return;
+        }
+
+        const [seriesErr, created] = await asyncWrapper(createEventSeries(eventData, rule, startDates));
+        if (seriesErr) {
+            next(seriesErr);
+            return;
+        }
+
+        res.status(201).json({ ...created, warnings: booking.warnings });
+        return;
+    }
+
+    const event = new Event({ ...eventData });
+
+    const [bookingErr, booking] = await asyncWrapper(checkVenueBooking(toVenueBooking(event, [event.startDate])));
+    if (bookingErr) {
+        next(bookingErr);
+        return;
+    }
+
+    if (booking.errors) {
+        next(new ValidationError("Validation Error", booking.errors));
+        return;
+    }
+
     const [saveErr, savedEvent] = await asyncWrapper(event.save());
     if (saveErr) {
         next(saveErr);
         return;
     }
 
-    res.status(201).json({ event: savedEvent });
+    res.status(201).json({ event: savedEvent, warnings: booking.warnings });
 };
 
 export const allEvents = async (req: Request, res: Response, next: NextFunction) => {
@@ -70,9 +170,9 @@ export const allInActiveEvents = async (req: Request, res: Response, next: NextF
     }
 };
 
-export const allActiveEvents = async (req: Request, res: Response, next: NextFunction) => {
+export const allActiveEvents = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-        const events = await getAllEventsService(true);
+        const events = await getListedActiveEvents(req.user);
 
         res.json({ events });
     } catch (err) {
@@ -80,12 +180,19 @@ export const allActiveEvents = async (req: Request, res: Response, next: NextFun
     }
 };
 
-export const eventsHappening = async (req: Request, res: Response, next: NextFunction) => {
+export const searchEvents = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-        const currDate = new Date();
-        currDate.setHours(currDate.getHours() + 3); // currently egypt is on GMT+3 (may be due to summer time)
+        const { events, pagination } = await searchEventsService(req.query as unknown as EventSearchFilters, req.user);
+
+        res.json({ events, pagination });
+    } catch (err) {
+        next(err);
+    }
+};
 
-        const events = await getActiveEventsAtDate(currDate);
+export const eventsHappening = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const events = await getActiveEventsAtDate(new Date(), req.user);
 
         res.json({ events });
     } catch (err) {
@@ -93,11 +200,11 @@ export const eventsHappening = async (req: Request, res: Response, next: NextFun
     }
 };
 
-export const upComingEvents = async (req: Request, res: Response, next: NextFunction) => {
+export const upComingEvents = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
         const currentDate = new Date();
 
-        const events = await getActiveEventsStartsAfterDate(currentDate);
+        const events = await getActiveEventsStartsAfterDate(currentDate, req.user);
 
         res.json({ events });
     } catch (err) {
@@ -117,7 +224,7 @@ export const finishedEvents = async (req: Request, res: Response, next: NextFunc
     }
 };
 
-export const getEventById = async (req: Request, res: Response, next: NextFunction) => {
+export const getEventById = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const eventId = req.params.id;
 
     if (!isObjectIdValid(eventId)) {
@@ -125,7 +232,7 @@ export const getEventById = async (req: Request, res: Response, next: NextFuncti
         return;
     }
 
-    const [err, event] = await asyncWrapper(Event.findById(eventId).populate("category"));
+    const [err, event] = await asyncWrapper(Event.findById(eventId).populate(["category", "venue"]));
 
     if (err) {
         next(err);
@@ -137,10 +244,56 @@ export const getEventById = async (req: Request, res: Response, next: NextFuncti
         return;
     }
 
-    res.json({ event });
+    // the organizers of the event see it the way admins do
+    const isAdminUser = req.user?.role === UserRole.Admin;
+    const [organizerErr, isOrganizerUser] = await asyncWrapper(req.user && !isAdminUser
+        ? organizesEvent(req.user.id, eventId, event.category)
+        : Promise.resolve(false));
+
+    if (organizerErr) {
+        next(organizerErr);
+        return;
+    }
+
+    const canManage = isAdminUser || Boolean(isOrganizerUser);
+
+    if (!canManage) {
+        const inviteToken = typeof req.query.inviteToken === "string" ? req.query.inviteToken : undefined;
+        const [accessErr, canView] = await asyncWrapper(canViewEvent(event, req.user, inviteToken));
+
+        if (accessErr) {
+            next(accessErr);
+            return;
+        }
+
+        if (!canView) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+    }
+
+    const [meetingErr, meeting] = await asyncWrapper(getMeetingDetailsForUser(event, req.user));
+
+    if (meetingErr) {
+        next(meetingErr);
+        return;
+    }
+
+    if (!meeting && !canManage) {
+        res.json({ event });
+        return;
+    }
+
+    res.json({
+        event: {
+            ...event.toJSON(),
+            ...(meeting && { meeting }),
+            ...(canManage && { eligibility: event.eligibility }),
+        },
+    });
 };
 
-export const updateEvent = async (req: Request, res: Response, next: NextFunction) => {
+export const updateEvent = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const eventId = req.params.id;
     if (!isObjectIdValid(eventId)) {
         next(new ValidationError("Invalid event id format"));
@@ -159,7 +312,72 @@ export const updateEvent = async (req: Request, res: Response, next: NextFunctio
         return;
     }
 
-    Object.assign(event, req.body);
+    // organizers can't move their events out of their reach
+    if (req.body.category && String(req.body.category) !== String(event.category) && req.user.role !== UserRole.Admin) {
+        const [categoryErr, organizesNewCategory] = await asyncWrapper(organizesCategory(req.user.id, req.body.category));
+
+        if (categoryErr) {
+            next(categoryErr);
+            return;
+        }
+
+        if (!organizesNewCategory) {
+            next(new AppError("Access denied. You can only move the event to a category you organize.", 403));
+            return;
+        }
+    }
+
+    parseZonedDates(req.body, req.body.timezone ?? event.timezone);
+
+    const previousStart = event.startDate.getTime();
+    const previousDuration = event.duration;
+    const [updateErr, updateErrors] = await asyncWrapper(applyEventUpdate(event, req.body));
+
+    if (updateErr) {
+        next(updateErr);
+        return;
+    }
+
+    if (updateErrors) {
+        next(new ValidationError("Validation Error", updateErrors));
+        return;
+    }
+
+    // the agenda stays where it is, only the reschedule moves it along with the event
+    const startChanged = event.startDate.getTime() !== previousStart;
+
+    if (startChanged || event.duration !== previousDuration) {
+        const endDate = new Date(event.startDate.getTime() + event.duration * 60 * 60 * 1000);
+        const [sessionErr, session] = await asyncWrapper(findSessionOutsideWindow(eventId, 0, event.startDate, endDate));
+
+        if (sessionErr) {
+            next(sessionErr);
+            return;
+        }
+
+        if (session) {
+            next(new ValidationError("Validation Error", {
+                [startChanged ? "startDate" : "duration"]: `The "${session.title}" session would fall outside the event, move it first`,
+            }));
+            return;
+        }
+    }
+
+    if (event.series) {
+        event.isSeriesException = true;
+    }
+
+    const [bookingError, booking] = await asyncWrapper(checkVenueBooking(toVenueBooking(event, getBookedStartDates(event)), [eventId]));
+
+    if (bookingError) {
+        next(bookingError);
+        return;
+    }
+
+    if (booking.errors) {
+        next(new ValidationError("Validation Error", booking.errors));
+        return;
+    }
 
     const [saveError, updatedEvent] = await asyncWrapper(event.save());
 
@@ -168,14 +386,30 @@ export const updateEvent = async (req: Request, res: Response, next: NextFunctio
         return;
     }
 
-    const [populateError, populatedEvent] = await asyncWrapper(updatedEvent.populate("category"));
+    if (req.body.startDate !== undefined) {
+        const [reminderError] = await asyncWrapper(resetEventReminders(eventId));
+        if (reminderError) {
+            next(reminderError);
+            return;
+        }
+    }
+
+    if (req.body.capacity !== undefined) {
+        const [promoteError] = await asyncWrapper(promoteWaitlistedAttendees(eventId));
+        if (promoteError) {
+            next(promoteError);
+            return;
+        }
+    }
+
+    const [populateError, populatedEvent] = await asyncWrapper(updatedEvent.populate(["category", "venue"]));
 
     if (populateError) {
         next(populateError);
         return;
     }
 
-    res.json({ event: populatedEvent });
+    res.json({ event: populatedEvent, warnings: booking.warnings });
 };
 
 export const deleteEvent = async (req: Request, res: Response, next: NextFunction) => {
@@ -204,9 +438,110 @@ export const deleteEvent = async (req: Request, res: Response, next: NextFunctio
         return;
     }
 
+    const [sessionsError] = await asyncWrapper(deleteEventSessions(eventId));
+
+    if (sessionsError) {
+        next(sessionsError);
+        return;
+    }
+
+    const [attendeesError] = await asyncWrapper(deleteAllEventAttendees(eventId));
+
+    if (attendeesError) {
+        next(attendeesError);
+        return;
+    }
+
+    const [feedbackError] = await asyncWrapper(deleteEventFeedbacks(eventId));
+
+    if (feedbackError) {
+        next(feedbackError);
+        return;
+    }
+
+    const [invitationsError] = await asyncWrapper(deleteEventInvitations(eventId));
+
+    if (invitationsError) {
+        next(invitationsError);
+        return;
+    }
+
+    const [teamsError] = await asyncWrapper(deleteEventTeams(eventId));
+
+    if (teamsError) {
+        next(teamsError);
+        return;
+    }
+
+    const [organizersError] = await asyncWrapper(deleteEventOrganizers(eventId));
+
+    if (organizersError) {
+        next(organizersError);
+        return;
+    }
+
     res.status(204).send();
 };
 
+// a ticket priced at 0, free event, free tier or full discount, is approved right away
+const registerTicketHolder = async (
+    req: AuthenticatedRequest,
+    event: InstanceType<typeof Event>,
+    answers: { [key: string]: unknown },
+    paymentMethod: PaymentMethod,
+    ticket: AttendeeTicket,
+) => {
+    const userId = req.user.id;
+    const eventId = String(event.id);
+
+    if (ticket.price === 0) {
+        const attendee = await registerUserInEvent(userId, eventId, false, undefined, answers, null, ticket);
+        return { attendee };
+    }
+
+    if (paymentMethod === PaymentMethod.Online) {
+        const attendee = await registerUserInEvent(userId, eventId, true, undefined, answers, PaymentMethod.Online, ticket);
+
+        // waitlisted attendees pay once they are promoted, they are emailed then
+        if (attendee.isWaitlisted) {
+            return { attendee, payment: null, warnings: ["You are on the waitlist, you will be emailed to pay once you get a seat"] };
+        }
+
+        const [checkoutErr, payment] = await asyncWrapper(startCheckout(attendee, event, req.user.email));
+
+        // the seat is kept, the attendee can retry the checkout or upload a receipt instead
+        return {
+            attendee,
+            payment: payment ?? null,
+            warnings: checkoutErr ? [`Couldn't start the online payment: ${checkoutErr.message}`] : [],
+        };
+    }
+
+    let imageUrl: string | null = null;
+    let cloudinaryPublicId : string | null = null;
+
+    if (req.file?.buffer) {
+        const [uploadErr, result] = await asyncWrapper(uploadImageToCloud(req.file?.buffer));
+        if (uploadErr) {
+            throw new AppError(`Couldn't upload image cause of : ${uploadErr.message}`);
+        }
+
+        imageUrl = result.secure_url;
+        cloudinaryPublicId = result.public_id;
+    }
+
+    const attendee = await registerUserInEvent(
+        userId,
+        eventId,
+        true,
+        { imageUrl, cloudinaryPublicId },
+        answers,
+        PaymentMethod.ReceiptUpload,
+        ticket,
+    );
+    return { attendee };
+};
+
 export const attendEvent = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
         const { eventId } = req.params;
@@ -227,41 +562,203 @@ export const attendEvent = async (req: AuthenticatedRequest, res: Response, next
 
         const event = await getEvent(eventId);
 
-        if (!event) {
+        if (!event || !isEventVisible(event)) {
             next(new NotFoundError("Event doesn't exist"));
             return;
         }
 
+        const registration = evaluateRegistration(event);
+
+        if (registration.status === RegistrationStatus.NotYetOpen || registration.status === RegistrationStatus.Closed) {
+            next(new ValidationError(registration.reason));
+            return;
+        }
+
         if (userAge < event.minAge || userAge > event.maxAge) {
             next(new ValidationError(`Your age must be between ${event.minAge} and ${event.maxAge}`));
             return;
         }
 
-        if (!event.isPaid) {
-            const attendee = await registerUserInEvent(userId, eventId);
-            res.status(201).json({ attendee });
+        const eligibility = evaluateEligibility(event.eligibility, req.user);
+
+        if (!eligibility.eligible) {
+            next(new AppError(eligibility.reason!, 403));
             return;
         }
 
-        let imageUrl: string | null = null;
-        let cloudinaryPublicId : string | null = null;
+        // a personal invitation lets the user in, everyone else needs a usable invite link
+        const isPrivate = event.visibility === EventVisibility.Private;
+        const invitation = isPrivate ? await findUserInvitation(eventId, req.user) : null;
+        const inviteToken = isPrivate && !invitation && req.body.inviteToken ? String(req.body.inviteToken) : null;
 
-        if (req.file?.buffer) {
-            const [uploadErr, result] = await asyncWrapper(uploadImageToCloud(req.file?.buffer));
-            if (uploadErr) {
-                next(new AppError(`Couldn't upload image cause of : ${uploadErr.message}`));
+        if (isPrivate && !invitation && !inviteToken) {
+            next(new AppError("This event is private, you need an invitation to register", 403));
+            return;
+        }
+
+        if (inviteToken) {
+            const linkError = getInviteLinkError(await getInviteLinkByToken(inviteToken));
+
+            if (linkError) {
+                next(new ValidationError("Validation Error", { inviteToken: linkError }));
                 return;
             }
+        }
+
+        let submittedAnswers = req.body.answers ?? {};
+        if (typeof submittedAnswers === "string") {
+            // multipart forms carry the answers as a JSON string next to the receipt image
+            try {
+                submittedAnswers = JSON.parse(submittedAnswers);
+            } catch (parseErr) {
+                next(new ValidationError("Validation Error", { answers: "answers should be a valid JSON object" }));
+                return;
+            }
+        }
 
-            if (result) {
-                imageUrl = result.secure_url;
-                cloudinaryPublicId = result.public_id;
+        const { error: answersError, value: answers } = buildAnswersSchema(event.registrationForm).validate(submittedAnswers);
+
+        if (answersError) {
+            next(new ValidationError("Validation Error", formatValidationErrors(answersError)));
+            return;
+        }
+
+        const { quote, errors: ticketErrors } = await quoteTicket(event, req.body.ticketTier || undefined, req.body.promoCode || undefined);
+
+        if (!quote) {
+            next(new ValidationError("Validation Error", ticketErrors));
+            return;
+        }
+
+        const paymentMethod = req.body.paymentMethod ?? PaymentMethod.ReceiptUpload;
+
+        if (!Object.values(PaymentMethod).includes(paymentMethod)) {
+            next(new ValidationError("Validation Error", { paymentMethod: "paymentMethod must be one of receipt, online" }));
+            return;
+        }
+
+        const reserveErrors = await reserveTicket(eventId, quote);
+
+        if (reserveErrors) {
+            next(new ValidationError("Validation Error", reserveErrors));
+            return;
+        }
+
+        const ticket = { tier: quote.tier, promoCode: quote.promoCode, price: quote.finalPrice };
+        const linkError = inviteToken && await redeemInviteLink(eventId, inviteToken);
+
+        if (linkError) {
+            await releaseTicket(eventId, ticket);
+            next(new ValidationError("Validation Error", { inviteToken: linkError }));
+            return;
+        }
+
+        const [registerErr, registered] = await asyncWrapper(registerTicketHolder(req, event, answers, paymentMethod, ticket));
+
+        if (registerErr) {
+            await releaseTicket(eventId, ticket);
+            if (inviteToken) {
+                await releaseInviteLink(eventId, inviteToken);
             }
+            next(registerErr);
+            return;
+        }
+
+        if (invitation) {
+            await acceptInvitation(invitation.id, userId);
+        }
+
+        res.status(201).json({ ...registered, quote });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const ticketQuote = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId } = req.params;
+        const { ticketTier, promoCode, inviteToken } = req.query;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event || !(await canViewEvent(event, req.user, typeof inviteToken === "string" ? inviteToken : undefined))) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        const { quote, errors } = await quoteTicket(
+            event,
+            typeof ticketTier === "string" && ticketTier ? ticketTier : undefined,
+            typeof promoCode === "string" && promoCode ? promoCode : undefined,
+        );
+
+        if (!quote) {
+            next(new ValidationError("Validation Error", errors));
+            return;
+        }
+
+        res.json({ quote });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const reuploadReceipt = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+        const { id: userId } = req.user;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        if (!event.isPaid) {
+            next(new ValidationError("This event doesn't require a receipt"));
+            return;
+        }
+
+        const attendee = await getEventAttendee(userId, eventId);
+
+        if (!attendee) {
+            next(new NotFoundError("You are not registered to this event"));
+            return;
+        }
+
+        if (attendee.reviewStatus === ReviewStatus.Approved) {
+            next(new AppError("Your registration is already approved", 409));
+            return;
         }
 
-        const attendee = await registerUserInEvent(userId, eventId, true, { imageUrl, cloudinaryPublicId });
+        if (!req.file?.buffer) {
+            next(new ValidationError("Validation Error", { image: "receipt image is required" }));
+            return;
+        }
+
+        const [uploadErr, result] = await asyncWrapper(uploadImageToCloud(req.file.buffer));
+        if (uploadErr || !result) {
+            next(new AppError(`Couldn't upload image cause of : ${uploadErr?.message}`));
+            return;
+        }
 
-        res.status(201).json({ attendee });
+        const updatedAttendee = await replaceAttendeeReceipt(attendee, {
+            imageUrl: result.secure_url,
+            cloudinaryPublicId: result.public_id,
+        });
+
+        res.json({ attendee: updatedAttendee });
     } catch (err) {
         next(err);
     }
@@ -277,13 +774,18 @@ export const missEvent = async (req: AuthenticatedRequest, res: Response, next:
             return;
         }
 
-        const deletedForm = await deleteEventAttendee(userId, eventId);
+        const attendee = await getEventAttendee(userId, eventId);
 
-        if (!deletedForm) {
+        if (!attendee) {
             next(new NotFoundError("You are not registered to this event"));
             return;
         }
 
+        const event = await getEvent(eventId);
+        const refund = event ? await requestRefund(attendee, event, RefundReason.AttendeeWithdrew) : null;
+
+        await deleteEventAttendee(userId, eventId, !!refund);
+
         res.status(204).json({ message: "Deleted Successfully" });
     } catch (err) {
         next(err);
@@ -305,3 +807,80 @@ export const eventAttendees = async (req: AuthenticatedRequest, res: Response, n
         next(err);
     }
 };
+
+export const myWaitlistPosition = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+        const { id: userId } = req.user;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const attendee = await getEventAttendee(userId, eventId);
+
+        if (!attendee) {
+            next(new NotFoundError("You are not registered to this event"));
+            return;
+        }
+
+        const position = await getWaitlistPosition(attendee);
+
+        res.json({ isWaitlisted: attendee.isWaitlisted, position });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const eventWaitlist = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const attendees = await getEventWaitlist(eventId);
+
+        res.json({ attendees });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const myTicket = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+        const { id: userId } = req.user;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const attendee = await getEventAttendee(userId, eventId);
+
+        if (!attendee) {
+            next(new NotFoundError("You are not registered to this event"));
+            return;
+        }
+
+        if (attendee.isWaitlisted) {
+            next(new AppError("You are still on the waitlist of this event", 403));
+            return;
+        }
+
+        if (!attendee.isApproved) {
+            next(new AppError("Your registration is not approved yet", 403));
+            return;
+        }
+
+        const ticket = generateTicketToken(attendee);
+        const qrCode = await generateTicketQRCode(ticket);
+
+        res.json({ ticket, qrCode });
+    } catch (err) {
+        next(err);
+    }
+};
@@ -0,0 +1,146 @@
+import { Response, NextFunction } from "express";
+import { isValidObjectId } from "mongoose";
+import { EVENT_STATUS_TRANSITIONS, EventStatus } from "../models/Event";
+import { RescheduleResponse } from "../models/EventAttendee";
+import { AuthenticatedRequest } from "../middlewares/authenticateUser";
+import { deleteEventAttendee, getEvent, getEventAttendee } from "../services/eventService";
+import { cancelEvent, rescheduleEvent } from "../services/eventScheduleService";
+import { requestRefund } from "../services/refundService";
+import { RefundReason } from "../models/RefundRequest";
+import { checkVenueBooking } from "../services/venueService";
+import { findSessionOutsideWindow } from "../services/sessionService";
+import { parseDateInTimeZone } from "../utils/timezone";
+import ValidationError from "../errors/ValidationError";
+import NotFoundError from "../errors/NotFoundError";
+
+export const cancelEventById = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId } = req.params;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        if (!EVENT_STATUS_TRANSITIONS[event.status].includes(EventStatus.Cancelled)) {
+            next(new ValidationError(`A ${event.status} event can't be cancelled`));
+            return;
+        }
+
+        const result = await cancelEvent(event, req.body.reason, req.user.id);
+
+        res.json(result);
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const rescheduleEventById = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId } = req.params;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        if ([EventStatus.Cancelled, EventStatus.Archived].includes(event.status)) {
+            next(new ValidationError(`A ${event.status} event can't be rescheduled`));
+            return;
+        }
+
+        const startDate = parseDateInTimeZone(req.body.startDate, event.timezone);
+        const duration = req.body.duration ?? event.duration;
+
+        if (startDate <= new Date()) {
+            next(new ValidationError("Validation Error", { startDate: "Start Date can't be less than now" }));
+            return;
+        }
+
+        const endDate = new Date(startDate.getTime() + duration * 60 * 60 * 1000);
+        const session = await findSessionOutsideWindow(eventId, startDate.getTime() - event.startDate.getTime(), startDate, endDate);
+
+        if (session) {
+            next(new ValidationError("Validation Error", { duration: `The "${session.title}" session wouldn't fit the new duration, move it first` }));
+            return;
+        }
+
+        const booking = await checkVenueBooking({
+            venue: event.venue ? String(event.venue) : null,
+            room: event.room,
+            capacity: event.capacity,
+            duration,
+            startDates: event.isActive ? [startDate] : [],
+        }, [eventId]);
+
+        if (booking.errors) {
+            next(new ValidationError("Validation Error", booking.errors));
+            return;
+        }
+
+        if (event.series) {
+            event.isSeriesException = true;
+        }
+
+        const result = await rescheduleEvent(event, startDate, duration, req.body.reason, req.user.id);
+
+        res.json({ ...result, warnings: booking.warnings });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const respondToReschedule = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+        const { id: userId } = req.user;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const attendee = await getEventAttendee(userId, eventId);
+
+        if (!attendee) {
+            next(new NotFoundError("You are not registered to this event"));
+            return;
+        }
+
+        if (attendee.rescheduleResponse !== RescheduleResponse.Pending) {
+            next(new ValidationError("There is no reschedule waiting for your response"));
+            return;
+        }
+
+        // declining withdraws the registration, paid ones get a refund request and keep the receipt for its review
+        if (!req.body.attend) {
+            const event = await getEvent(eventId);
+            const refund = event ? await requestRefund(attendee, event, RefundReason.AttendeeWithdrew) : null;
+
+            await deleteEventAttendee(userId, eventId, !!refund);
+            res.status(204).send();
+            return;
+        }
+
+        attendee.rescheduleResponse = RescheduleResponse.Confirmed;
+        await attendee.save();
+
+        res.json({ attendee });
+    } catch (err) {
+        next(err);
+    }
+};
@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from "express";
+import { isValidObjectId } from "mongoose";
+import {
+    cancelUpcomingOccurrences,
+    getEventSeries,
+    getSeriesOccurrences,
+    updateUpcomingOccurrences,
+} from "../services/eventSeriesService";
+import { canViewEvent } from "../services/eventService";
+import { AuthenticatedRequest } from "../middlewares/authenticateUser";
+import ValidationError from "../errors/ValidationError";
+import NotFoundError from "../errors/NotFoundError";
+
+export const seriesById = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { seriesId } = req.params;
+
+        if (!isValidObjectId(seriesId)) {
+            next(new ValidationError("Invalid series id format"));
+            return;
+        }
+
+        const series = await getEventSeries(seriesId);
+
+        if (!series) {
+            next(new NotFoundError("Event series doesn't exist"));
+            return;
+        }
+
+        const inviteToken = typeof req.query.inviteToken === "string" ? req.query.inviteToken : undefined;
+        const occurrences = await getSeriesOccurrences(seriesId);
+        const viewable = await Promise.all(occurrences.map((event) => canViewEvent(event, req.user, inviteToken)));
+        const events = occurrences.filter((event, index) => viewable[index]);
+
+        res.json({ series, events });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const updateSeries = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { seriesId } = req.params;
+
+        if (!isValidObjectId(seriesId)) {
+            next(new ValidationError("Invalid series id format"));
+            return;
+        }
+
+        if (req.body.startDate !== undefined) {
+            next(new ValidationError("Validation Error", { startDate: "Start Date can only be changed per occurrence" }));
+            return;
+        }
+
+        const series = await getEventSeries(seriesId);
+
+        if (!series) {
+            next(new NotFoundError("Event series doesn't exist"));
+            return;
+        }
+
+        const result = await updateUpcomingOccurrences(seriesId, req.body);
+
+        if ("errors" in result) {
+            next(new ValidationError("Validation Error", result.errors));
+            return;
+        }
+
+        res.json({ series: await getEventSeries(seriesId), ...result });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const cancelSeries = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { seriesId } = req.params;
+
+        if (!isValidObjectId(seriesId)) {
+            next(new ValidationError("Invalid series id format"));
+            return;
+        }
+
+        const series = await getEventSeries(seriesId);
+
+        if (!series) {
+            next(new NotFoundError("Event series doesn't exist"));
+            return;
+        }
+
+        const result = await cancelUpcomingOccurrences(seriesId, req.body.reason, req.user.id);
+
+        res.json({ series, ...result });
+    } catch (err) {
+        next(err);
+    }
+};
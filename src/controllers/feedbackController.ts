@@ -0,0 +1,158 @@
+import { Request, Response, NextFunction } from "express";
+import { isValidObjectId } from "mongoose";
+import EventFeedback from "../models/EventFeedback";
+import EventCategory from "../models/EventCategory";
+import { EventStatus } from "../models/Event";
+import { AuthenticatedRequest } from "../middlewares/authenticateUser";
+import { getEvent, getEventAttendee, isEventVisible } from "../services/eventService";
+import {
+    getCategoryFeedbackSummary,
+    getEventFeedbacks,
+    getUserFeedback,
+    summarizeFeedback,
+    summarizeFeedbackAnswers,
+} from "../services/feedbackService";
+import { buildAnswersSchema } from "../utils/registrationForm";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+import NotFoundError from "../errors/NotFoundError";
+import AppError from "../errors/AppError";
+
+export const submitFeedback = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId } = req.params;
+        const { id: userId } = req.user;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event || !isEventVisible(event)) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        if (event.status === EventStatus.Cancelled) {
+            next(new ValidationError("Cancelled events can't be rated"));
+            return;
+        }
+
+        if (event.endDate > new Date()) {
+            next(new ValidationError("Feedback opens once the event has ended"));
+            return;
+        }
+
+        const attendee = await getEventAttendee(userId, eventId);
+
+        if (!attendee || attendee.isWaitlisted || !(attendee.isApproved || attendee.checkedInAt)) {
+            next(new AppError("Only attendees of the event can give feedback", 403));
+            return;
+        }
+
+        if (await getUserFeedback(userId, eventId)) {
+            next(new AppError("You already gave feedback for this event", 409));
+            return;
+        }
+
+        const { error: answersError, value: answers } = buildAnswersSchema(event.feedbackForm).validate(req.body.answers ?? {});
+
+        if (answersError) {
+            next(new ValidationError("Validation Error", formatValidationErrors(answersError)));
+            return;
+        }
+
+        const feedback = await EventFeedback.create({
+            eventId,
+            userId,
+            rating: req.body.rating,
+            comment: req.body.comment,
+            answers,
+        });
+
+        res.status(201).json({ feedback });
+    } catch (err) {
+        // two submissions racing past the check above
+        if ((err as { code?: number }).code === 11000) {
+            next(new AppError("You already gave feedback for this event", 409));
+            return;
+        }
+        next(err);
+    }
+};
+
+export const myFeedback = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId } = req.params;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const feedback = await getUserFeedback(req.user.id, eventId);
+
+        if (!feedback) {
+            next(new NotFoundError("You haven't given feedback for this event"));
+            return;
+        }
+
+        res.json({ feedback });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const eventFeedback = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId } = req.params;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        const [summary, feedbacks] = await Promise.all([summarizeFeedback([eventId]), getEventFeedbacks(eventId)]);
+
+        res.json({
+            summary,
+            questions: summarizeFeedbackAnswers(event.feedbackForm, feedbacks),
+            feedback: feedbacks,
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const categoryFeedback = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id: categoryId } = req.params;
+
+        if (!isValidObjectId(categoryId)) {
+            next(new ValidationError("Invalid id format"));
+            return;
+        }
+
+        const category = await EventCategory.findById(categoryId);
+
+        if (!category) {
+            next(new NotFoundError(`Category with id [${categoryId}] doesn't exist`));
+            return;
+        }
+
+        const { summary, events } = await getCategoryFeedbackSummary(categoryId);
+
+        res.json({ category, summary, events });
+    } catch (err) {
+        next(err);
+    }
+};
@@ -0,0 +1,151 @@
+import { Request, Response, NextFunction } from "express";
+import { isValidObjectId } from "mongoose";
+import { AuthenticatedRequest } from "../middlewares/authenticateUser";
+import { getLedgerEntries, getRevenueReport, recordAdjustment } from "../services/ledgerService";
+import {
+    getOutstandingRefundsReport,
+    getRefundRequestById,
+    getRefundRequests,
+    reviewRefundRequest,
+} from "../services/refundService";
+import { getAttendeeById } from "../services/attendeeService";
+import { getEvent } from "../services/eventService";
+import { RefundStatus } from "../models/RefundRequest";
+import ValidationError from "../errors/ValidationError";
+import NotFoundError from "../errors/NotFoundError";
+import AppError from "../errors/AppError";
+
+export const ledgerEntries = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const {
+            eventId, attendeeId, kind, from, to,
+        } = req.query as { eventId?: string, attendeeId?: string, kind?: string, from?: Date, to?: Date };
+
+        const entries = await getLedgerEntries({
+            ...(eventId && { eventId }),
+            ...(attendeeId && { attendeeId }),
+            ...(kind && { kind }),
+            ...((from || to) && {
+                createdAt: {
+                    ...(from && { $gte: from }),
+                    ...(to && { $lte: to }),
+                },
+            }),
+        });
+
+        res.json({ entries });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const createAdjustment = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const {
+            eventId, attendeeId, amount, note,
+        } = req.body;
+
+        const event = await getEvent(eventId);
+
+        if (!event) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        const attendee = attendeeId ? await getAttendeeById(attendeeId) : null;
+
+        if (attendeeId && (!attendee || attendee.eventId.toString() !== eventId)) {
+            next(new NotFoundError("Attendee is not registered to this event"));
+            return;
+        }
+
+        const entry = await recordAdjustment({
+            eventId,
+            attendeeId: attendeeId ?? null,
+            userId: attendee?.userId ?? null,
+            amount,
+            note,
+            recordedBy: req.user.id,
+        });
+
+        res.status(201).json({ entry });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const refundRequests = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { eventId, status } = req.query as { [key: string]: string | undefined };
+
+        const refunds = await getRefundRequests({
+            ...(eventId && { eventId }),
+            ...(status && { status }),
+        });
+
+        res.json({ refunds });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const reviewRefund = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { refundId } = req.params;
+        const { decision, amount, note } = req.body;
+
+        if (!isValidObjectId(refundId)) {
+            next(new ValidationError("Invalid refund id format"));
+            return;
+        }
+
+        const refund = await getRefundRequestById(refundId);
+
+        if (!refund) {
+            next(new NotFoundError("Refund request does not exist"));
+            return;
+        }
+
+        if (amount !== undefined && amount > refund.amount) {
+            next(new ValidationError("Validation Error", { amount: `amount can't be more than the paid ${refund.amount}` }));
+            return;
+        }
+
+        const reviewedRefund = refund.status === RefundStatus.Requested
+            ? await reviewRefundRequest(refundId, decision, req.user.id, note ?? null, amount ?? refund.amount)
+            : null;
+
+        if (!reviewedRefund) {
+            next(new AppError(`This refund request is already ${refund.status}`, 409));
+            return;
+        }
+
+        res.json({ refund: reviewedRefund });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const revenueReport = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { eventId, from, to } = req.query as { eventId?: string, from?: Date, to?: Date };
+
+        const report = await getRevenueReport({ eventId, from, to });
+
+        res.json({ report });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const outstandingRefundsReport = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.query as { eventId?: string };
+
+        const report = await getOutstandingRefundsReport(eventId);
+
+        res.json({ report });
+    } catch (err) {
+        next(err);
+    }
+};
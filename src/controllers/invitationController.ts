@@ -0,0 +1,237 @@
+import { Request, Response, NextFunction } from "express";
+import { isValidObjectId } from "mongoose";
+import { AuthenticatedRequest } from "../middlewares/authenticateUser";
+import {
+    createInviteLink,
+    declineInvitation,
+    deleteEventInvitation,
+    getEventInvitations,
+    getInvitationByToken,
+    getInviteLinkByToken,
+    getInviteLinkError,
+    getInviteLinks,
+    inviteByEmail,
+    isInvitationFor,
+    openInvitation,
+    revokeInviteLink,
+} from "../services/invitationService";
+import { getEvent, isEventVisible } from "../services/eventService";
+import { InvitationStatus } from "../models/EventInvitation";
+import ValidationError from "../errors/ValidationError";
+import NotFoundError from "../errors/NotFoundError";
+import AppError from "../errors/AppError";
+
+// what invitees get to see of the private event before registering
+const toInvitedEvent = (event: NonNullable<Awaited<ReturnType<typeof getEvent>>>) => ({
+    id: event.id,
+    name: event.name,
+    description: event.description,
+    startDate: event.startDate,
+    endDate: event.endDate,
+    timezone: event.timezone,
+    isPaid: event.isPaid,
+    price: event.price,
+});
+
+export const inviteToEvent = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId } = req.params;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        const result = await inviteByEmail({ id: eventId, name: event.name }, req.body.emails, req.user.id);
+
+        res.status(201).json(result);
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const eventInvitations = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId } = req.params;
+        const { status } = req.query as { status?: InvitationStatus };
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        if (status && !Object.values(InvitationStatus).includes(status)) {
+            next(new ValidationError("Validation Error", { status: `status must be one of ${Object.values(InvitationStatus).join(", ")}` }));
+            return;
+        }
+
+        const invitations = await getEventInvitations(eventId, status);
+
+        res.json({ invitations });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const deleteInvitation = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId, invitationId } = req.params;
+
+        if (!isValidObjectId(eventId) || !isValidObjectId(invitationId)) {
+            next(new ValidationError("Invalid id format"));
+            return;
+        }
+
+        const invitation = await deleteEventInvitation(eventId, invitationId);
+
+        if (!invitation) {
+            next(new NotFoundError("Invitation doesn't exist"));
+            return;
+        }
+
+        res.status(204).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const createEventInviteLink = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId } = req.params;
+        const { maxUses, expiresAt } = req.body;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        const inviteLink = await createInviteLink(eventId, req.user.id, maxUses, expiresAt);
+
+        res.status(201).json({ inviteLink });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const eventInviteLinks = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId } = req.params;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const inviteLinks = await getInviteLinks(eventId);
+
+        res.json({ inviteLinks });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const revokeEventInviteLink = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId, linkId } = req.params;
+
+        if (!isValidObjectId(eventId) || !isValidObjectId(linkId)) {
+            next(new ValidationError("Invalid id format"));
+            return;
+        }
+
+        const inviteLink = await revokeInviteLink(eventId, linkId);
+
+        if (!inviteLink) {
+            next(new NotFoundError("Invite link doesn't exist"));
+            return;
+        }
+
+        res.json({ inviteLink });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const invitationByToken = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const invitation = await openInvitation(req.params.token);
+        const event = invitation && await getEvent(String(invitation.eventId));
+
+        if (!invitation || !event || !isEventVisible(event)) {
+            next(new NotFoundError("Invitation doesn't exist"));
+            return;
+        }
+
+        res.json({ invitation, event: toInvitedEvent(event) });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const declineInvitationByToken = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const invitation = await getInvitationByToken(req.params.token);
+
+        if (!invitation) {
+            next(new NotFoundError("Invitation doesn't exist"));
+            return;
+        }
+
+        if (!isInvitationFor(invitation, req.user)) {
+            next(new AppError("This invitation was sent to another email", 403));
+            return;
+        }
+
+        const declined = await declineInvitation(invitation.id);
+
+        if (!declined) {
+            next(new AppError(`This invitation is already ${invitation.status}`, 409));
+            return;
+        }
+
+        res.json({ invitation: declined });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const inviteLinkByToken = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const inviteLink = await getInviteLinkByToken(req.params.token);
+        const event = inviteLink && await getEvent(String(inviteLink.eventId));
+
+        if (!inviteLink || !event || !isEventVisible(event)) {
+            next(new NotFoundError("Invite link doesn't exist"));
+            return;
+        }
+
+        const linkError = getInviteLinkError(inviteLink);
+
+        if (linkError) {
+            next(new ValidationError("Validation Error", { inviteToken: linkError }));
+            return;
+        }
+
+        res.json({
+            event: toInvitedEvent(event),
+            expiresAt: inviteLink.expiresAt,
+            remainingUses: inviteLink.maxUses === null ? null : inviteLink.maxUses - inviteLink.usesCount,
+        });
+    } catch (err) {
+        next(err);
+    }
+};
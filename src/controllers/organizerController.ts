@@ -0,0 +1,124 @@
+import { Request, Response, NextFunction } from "express";
+import { AuthenticatedRequest } from "../middlewares/authenticateUser";
+import User from "../models/User";
+import Event from "../models/Event";
+import EventCategory from "../models/EventCategory";
+import asyncWrapper from "../utils/asyncWrapper";
+import isObjectIdValid from "../utils/mongoose";
+import {
+    assignOrganizer,
+    deleteOrganizerAssignment,
+    getOrganizedEvents,
+    getOrganizerAssignments,
+} from "../services/organizerService";
+import ValidationError from "../errors/ValidationError";
+import NotFoundError from "../errors/NotFoundError";
+
+const getScopeErrors = async (userId: string, eventId?: string, categoryId?: string) => {
+    const [user, event, category] = await Promise.all([
+        User.exists({ _id: userId }),
+        eventId ? Event.exists({ _id: eventId }) : true,
+        categoryId ? EventCategory.exists({ _id: categoryId }) : true,
+    ]);
+
+    const errors: { [key: string]: string } = {};
+
+    if (!user) {
+        errors.userId = "User doesn't exist";
+    }
+
+    if (!event) {
+        errors.eventId = "Event doesn't exist";
+    }
+
+    if (!category) {
+        errors.categoryId = "Category doesn't exist";
+    }
+
+    return Object.keys(errors).length ? errors : null;
+};
+
+export const createOrganizerAssignment = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    const { userId, eventId, categoryId } = req.body;
+
+    const [scopeErr, scopeErrors] = await asyncWrapper(getScopeErrors(userId, eventId, categoryId));
+
+    if (scopeErr) {
+        next(scopeErr);
+        return;
+    }
+
+    if (scopeErrors) {
+        next(new ValidationError("Validation Error", scopeErrors));
+        return;
+    }
+
+    const [err, assignment] = await asyncWrapper(assignOrganizer(userId, eventId ? { eventId } : { categoryId }, req.user.id));
+
+    if (err) {
+        next(err);
+        return;
+    }
+
+    res.status(201).json({ assignment });
+};
+
+export const getAllOrganizerAssignments = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const invalidKey = ["userId", "eventId", "categoryId"]
+        .find((key) => req.query[key] !== undefined && !isObjectIdValid(String(req.query[key])));
+
+    if (invalidKey) {
+        next(new ValidationError(`Invalid ${invalidKey.replace("Id", "")} id format`));
+        return;
+    }
+
+    const { userId, eventId, categoryId } = req.query;
+    const filter = {
+        ...(userId && { userId: String(userId) }),
+        ...(eventId && { eventId: String(eventId) }),
+        ...(categoryId && { categoryId: String(categoryId) }),
+    };
+
+    const [err, assignments] = await asyncWrapper(getOrganizerAssignments(filter));
+
+    if (err) {
+        next(err);
+        return;
+    }
+
+    res.json({ assignments });
+};
+
+export const deleteOrganizerAssignmentById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const assignmentId = req.params.id;
+
+    if (!isObjectIdValid(assignmentId)) {
+        next(new ValidationError("Invalid id format"));
+        return;
+    }
+
+    const [err, assignment] = await asyncWrapper(deleteOrganizerAssignment(assignmentId));
+
+    if (err) {
+        next(err);
+        return;
+    }
+
+    if (!assignment) {
+        next(new NotFoundError(`Organizer assignment with id [${assignmentId}] doesn't exist`));
+        return;
+    }
+
+    res.status(204).send();
+};
+
+export const myOrganizedEvents = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    const [err, events] = await asyncWrapper(getOrganizedEvents(req.user.id));
+
+    if (err) {
+        next(err);
+        return;
+    }
+
+    res.json({ events });
+};
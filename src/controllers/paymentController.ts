@@ -0,0 +1,195 @@
+import { Response, NextFunction } from "express";
+import { isValidObjectId } from "mongoose";
+import { AuthenticatedRequest } from "../middlewares/authenticateUser";
+import { getEvent, getEventAttendee } from "../services/eventService";
+import {
+    getAttendeePayments,
+    getOpenPayment,
+    getPaymentBySession,
+    handlePaymentWebhook,
+    startCheckout,
+} from "../services/paymentService";
+import { getPaymentProvider } from "../services/paymentProviders";
+import { buildMockWebhook, MOCK_SIGNATURE_HEADER } from "../services/paymentProviders/mockPaymentProvider";
+import { ReviewStatus } from "../models/EventAttendee";
+import { PaymentStatus } from "../models/Payment";
+import RawBodyRequest from "../types/RawBodyRequest";
+import ValidationError from "../errors/ValidationError";
+import NotFoundError from "../errors/NotFoundError";
+import AppError from "../errors/AppError";
+
+export const checkoutMyRegistration = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        if (!event.isPaid) {
+            next(new ValidationError("This event is free"));
+            return;
+        }
+
+        const attendee = await getEventAttendee(req.user.id, eventId);
+
+        if (!attendee) {
+            next(new NotFoundError("You are not registered to this event"));
+            return;
+        }
+
+        if (attendee.reviewStatus === ReviewStatus.Approved) {
+            next(new AppError("Your registration is already approved", 409));
+            return;
+        }
+
+        // the payment would approve a seat the attendee doesn't hold yet
+        if (attendee.isWaitlisted) {
+            next(new AppError("You are on the waitlist, you can pay once you get a seat", 409));
+            return;
+        }
+
+        // a second checkout would let the user pay twice
+        const openPayment = await getOpenPayment(attendee.id);
+
+        if (openPayment?.status === PaymentStatus.Succeeded) {
+            next(new AppError("You already paid for this registration", 409));
+            return;
+        }
+
+        if (openPayment) {
+            res.json({ payment: openPayment });
+            return;
+        }
+
+        const payment = await startCheckout(attendee, event, req.user.email);
+
+        res.status(201).json({ payment });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const myPayments = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const attendee = await getEventAttendee(req.user.id, eventId);
+
+        if (!attendee) {
+            next(new NotFoundError("You are not registered to this event"));
+            return;
+        }
+
+        const payments = await getAttendeePayments(attendee.id);
+
+        res.json({ payments });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const paymentWebhook = async (req: RawBodyRequest, res: Response, next: NextFunction) => {
+    try {
+        if (!req.rawBody) {
+            next(new ValidationError("Webhook body is missing"));
+            return;
+        }
+
+        let payment;
+        try {
+            payment = await handlePaymentWebhook(req.rawBody, req.headers);
+        } catch (verifyErr) {
+            next(verifyErr instanceof AppError ? verifyErr : new ValidationError("Invalid webhook signature or payload"));
+            return;
+        }
+
+        if (!payment) {
+            next(new NotFoundError("Unknown checkout session"));
+            return;
+        }
+
+        res.json({ received: true, status: payment.status });
+    } catch (err) {
+        next(err);
+    }
+};
+
+const isMockCheckoutEnabled = () => process.env.ENABLE_MOCK_PAYMENTS === "true" && getPaymentProvider().name === "mock";
+
+// only the user paying can see or complete a mock checkout session
+const getMyMockPayment = async (req: AuthenticatedRequest) => {
+    if (!isMockCheckoutEnabled()) {
+        return null;
+    }
+
+    const payment = await getPaymentBySession(req.params.sessionId);
+    return payment && String(payment.userId) === req.user.id ? payment : null;
+};
+
+export const mockCheckoutSession = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const payment = await getMyMockPayment(req);
+
+        if (!payment) {
+            next(new NotFoundError("Checkout session doesn't exist"));
+            return;
+        }
+
+        res.json({ payment });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// plays the gateway: sends the signed webhook the real checkout page would trigger
+export const completeMockCheckout = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { outcome } = req.body;
+
+        if (outcome !== "succeeded" && outcome !== "failed") {
+            next(new ValidationError("Validation Error", { outcome: "outcome must be one of succeeded, failed" }));
+            return;
+        }
+
+        const payment = await getMyMockPayment(req);
+
+        if (!payment) {
+            next(new NotFoundError("Checkout session doesn't exist"));
+            return;
+        }
+
+        if (payment.status !== PaymentStatus.Pending) {
+            next(new AppError("This checkout session is already completed", 409));
+            return;
+        }
+
+        const { body, signature } = buildMockWebhook({
+            sessionId: payment.sessionId,
+            outcome,
+            amount: payment.amount,
+            currency: payment.currency,
+            providerPaymentId: outcome === "succeeded" ? `mock_pay_${payment.id}` : null,
+            failureReason: outcome === "failed" ? "Card declined" : null,
+        }, process.env.PAYMENT_WEBHOOK_SECRET || "");
+
+        const settledPayment = await handlePaymentWebhook(Buffer.from(body), { [MOCK_SIGNATURE_HEADER]: signature });
+
+        res.json({ payment: settledPayment });
+    } catch (err) {
+        next(err);
+    }
+};
@@ -0,0 +1,190 @@
+import { Request, Response, NextFunction } from "express";
+import { AuthenticatedRequest } from "../middlewares/authenticateUser";
+import PromoCode from "../models/PromoCode";
+import Event from "../models/Event";
+import asyncWrapper from "../utils/asyncWrapper";
+import isObjectIdValid from "../utils/mongoose";
+import { normalizePromoCode } from "../services/pricingService";
+import ValidationError from "../errors/ValidationError";
+import NotFoundError from "../errors/NotFoundError";
+import AppError from "../errors/AppError";
+
+// a code scoped to an event can only name tiers that event has
+const getTierKeysError = async (eventId: string | null, tierKeys: string[] | undefined) => {
+    if (!eventId || !tierKeys?.length) {
+        return null;
+    }
+
+    const event = await Event.findById(eventId, "ticketTiers");
+
+    if (!event) {
+        return { eventId: "Event doesn't exist" };
+    }
+
+    const unknownKeys = tierKeys.filter((key) => !event.ticketTiers.some((tier) => tier.key === key));
+    return unknownKeys.length ? { tierKeys: `The event has no ${unknownKeys.join(", ")} tier` } : null;
+};
+
+export const createPromoCode = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    const code = normalizePromoCode(req.body.code);
+
+    const [findErr, existingCode] = await asyncWrapper(PromoCode.findOne({ code }));
+
+    if (findErr) {
+        next(findErr);
+        return;
+    }
+
+    if (existingCode) {
+        next(new ValidationError("Promo code exists", { code: "code already exists" }));
+        return;
+    }
+
+    const [tierErr, tierErrors] = await asyncWrapper(getTierKeysError(req.body.eventId ?? null, req.body.tierKeys));
+
+    if (tierErr) {
+        next(tierErr);
+        return;
+    }
+
+    if (tierErrors) {
+        next(new ValidationError("Validation Error", tierErrors));
+        return;
+    }
+
+    const [createErr, promoCode] = await asyncWrapper(PromoCode.create({ ...req.body, code, createdBy: req.user.id }));
+
+    if (createErr) {
+        next(createErr);
+        return;
+    }
+
+    res.status(201).json({ promoCode });
+};
+
+export const getAllPromoCodes = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { eventId } = req.query;
+
+    if (eventId !== undefined && !isObjectIdValid(String(eventId))) {
+        next(new ValidationError("Invalid event id format"));
+        return;
+    }
+
+    const [err, promoCodes] = await asyncWrapper(PromoCode.find(eventId ? { eventId } : {}).sort({ createdAt: -1 }));
+
+    if (err) {
+        next(err);
+        return;
+    }
+
+    res.json({ promoCodes });
+};
+
+export const getPromoCodeById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const promoCodeId = req.params.id;
+
+    if (!isObjectIdValid(promoCodeId)) {
+        next(new ValidationError("Invalid id format"));
+        return;
+    }
+
+    const [err, promoCode] = await asyncWrapper(PromoCode.findById(promoCodeId));
+
+    if (err) {
+        next(err);
+        return;
+    }
+
+    if (!promoCode) {
+        next(new NotFoundError(`Promo code with id [${promoCodeId}] doesn't exist`));
+        return;
+    }
+
+    res.json({ promoCode });
+};
+
+export const updatePromoCodeById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const promoCodeId = req.params.id;
+
+    if (!isObjectIdValid(promoCodeId)) {
+        next(new ValidationError("Invalid id format"));
+        return;
+    }
+
+    const [findErr, promoCode] = await asyncWrapper(PromoCode.findById(promoCodeId));
+
+    if (findErr) {
+        next(findErr);
+        return;
+    }
+
+    if (!promoCode) {
+        next(new NotFoundError(`Promo code with id [${promoCodeId}] doesn't exist`));
+        return;
+    }
+
+    if (req.body.maxUses && req.body.maxUses < promoCode.usesCount) {
+        next(new ValidationError("Validation Error", { maxUses: `maxUses can't be less than the ${promoCode.usesCount} uses so far` }));
+        return;
+    }
+
+    const eventId = req.body.eventId !== undefined ? req.body.eventId : promoCode.eventId?.toString() ?? null;
+    const [tierErr, tierErrors] = await asyncWrapper(getTierKeysError(eventId, req.body.tierKeys ?? promoCode.tierKeys));
+
+    if (tierErr) {
+        next(tierErr);
+        return;
+    }
+
+    if (tierErrors) {
+        next(new ValidationError("Validation Error", tierErrors));
+        return;
+    }
+
+    promoCode.set(req.body);
+
+    const [saveErr, updatedPromoCode] = await asyncWrapper(promoCode.save());
+
+    if (saveErr) {
+        next(saveErr);
+        return;
+    }
+
+    res.json({ promoCode: updatedPromoCode });
+};
+
+// registrations keep the code they used, so a used code can only be deactivated
+export const deletePromoCodeById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const promoCodeId = req.params.id;
+
+    if (!isObjectIdValid(promoCodeId)) {
+        next(new ValidationError("Invalid id format"));
+        return;
+    }
+
+    const [findErr, promoCode] = await asyncWrapper(PromoCode.findById(promoCodeId));
+
+    if (findErr) {
+        next(findErr);
+        return;
+    }
+
+    if (!promoCode) {
+        next(new NotFoundError(`Promo code with id [${promoCodeId}] doesn't exist`));
+        return;
+    }
+
+    if (promoCode.usesCount > 0) {
+        next(new AppError("This promo code was already used, deactivate it instead", 409));
+        return;
+    }
+
+    const [deleteErr] = await asyncWrapper(PromoCode.deleteOne({ _id: promoCodeId }));
+
+    if (deleteErr) {
+        next(deleteErr);
+        return;
+    }
+
+    res.status(204).send();
+};
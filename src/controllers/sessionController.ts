@@ -0,0 +1,209 @@
+import { Request, Response, NextFunction } from "express";
+import { isValidObjectId } from "mongoose";
+import EventSession from "../models/EventSession";
+import { AuthenticatedRequest } from "../middlewares/authenticateUser";
+import { canViewEvent, getEvent } from "../services/eventService";
+import {
+    allSpeakersExist,
+    findRoomConflict,
+    getEventSession,
+    getEventSessions,
+} from "../services/sessionService";
+import { formatInTimeZone, parseDateInTimeZone } from "../utils/timezone";
+import ValidationError from "../errors/ValidationError";
+import NotFoundError from "../errors/NotFoundError";
+import Errors from "../types/Errors";
+
+type EventWindow = { startDate: Date, endDate: Date, timezone: string };
+type SessionSchedule = { startDate: Date, endDate: Date, room: string | null, speakers: string[] };
+
+const getSessionScheduleErrors = async (eventId: string, event: EventWindow, session: SessionSchedule, sessionId?: string) => {
+    const errors: Errors = {};
+
+    if (session.endDate <= session.startDate) {
+        errors.endDate = "End Date must be after Start Date";
+    } else if (session.startDate < event.startDate || session.endDate > event.endDate) {
+        errors.startDate = `Session must take place between ${formatInTimeZone(event.startDate, event.timezone)} and ${formatInTimeZone(event.endDate, event.timezone)}`;
+    } else if (session.room) {
+        const conflict = await findRoomConflict(eventId, session.room, session.startDate, session.endDate, sessionId);
+        if (conflict) {
+            errors.room = `Room ${session.room} is already booked by session "${conflict.title}" at that time`;
+        }
+    }
+
+    if (session.speakers.length && !(await allSpeakersExist(session.speakers))) {
+        errors.speakers = "Some speakers don't exist";
+    }
+
+    return Object.keys(errors).length ? errors : null;
+};
+
+export const eventSessions = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId } = req.params;
+        const { inviteToken } = req.query;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event || !(await canViewEvent(event, req.user, typeof inviteToken === "string" ? inviteToken : undefined))) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        const sessions = await getEventSessions(eventId);
+
+        res.json({ sessions });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const sessionById = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId, sessionId } = req.params;
+        const { inviteToken } = req.query;
+
+        if (!isValidObjectId(eventId) || !isValidObjectId(sessionId)) {
+            next(new ValidationError("Invalid id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event || !(await canViewEvent(event, req.user, typeof inviteToken === "string" ? inviteToken : undefined))) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        const session = await getEventSession(eventId, sessionId);
+
+        if (!session) {
+            next(new NotFoundError("Session doesn't exist"));
+            return;
+        }
+
+        res.json({ session });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const createSession = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId } = req.params;
+
+        if (!isValidObjectId(eventId)) {
+            next(new ValidationError("Invalid event id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        const data = {
+            ...req.body,
+            startDate: parseDateInTimeZone(req.body.startDate, event.timezone),
+            endDate: parseDateInTimeZone(req.body.endDate, event.timezone),
+            speakers: req.body.speakers ?? [],
+        };
+
+        const errors = await getSessionScheduleErrors(eventId, event, data);
+
+        if (errors) {
+            next(new ValidationError("Validation Error", errors));
+            return;
+        }
+
+        const session = await EventSession.create({ ...data, eventId });
+        await session.populate("speakers");
+
+        res.status(201).json({ session });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const updateSession = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId, sessionId } = req.params;
+
+        if (!isValidObjectId(eventId) || !isValidObjectId(sessionId)) {
+            next(new ValidationError("Invalid id format"));
+            return;
+        }
+
+        const event = await getEvent(eventId);
+
+        if (!event) {
+            next(new NotFoundError("Event doesn't exist"));
+            return;
+        }
+
+        const session = await EventSession.findOne({ _id: sessionId, eventId });
+
+        if (!session) {
+            next(new NotFoundError("Session doesn't exist"));
+            return;
+        }
+
+        const changes = { ...req.body };
+        if (changes.startDate) {
+            changes.startDate = parseDateInTimeZone(changes.startDate, event.timezone);
+        }
+        if (changes.endDate) {
+            changes.endDate = parseDateInTimeZone(changes.endDate, event.timezone);
+        }
+
+        Object.assign(session, changes);
+
+        const errors = await getSessionScheduleErrors(eventId, event, {
+            startDate: session.startDate,
+            endDate: session.endDate,
+            room: session.room,
+            speakers: session.speakers.map((speaker) => speaker.toString()),
+        }, sessionId);
+
+        if (errors) {
+            next(new ValidationError("Validation Error", errors));
+            return;
+        }
+
+        const updatedSession = await session.save();
+        await updatedSession.populate("speakers");
+
+        res.json({ session: updatedSession });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const deleteSession = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id: eventId, sessionId } = req.params;
+
+        if (!isValidObjectId(eventId) || !isValidObjectId(sessionId)) {
+            next(new ValidationError("Invalid id format"));
+            return;
+        }
+
+        const session = await EventSession.findOneAndDelete({ _id: sessionId, eventId });
+
+        if (!session) {
+            next(new NotFoundError("Session doesn't exist"));
+            return;
+        }
+
+        res.status(204).send();
+    } catch (err) {
+        next(err);
+    }
+};
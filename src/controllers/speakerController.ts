@@ -0,0 +1,147 @@
+import { NextFunction, Request, Response } from "express";
+import { UploadApiResponse } from "cloudinary";
+import Speaker from "../models/Speaker";
+import EventSession from "../models/EventSession";
+import asyncWrapper from "../utils/asyncWrapper";
+import ValidationError from "../errors/ValidationError";
+import NotFoundError from "../errors/NotFoundError";
+import AppError from "../errors/AppError";
+import isObjectIdValid from "../utils/mongoose";
+import { deleteImageFromCloud, uploadImageToCloud } from "../utils/cloudinary";
+
+export const createSpeaker = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { name, title, bio } = req.body;
+
+    let imageUrl: string | null = null;
+    let cloudinaryPublicId: string | null = null;
+
+    if (req.file) {
+        const [uploadErr, result] = await asyncWrapper<UploadApiResponse>(uploadImageToCloud(req.file?.buffer, "speakers"));
+        if (uploadErr) {
+            next(new AppError(`Couldn't upload image due to : ${uploadErr.message}`));
+            return;
+        }
+        imageUrl = result.secure_url;
+        cloudinaryPublicId = result.public_id;
+    }
+
+    const newSpeaker = new Speaker({
+        name, title, bio, imageUrl, cloudinaryPublicId,
+    });
+    const [createErr] = await asyncWrapper(newSpeaker.save());
+
+    if (createErr) {
+        await deleteImageFromCloud(cloudinaryPublicId || "");
+        next(createErr);
+        return;
+    }
+
+    res.status(201).json({ speaker: newSpeaker });
+};
+
+export const getAllSpeakers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const [err, speakers] = await asyncWrapper(Speaker.find().sort({ name: 1 }));
+    if (err) {
+        next(err);
+        return;
+    }
+
+    res.json({ speakers });
+};
+
+export const getSpeakerById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const speakerId = req.params.id;
+    if (!isObjectIdValid(speakerId)) {
+        next(new ValidationError("Invalid id format"));
+        return;
+    }
+
+    const [err, speaker] = await asyncWrapper(Speaker.findById(speakerId));
+
+    if (err) {
+        next(err);
+        return;
+    }
+
+    if (!speaker) {
+        next(new NotFoundError(`Speaker with id [${speakerId}] doesn't exist`));
+        return;
+    }
+
+    res.json({ speaker });
+};
+
+export const updateSpeakerById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { name, title, bio } = req.body;
+    const speakerId = req.params.id;
+
+    if (!isObjectIdValid(speakerId)) {
+        next(new ValidationError("Invalid id format"));
+        return;
+    }
+
+    const [findErr, speaker] = await asyncWrapper(Speaker.findById(speakerId));
+
+    if (findErr) {
+        next(findErr);
+        return;
+    }
+
+    if (!speaker) {
+        next(new NotFoundError(`Speaker with id [${speakerId}] doesn't exist`));
+        return;
+    }
+
+    const previousPublicId = speaker.cloudinaryPublicId;
+
+    if (req.file) {
+        const [uploadErr, result] = await asyncWrapper<UploadApiResponse>(uploadImageToCloud(req.file?.buffer, "speakers"));
+        if (uploadErr) {
+            next(new AppError(`Couldn't upload image due to : ${uploadErr.message}`));
+            return;
+        }
+        speaker.imageUrl = result.secure_url;
+        speaker.cloudinaryPublicId = result.public_id;
+    }
+
+    Object.assign(speaker, { name: name ?? speaker.name, title: title ?? speaker.title, bio: bio ?? speaker.bio });
+
+    const [updateErr, updatedSpeaker] = await asyncWrapper(speaker.save());
+
+    if (updateErr) {
+        next(updateErr);
+        return;
+    }
+
+    if (req.file && previousPublicId) {
+        await deleteImageFromCloud(previousPublicId);
+    }
+
+    res.status(200).json({ speaker: updatedSpeaker });
+};
+
+export const deleteSpeakerById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const speakerId = req.params.id;
+
+    if (!isObjectIdValid(speakerId)) {
+        next(new ValidationError("Invalid id format"));
+        return;
+    }
+
+    const [err, speaker] = await asyncWrapper(Speaker.findByIdAndDelete(speakerId));
+
+    if (err) {
+        next(err);
+        return;
+    }
+
+    if (!speaker) {
+        next(new NotFoundError(`Speaker with id [${speakerId}] doesn't exists`));
+        return;
+    }
+
+    await EventSession.updateMany({ speakers: speaker.id }, { $pull: { speakers: speaker.id } });
+    await deleteImageFromCloud(speaker.cloudinaryPublicId || "");
+
+    res.status(204).json({ message: "Speaker deleted successfully" });
+};
@@ -0,0 +1,280 @@
+import { Request, Response, NextFunction } from "express";
+import { isValidObjectId } from "mongoose";
+import { AuthenticatedRequest } from "../middlewares/authenticateUser";
+import {
+    createTeam,
+    getEventTeams,
+    getTeamById,
+    getTeamDetails,
+    getUserTeam,
+    isTeamEvent,
+    joinTeam,
+    regenerateInviteCode,
+    removeTeamMember,
+} from "../services/teamService";
+import { getEvent, getEventAttendee, isEventVisible } from "../services/eventService";
+import ValidationError from "../errors/ValidationError";
+import NotFoundError from "../errors/NotFoundError";
+import AppError from "../errors/AppError";
+
+// the team event the request is about, or the error to pass on, admins and organizers also reach unpublished events
+const findTeamEvent = async (eventId: string, managesEvent = false) => {
+    if (!isValidObjectId(eventId)) {
+        return { error: new ValidationError("Invalid event id format") };
+    }
+
+    const event = await getEvent(eventId);
+
+    if (!event || (!managesEvent && !isEventVisible(event))) {
+        return { error: new NotFoundError("Event doesn't exist") };
+    }
+
+    if (!isTeamEvent(event)) {
+        return { error: new ValidationError("This event doesn't register teams") };
+    }
+
+    return { event };
+};
+
+export const createEventTeam = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+        const { id: userId } = req.user;
+        const { event, error } = await findTeamEvent(eventId);
+
+        if (!event) {
+            next(error);
+            return;
+        }
+
+        // registering runs the age and eligibility checks, a team only groups attendees
+        if (!await getEventAttendee(userId, eventId)) {
+            next(new AppError("Register in the event before creating a team", 403));
+            return;
+        }
+
+        if (await getUserTeam(eventId, userId)) {
+            next(new AppError("You are already in a team of this event", 409));
+            return;
+        }
+
+        const { team, errors, conflict } = await createTeam(eventId, req.body.name, userId);
+
+        if (conflict) {
+            next(new AppError(conflict, 409));
+            return;
+        }
+
+        if (!team) {
+            next(new ValidationError("Validation Error", errors));
+            return;
+        }
+
+        res.status(201).json({ team: await getTeamDetails(team, eventId, event) });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const joinEventTeam = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+        const { id: userId } = req.user;
+        const { event, error } = await findTeamEvent(eventId);
+
+        if (!event) {
+            next(error);
+            return;
+        }
+
+        if (!await getEventAttendee(userId, eventId)) {
+            next(new AppError("Register in the event before joining a team", 403));
+            return;
+        }
+
+        if (await getUserTeam(eventId, userId)) {
+            next(new AppError("You are already in a team of this event", 409));
+            return;
+        }
+
+        const { team, errors, conflict } = await joinTeam(eventId, event, req.body.inviteCode, userId);
+
+        if (conflict) {
+            next(new AppError(conflict, 409));
+            return;
+        }
+
+        if (!team) {
+            next(new ValidationError("Validation Error", errors));
+            return;
+        }
+
+        res.json({ team: await getTeamDetails(team, eventId, event) });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const myTeam = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+        const { event, error } = await findTeamEvent(eventId);
+
+        if (!event) {
+            next(error);
+            return;
+        }
+
+        const team = await getUserTeam(eventId, req.user.id);
+
+        if (!team) {
+            next(new NotFoundError("You are not in a team of this event"));
+            return;
+        }
+
+        res.json({ team: await getTeamDetails(team, eventId, event) });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const leaveMyTeam = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+        const { event, error } = await findTeamEvent(eventId);
+
+        if (!event) {
+            next(error);
+            return;
+        }
+
+        if (!await getUserTeam(eventId, req.user.id)) {
+            next(new NotFoundError("You are not in a team of this event"));
+            return;
+        }
+
+        await removeTeamMember(eventId, req.user.id);
+
+        res.status(204).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const removeMyTeamMember = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { eventId, userId } = req.params;
+        const { event, error } = await findTeamEvent(eventId);
+
+        if (!event) {
+            next(error);
+            return;
+        }
+
+        const team = await getUserTeam(eventId, req.user.id);
+
+        if (!team) {
+            next(new NotFoundError("You are not in a team of this event"));
+            return;
+        }
+
+        if (String(team.captainId) !== req.user.id) {
+            next(new AppError("Only the team captain can remove members", 403));
+            return;
+        }
+
+        if (userId === req.user.id) {
+            next(new ValidationError("Leave the team instead of removing yourself"));
+            return;
+        }
+
+        if (!team.members.some((member) => String(member) === userId)) {
+            next(new NotFoundError("User is not a member of your team"));
+            return;
+        }
+
+        const updatedTeam = await removeTeamMember(eventId, userId);
+
+        res.json({ team: updatedTeam && await getTeamDetails(updatedTeam, eventId, event) });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const regenerateMyTeamInviteCode = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+        const { event, error } = await findTeamEvent(eventId);
+
+        if (!event) {
+            next(error);
+            return;
+        }
+
+        const team = await getUserTeam(eventId, req.user.id);
+
+        if (!team) {
+            next(new NotFoundError("You are not in a team of this event"));
+            return;
+        }
+
+        if (String(team.captainId) !== req.user.id) {
+            next(new AppError("Only the team captain can change the invite code", 403));
+            return;
+        }
+
+        const updatedTeam = await regenerateInviteCode(team.id);
+
+        res.json({ team: updatedTeam && await getTeamDetails(updatedTeam, eventId, event) });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const eventTeams = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { eventId } = req.params;
+        const { complete } = req.query;
+
+        if (complete !== undefined && complete !== "true" && complete !== "false") {
+            next(new ValidationError("Validation Error", { complete: "complete must be true/false" }));
+            return;
+        }
+
+        const { event, error } = await findTeamEvent(eventId, true);
+
+        if (!event) {
+            next(error);
+            return;
+        }
+
+        const teams = await getEventTeams(eventId, event, complete === undefined ? undefined : complete === "true");
+
+        res.json({ teams });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const eventTeamById = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { eventId, teamId } = req.params;
+        const { event, error } = await findTeamEvent(eventId, true);
+
+        if (!event) {
+            next(error);
+            return;
+        }
+
+        const team = isValidObjectId(teamId) ? await getTeamById(eventId, teamId) : null;
+
+        if (!team) {
+            next(new NotFoundError("Team doesn't exist"));
+            return;
+        }
+
+        res.json({ team: await getTeamDetails(team, eventId, event) });
+    } catch (err) {
+        next(err);
+    }
+};
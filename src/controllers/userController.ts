@@ -39,6 +39,7 @@ export async function updateMe(req: AuthenticatedRequest, res: Response, next: N
     const userId = req.user.id;
     const updateData = req.body;
     delete updateData.emailVerified;
+    delete updateData.calendarToken;
 
     if (req.user.role !== UserRole.Admin) {
         delete updateData.isActive;
@@ -0,0 +1,148 @@
+import { NextFunction, Request, Response } from "express";
+import Venue, { IVenueRoom } from "../models/Venue";
+import asyncWrapper from "../utils/asyncWrapper";
+import ValidationError from "../errors/ValidationError";
+import NotFoundError from "../errors/NotFoundError";
+import isObjectIdValid from "../utils/mongoose";
+import { countVenueEvents, findBookingOutsideRooms } from "../services/venueService";
+
+export const createVenue = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { name } = req.body;
+
+    const [findErr, existingVenue] = await asyncWrapper(Venue.findOne({ name }));
+
+    if (findErr) {
+        next(findErr);
+        return;
+    }
+
+    if (existingVenue) {
+        next(new ValidationError("Venue with same name exists", { name: "name already exists" }));
+        return;
+    }
+
+    const [createErr, venue] = await asyncWrapper(Venue.create(req.body));
+
+    if (createErr) {
+        next(createErr);
+        return;
+    }
+
+    res.status(201).json({ venue });
+};
+
+export const getAllVenues = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const [err, venues] = await asyncWrapper(Venue.find().sort({ name: 1 }));
+
+    if (err) {
+        next(err);
+        return;
+    }
+
+    res.json({ venues });
+};
+
+export const getVenueById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const venueId = req.params.id;
+
+    if (!isObjectIdValid(venueId)) {
+        next(new ValidationError("Invalid id format"));
+        return;
+    }
+
+    const [err, venue] = await asyncWrapper(Venue.findById(venueId));
+
+    if (err) {
+        next(err);
+        return;
+    }
+
+    if (!venue) {
+        next(new NotFoundError(`Venue with id [${venueId}] doesn't exist`));
+        return;
+    }
+
+    res.json({ venue });
+};
+
+export const updateVenueById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const venueId = req.params.id;
+
+    if (!isObjectIdValid(venueId)) {
+        next(new ValidationError("Invalid id format"));
+        return;
+    }
+
+    const [findErr, venue] = await asyncWrapper(Venue.findById(venueId));
+
+    if (findErr) {
+        next(findErr);
+        return;
+    }
+
+    if (!venue) {
+        next(new NotFoundError(`Venue with id [${venueId}] doesn't exist`));
+        return;
+    }
+
+    if (req.body.rooms) {
+        const roomNames = req.body.rooms.map((room: IVenueRoom) => room.name);
+        const [bookingErr, booking] = await asyncWrapper(findBookingOutsideRooms(venueId, roomNames));
+
+        if (bookingErr) {
+            next(bookingErr);
+            return;
+        }
+
+        if (booking) {
+            next(new ValidationError("Validation Error", { rooms: `${booking.room} is still booked by "${booking.name}"` }));
+            return;
+        }
+    }
+
+    Object.assign(venue, req.body);
+
+    const [updateErr, updatedVenue] = await asyncWrapper(venue.save());
+
+    if (updateErr) {
+        next(updateErr);
+        return;
+    }
+
+    res.json({ venue: updatedVenue });
+};
+
+export const deleteVenueById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const venueId = req.params.id;
+
+    if (!isObjectIdValid(venueId)) {
+        next(new ValidationError("Invalid id format"));
+        return;
+    }
+
+    const [countErr, eventsCount] = await asyncWrapper(countVenueEvents(venueId));
+
+    if (countErr) {
+        next(countErr);
+        return;
+    }
+
+    if (eventsCount) {
+        next(new ValidationError(`Venue is used by ${eventsCount} event(s), move them to another venue first`));
+        return;
+    }
+
+    const [err, venue] = await asyncWrapper(Venue.findByIdAndDelete(venueId));
+
+    if (err) {
+        next(err);
+        return;
+    }
+
+    if (!venue) {
+        next(new NotFoundError(`Venue with id [${venueId}] doesn't exist`));
+        return;
+    }
+
+    res.status(204).send();
+};
@@ -0,0 +1,9 @@
+import AppError from "./AppError";
+
+class ServiceUnavailableError extends AppError {
+    constructor(message = "Service Unavailable") {
+        super(message, 503, {});
+    }
+}
+
+export default ServiceUnavailableError;
@@ -0,0 +1,38 @@
+import { Response, NextFunction } from "express";
+import isObjectIdValid from "../utils/mongoose";
+import AppError from "../errors/AppError";
+import { AuthenticatedRequest } from "./authenticateUser";
+import Event from "../models/Event";
+import EventAttendee from "../models/EventAttendee";
+import { organizesEvent } from "../services/organizerService";
+import asyncWrapper from "../utils/asyncWrapper";
+
+// Lets admins through, and organizers of the event the `attendeeId` route parameter is registered in
+const isAttendeeOrganizer = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return next(new AppError("User not authenticated.", 401));
+    }
+
+    if (req.user.role === "admin") {
+        return next();
+    }
+
+    const { attendeeId } = req.params;
+    const [error, isAllowed] = await asyncWrapper((async () => {
+        const attendee = isObjectIdValid(attendeeId) ? await EventAttendee.findById(attendeeId, "eventId") : null;
+        const event = attendee && await Event.findById(attendee.eventId, "category");
+        return event ? organizesEvent(req.user.id, String(attendee.eventId), event.category) : false;
+    })());
+
+    if (error) {
+        return next(error);
+    }
+
+    if (!isAllowed) {
+        return next(new AppError("Access denied. Admins and the event organizers only.", 403));
+    }
+
+    next();
+};
+
+export default isAttendeeOrganizer;
@@ -0,0 +1,34 @@
+import { Response, NextFunction } from "express";
+import isObjectIdValid from "../utils/mongoose";
+import AppError from "../errors/AppError";
+import { AuthenticatedRequest } from "./authenticateUser";
+import { organizesCategory } from "../services/organizerService";
+import asyncWrapper from "../utils/asyncWrapper";
+
+// Lets admins through, and organizers of the category sent as `category` in the body
+const isCategoryOrganizer = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return next(new AppError("User not authenticated.", 401));
+    }
+
+    if (req.user.role === "admin") {
+        return next();
+    }
+
+    const { category } = req.body;
+    const [error, isAllowed] = await asyncWrapper(isObjectIdValid(String(category))
+        ? organizesCategory(req.user.id, category)
+        : Promise.resolve(false));
+
+    if (error) {
+        return next(error);
+    }
+
+    if (!isAllowed) {
+        return next(new AppError("Access denied. Admins and the category organizers only.", 403));
+    }
+
+    next();
+};
+
+export default isCategoryOrganizer;
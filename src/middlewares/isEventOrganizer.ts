@@ -0,0 +1,36 @@
+import { Response, NextFunction } from "express";
+import isObjectIdValid from "../utils/mongoose";
+import AppError from "../errors/AppError";
+import { AuthenticatedRequest } from "./authenticateUser";
+import Event from "../models/Event";
+import { organizesEvent } from "../services/organizerService";
+import asyncWrapper from "../utils/asyncWrapper";
+
+// Lets admins through, and organizers of the event whose id is in the `param` route parameter
+const isEventOrganizer = (param: string) => async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return next(new AppError("User not authenticated.", 401));
+    }
+
+    if (req.user.role === "admin") {
+        return next();
+    }
+
+    const eventId = req.params[param];
+    const [error, isAllowed] = await asyncWrapper((async () => {
+        const event = isObjectIdValid(eventId) ? await Event.findById(eventId, "category") : null;
+        return event ? organizesEvent(req.user.id, eventId, event.category) : false;
+    })());
+
+    if (error) {
+        return next(error);
+    }
+
+    if (!isAllowed) {
+        return next(new AppError("Access denied. Admins and the event organizers only.", 403));
+    }
+
+    next();
+};
+
+export default isEventOrganizer;
@@ -0,0 +1,30 @@
+import { Response, NextFunction } from "express";
+import AppError from "../errors/AppError";
+import { AuthenticatedRequest } from "./authenticateUser";
+import { isOrganizer as hasOrganizerAssignments } from "../services/organizerService";
+import asyncWrapper from "../utils/asyncWrapper";
+
+// Lets admins and users organizing at least one event or category through, the controller narrows what organizers see
+const isOrganizer = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return next(new AppError("User not authenticated.", 401));
+    }
+
+    if (req.user.role === "admin") {
+        return next();
+    }
+
+    const [error, isAllowed] = await asyncWrapper(hasOrganizerAssignments(req.user.id));
+
+    if (error) {
+        return next(error);
+    }
+
+    if (!isAllowed) {
+        return next(new AppError("Access denied. Admins and organizers only.", 403));
+    }
+
+    next();
+};
+
+export default isOrganizer;
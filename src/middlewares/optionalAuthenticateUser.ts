@@ -0,0 +1,14 @@
+import { Response, NextFunction } from "express";
+import authenticateUser, { AuthenticatedRequest } from "./authenticateUser";
+
+// Authenticates the user when an access token is sent and lets anonymous requests through otherwise
+const optionalAuthenticateUser = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.headers.authorization) {
+        next();
+        return;
+    }
+
+    authenticateUser(req, res, next);
+};
+
+export default optionalAuthenticateUser;
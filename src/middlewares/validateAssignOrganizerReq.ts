@@ -0,0 +1,41 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+const objectId = (name: string) => Joi.string()
+    .hex()
+    .length(24)
+    .messages({
+        "string.hex": `Invalid ${name} id format`,
+        "string.length": `Invalid ${name} id format`,
+    });
+
+function validateAssignOrganizerReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        userId: objectId("user")
+            .required()
+            .messages({
+                "any.required": "userId is required",
+            }),
+        eventId: objectId("event")
+            .when("categoryId", { is: Joi.exist(), then: Joi.forbidden(), otherwise: Joi.required() })
+            .messages({
+                "any.required": "eventId or categoryId is required",
+                "any.unknown": "Send either eventId or categoryId, not both",
+            }),
+        categoryId: objectId("category"),
+    });
+
+    const { error, value } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    req.body = value;
+    next();
+}
+
+export default validateAssignOrganizerReq;
@@ -0,0 +1,58 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateCreateAdjustmentReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        eventId: Joi.string()
+            .hex()
+            .length(24)
+            .required()
+            .messages({
+                "string.hex": "Invalid event id format",
+                "string.length": "Invalid event id format",
+                "any.required": "eventId is required",
+            }),
+        attendeeId: Joi.string()
+            .hex()
+            .length(24)
+            .messages({
+                "string.hex": "Invalid attendee id format",
+                "string.length": "Invalid attendee id format",
+            }),
+        amount: Joi.number()
+            .precision(2)
+            .invalid(0)
+            .required()
+            .messages({
+                "number.base": "amount should be a number",
+                "any.invalid": "amount can't be 0",
+                "any.required": "amount is required",
+            }),
+        note: Joi.string()
+            .trim()
+            .min(3)
+            .max(1000)
+            .required()
+            .messages({
+                "string.base": "note should be a type of 'text'",
+                "string.empty": "note cannot be empty",
+                "string.min": "note should have a minimum length of {#limit}",
+                "string.max": "note should have a maximum length of {#limit}",
+                "any.required": "note is required",
+            }),
+    });
+
+    const { error, value } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    req.body = value;
+    next();
+}
+
+export default validateCreateAdjustmentReq;
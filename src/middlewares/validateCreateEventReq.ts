@@ -2,6 +2,12 @@ import Joi from "joi";
 import { Request, Response, NextFunction } from "express";
 import { formatValidationErrors } from "../utils/joiValidation";
 import ValidationError from "../errors/ValidationError";
+import { isValidTimeZone } from "../utils/timezone";
+import { buildQuestionsSchema } from "../utils/registrationForm";
+import { buildTicketTiersSchema } from "../utils/ticketTiers";
+import buildEligibilitySchema from "../utils/eligibility";
+import { AttendanceMode, EventStatus, EventVisibility } from "../models/Event";
+import { MAX_OCCURRENCES } from "../utils/recurrence";
 
 function validateCreateEventReq(req: Request, res: Response, next: NextFunction) {
     const schema = Joi.object({
@@ -30,6 +36,65 @@ function validateCreateEventReq(req: Request, res: Response, next: NextFunction)
                 "string.empty": "category cannot be empty",
                 "any.required": "category is a required",
             }),
+        venue: Joi.string()
+            .hex()
+            .length(24)
+            .allow(null)
+            .messages({
+                "string.base": "venue should be a type of 'text'",
+                "string.hex": "Invalid venue id format",
+                "string.length": "Invalid venue id format",
+            }),
+        room: Joi.string()
+            .allow(null)
+            .messages({
+                "string.base": "room should be a type of 'text'",
+                "string.empty": "room cannot be empty",
+            }),
+        attendanceMode: Joi.string()
+            .valid(...Object.values(AttendanceMode))
+            .messages({
+                "any.only": `attendanceMode must be one of ${Object.values(AttendanceMode).join(", ")}`,
+            }),
+        meeting: Joi.object({
+            provider: Joi.string()
+                .max(50)
+                .allow(null)
+                .messages({
+                    "string.base": "meeting provider should be a type of 'text'",
+                }),
+            joinUrl: Joi.string()
+                .uri({ scheme: ["https", "http"] })
+                .required()
+                .messages({
+                    "string.uri": "meeting joinUrl must be a valid URL",
+                    "any.required": "meeting joinUrl is required",
+                }),
+            passcode: Joi.string()
+                .max(100)
+                .allow(null)
+                .messages({
+                    "string.base": "meeting passcode should be a type of 'text'",
+                }),
+        })
+            .allow(null)
+            .when("attendanceMode", {
+                is: Joi.valid(AttendanceMode.Online, AttendanceMode.Hybrid).required(),
+                then: Joi.required(),
+            })
+            .messages({
+                "object.base": "meeting should be an object with joinUrl, provider and passcode",
+                "any.required": "meeting details are required for online and hybrid events",
+            }),
+        meetingRevealMinutesBeforeStart: Joi.number()
+            .integer()
+            .min(0)
+            .strict()
+            .messages({
+                "number.base": "meetingRevealMinutesBeforeStart should be a number",
+                "number.integer": "meetingRevealMinutesBeforeStart must be an integer",
+                "number.min": "meetingRevealMinutesBeforeStart can't be negative",
+            }),
         startDate: Joi.date()
             .iso()
             .required()
@@ -38,6 +103,13 @@ function validateCreateEventReq(req: Request, res: Response, next: NextFunction)
                 "date.format": "Start date should should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
                 "any.required": "Start Date is required",
             }),
+        timezone: Joi.string()
+            .custom((value, helpers) => (isValidTimeZone(value) ? value : helpers.error("any.invalid")))
+            .messages({
+                "string.base": "timezone should be a type of 'text'",
+                "string.empty": "timezone cannot be empty",
+                "any.invalid": "timezone must be a valid IANA timezone e.g. Africa/Cairo",
+            }),
         capacity: Joi.number()
             .integer()
             .positive()
@@ -73,16 +145,69 @@ function validateCreateEventReq(req: Request, res: Response, next: NextFunction)
             .messages({
                 "boolean.base": "registrationClosed must be true/false",
             }),
+        registrationOpensAt: Joi.date()
+            .iso()
+            .allow(null)
+            .messages({
+                "date.base": "registrationOpensAt should be a valid date",
+                "date.format": "registrationOpensAt should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+            }),
+        registrationClosesAt: Joi.date()
+            .iso()
+            .allow(null)
+            .when("registrationOpensAt", { is: Joi.date().required(), then: Joi.date().greater(Joi.ref("registrationOpensAt")) })
+            .messages({
+                "date.base": "registrationClosesAt should be a valid date",
+                "date.format": "registrationClosesAt should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+                "date.greater": "registrationClosesAt must be after registrationOpensAt",
+            }),
+        autoCloseHoursBeforeStart: Joi.number()
+            .integer()
+            .min(0)
+            .allow(null)
+            .strict()
+            .messages({
+                "number.base": "autoCloseHoursBeforeStart should be a number",
+                "number.integer": "autoCloseHoursBeforeStart must be an integer",
+                "number.min": "autoCloseHoursBeforeStart can't be negative",
+            }),
+        registrationForm: buildQuestionsSchema("registrationForm"),
+        feedbackForm: buildQuestionsSchema("feedbackForm"),
         isActive: Joi.boolean()
             .strict()
             .messages({
                 "boolean.base": "isActive must be true/false",
             }),
+        status: Joi.string()
+            .valid(...Object.values(EventStatus))
+            .messages({
+                "any.only": `status must be one of ${Object.values(EventStatus).join(", ")}`,
+            }),
+        publishAt: Joi.date()
+            .iso()
+            .when("status", { is: EventStatus.Scheduled, then: Joi.required() })
+            .messages({
+                "date.base": "publishAt should be a valid date",
+                "date.format": "publishAt should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+                "any.required": "publishAt is required for scheduled events",
+            }),
+        visibility: Joi.string()
+            .valid(...Object.values(EventVisibility))
+            .messages({
+                "any.only": `visibility must be one of ${Object.values(EventVisibility).join(", ")}`,
+            }),
         isPaid: Joi.boolean()
             .strict()
             .messages({
                 "boolean.base": "isPaid must be true/false",
             }),
+        ticketTiers: buildTicketTiersSchema(),
+        eligibility: buildEligibilitySchema(),
+        certificateEligible: Joi.boolean()
+            .strict()
+            .messages({
+                "boolean.base": "certificateEligible must be true/false",
+            }),
         minAge: Joi.number()
             .integer()
             .positive()
@@ -103,7 +228,77 @@ function validateCreateEventReq(req: Request, res: Response, next: NextFunction)
                 "number.integer": "maxAge must be an integer",
                 "number.greater": "maxAge must be greater than minAge",
             }),
-    });
+        minTeamSize: Joi.number()
+            .integer()
+            .positive()
+            .allow(null)
+            .strict()
+            .messages({
+                "number.base": "minTeamSize should be a number",
+                "number.positive": "minTeamSize must be a positive number",
+                "number.integer": "minTeamSize must be an integer",
+            }),
+        maxTeamSize: Joi.number()
+            .integer()
+            .positive()
+            .allow(null)
+            .when("minTeamSize", { is: Joi.number().required(), then: Joi.number().min(Joi.ref("minTeamSize")).invalid(null) })
+            .strict()
+            .messages({
+                "number.base": "maxTeamSize should be a number",
+                "number.positive": "maxTeamSize must be a positive number",
+                "number.integer": "maxTeamSize must be an integer",
+                "number.min": "maxTeamSize can't be less than minTeamSize",
+                "any.invalid": "maxTeamSize is required when minTeamSize is set",
+            }),
+        recurrence: Joi.object({
+            frequency: Joi.string()
+                .valid("daily", "weekly", "monthly")
+                .required()
+                .messages({
+                    "any.only": "recurrence frequency must be one of daily, weekly, monthly",
+                    "any.required": "recurrence frequency is required",
+                }),
+            interval: Joi.number()
+                .integer()
+                .positive()
+                .strict()
+                .messages({
+                    "number.base": "recurrence interval should be a number",
+                    "number.positive": "recurrence interval must be a positive number",
+                    "number.integer": "recurrence interval must be an integer",
+                }),
+            count: Joi.number()
+                .integer()
+                .min(2)
+                .max(MAX_OCCURRENCES)
+                .strict()
+                .messages({
+                    "number.base": "recurrence count should be a number",
+                    "number.integer": "recurrence count must be an integer",
+                    "number.min": "recurrence count must be at least {#limit}",
+                    "number.max": "recurrence count must be at most {#limit}",
+                }),
+            until: Joi.date()
+                .iso()
+                .greater(Joi.ref("...startDate"))
+                .messages({
+                    "date.base": "recurrence until should be a valid date",
+                    "date.format": "recurrence until should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+                    "date.greater": "recurrence until must be after Start Date",
+                }),
+        })
+            .xor("count", "until")
+            .messages({
+                "object.base": "recurrence should be an object",
+                "object.missing": "recurrence must have either count or until",
+                "object.xor": "recurrence can't have both count and until",
+            }),
+    })
+        .with("minTeamSize", "maxTeamSize")
+        .messages({
+            "object.with": "maxTeamSize is required when minTeamSize is set",
+        });
 
     const { error } = schema.validate(req.body);
 
@@ -0,0 +1,41 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateCreateInviteLinkReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        maxUses: Joi.number()
+            .integer()
+            .positive()
+            .allow(null)
+            .default(null)
+            .messages({
+                "number.base": "maxUses should be a number",
+                "number.integer": "maxUses must be an integer",
+                "number.positive": "maxUses must be a positive number",
+            }),
+        expiresAt: Joi.date()
+            .iso()
+            .greater("now")
+            .allow(null)
+            .default(null)
+            .messages({
+                "date.base": "expiresAt should be a valid date",
+                "date.format": "expiresAt should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+                "date.greater": "expiresAt must be in the future",
+            }),
+    });
+
+    const { error, value } = schema.validate(req.body ?? {});
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    req.body = value;
+    next();
+}
+
+export default validateCreateInviteLinkReq;
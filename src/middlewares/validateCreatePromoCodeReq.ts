@@ -0,0 +1,93 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateCreatePromoCodeReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        code: Joi.string()
+            .trim()
+            .pattern(/^[A-Za-z0-9_-]+$/)
+            .min(3)
+            .max(30)
+            .required()
+            .messages({
+                "string.pattern.base": "code can only contain letters, digits, - and _",
+                "string.min": "code should have a minimum length of {#limit}",
+                "string.max": "code should have a maximum length of {#limit}",
+                "any.required": "code is required",
+            }),
+        description: Joi.string()
+            .max(300)
+            .allow(null)
+            .messages({
+                "string.base": "description should be a type of 'text'",
+                "string.max": "description should have a maximum length of {#limit}",
+            }),
+        eventId: Joi.string()
+            .hex()
+            .length(24)
+            .allow(null)
+            .messages({
+                "string.hex": "Invalid event id format",
+                "string.length": "Invalid event id format",
+            }),
+        tierKeys: Joi.array()
+            .items(Joi.string())
+            .unique()
+            .messages({
+                "array.base": "tierKeys should be a list of ticket tier keys",
+                "array.unique": "tierKeys must be unique",
+            }),
+        discountType: Joi.string()
+            .valid("percent", "fixed")
+            .required()
+            .messages({
+                "any.only": "discountType must be one of percent, fixed",
+                "any.required": "discountType is required",
+            }),
+        discountValue: Joi.number()
+            .positive()
+            .precision(2)
+            .when("discountType", { is: "percent", then: Joi.number().max(100) })
+            .required()
+            .messages({
+                "number.base": "discountValue should be a number",
+                "number.positive": "discountValue must be a positive number",
+                "number.max": "a percent discountValue can't be more than {#limit}",
+                "number.precision": "discountValue must have no more than 2 decimal places",
+                "any.required": "discountValue is required",
+            }),
+        maxUses: Joi.number()
+            .integer()
+            .positive()
+            .allow(null)
+            .messages({
+                "number.base": "maxUses should be a number",
+                "number.integer": "maxUses must be an integer",
+                "number.positive": "maxUses must be a positive number",
+            }),
+        expiresAt: Joi.date()
+            .iso()
+            .allow(null)
+            .messages({
+                "date.base": "expiresAt should be a valid date",
+                "date.format": "expiresAt should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+            }),
+        isActive: Joi.boolean()
+            .messages({
+                "boolean.base": "isActive must be true/false",
+            }),
+    });
+
+    const { error } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    next();
+}
+
+export default validateCreatePromoCodeReq;
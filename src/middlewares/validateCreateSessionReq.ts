@@ -0,0 +1,73 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateCreateSessionReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        title: Joi.string()
+            .min(3)
+            .required()
+            .messages({
+                "string.base": "title should be a type of 'text'",
+                "string.empty": "title cannot be empty",
+                "string.min": "title should have a minimum length of {#limit}",
+                "any.required": "title is a required",
+            }),
+        description: Joi.string()
+            .allow("")
+            .messages({
+                "string.base": "description should be a type of 'text'",
+            }),
+        startDate: Joi.date()
+            .iso()
+            .required()
+            .messages({
+                "date.base": "Start Date should be a valid date",
+                "date.format": "Start date should should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+                "any.required": "Start Date is required",
+            }),
+        endDate: Joi.date()
+            .iso()
+            .required()
+            .when("startDate", { is: Joi.date().required(), then: Joi.date().greater(Joi.ref("startDate")) })
+            .messages({
+                "date.base": "End Date should be a valid date",
+                "date.format": "End date should should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+                "date.greater": "End Date must be after Start Date",
+                "any.required": "End Date is required",
+            }),
+        room: Joi.string()
+            .allow(null)
+            .messages({
+                "string.base": "room should be a type of 'text'",
+                "string.empty": "room cannot be empty",
+            }),
+        track: Joi.string()
+            .allow(null)
+            .messages({
+                "string.base": "track should be a type of 'text'",
+                "string.empty": "track cannot be empty",
+            }),
+        speakers: Joi.array()
+            .items(Joi.string().hex().length(24))
+            .unique()
+            .messages({
+                "array.base": "speakers should be a list of speaker ids",
+                "string.hex": "Invalid speaker id format",
+                "string.length": "Invalid speaker id format",
+                "array.unique": "speakers can't contain the same speaker twice",
+            }),
+    });
+
+    const { error } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    next();
+}
+
+export default validateCreateSessionReq;
@@ -0,0 +1,45 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateCreateSpeakerReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        name: Joi.string()
+            .min(2)
+            .max(100)
+            .required()
+            .messages({
+                "string.base": "Name should be a type of 'text'",
+                "string.empty": "Name cannot be empty",
+                "string.min": "Name should have a minimum length of {#limit}",
+                "string.max": "Name should have a maximum length of {#limit}",
+                "any.required": "Name is a required",
+            }),
+        title: Joi.string()
+            .max(100)
+            .allow("")
+            .messages({
+                "string.base": "title should be a type of 'text'",
+                "string.max": "title should have a maximum length of {#limit}",
+            }),
+        bio: Joi.string()
+            .max(2000)
+            .allow("")
+            .messages({
+                "string.base": "bio should be a type of 'text'",
+                "string.max": "bio should have a maximum length of {#limit}",
+            }),
+    });
+
+    const { error } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    next();
+}
+
+export default validateCreateSpeakerReq;
@@ -0,0 +1,33 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateCreateTeamReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        name: Joi.string()
+            .trim()
+            .min(2)
+            .max(50)
+            .required()
+            .messages({
+                "string.base": "name should be a type of 'text'",
+                "string.empty": "name cannot be empty",
+                "string.min": "name should have a minimum length of {#limit}",
+                "string.max": "name should have a maximum length of {#limit}",
+                "any.required": "name is required",
+            }),
+    });
+
+    const { error, value } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    req.body = value;
+    next();
+}
+
+export default validateCreateTeamReq;
@@ -0,0 +1,109 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateCreateVenueReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        name: Joi.string()
+            .min(3)
+            .max(100)
+            .required()
+            .messages({
+                "string.base": "Name should be a type of 'text'",
+                "string.empty": "Name cannot be empty",
+                "string.min": "Name should have a minimum length of {#limit}",
+                "string.max": "Name should have a maximum length of {#limit}",
+                "any.required": "Name is a required",
+            }),
+        address: Joi.string()
+            .max(300)
+            .required()
+            .messages({
+                "string.base": "address should be a type of 'text'",
+                "string.empty": "address cannot be empty",
+                "string.max": "address should have a maximum length of {#limit}",
+                "any.required": "address is required",
+            }),
+        coordinates: Joi.object({
+            latitude: Joi.number()
+                .min(-90)
+                .max(90)
+                .required()
+                .messages({
+                    "number.base": "latitude should be a number",
+                    "number.min": "latitude must be between -90 and 90",
+                    "number.max": "latitude must be between -90 and 90",
+                    "any.required": "latitude is required",
+                }),
+            longitude: Joi.number()
+                .min(-180)
+                .max(180)
+                .required()
+                .messages({
+                    "number.base": "longitude should be a number",
+                    "number.min": "longitude must be between -180 and 180",
+                    "number.max": "longitude must be between -180 and 180",
+                    "any.required": "longitude is required",
+                }),
+        })
+            .allow(null)
+            .messages({
+                "object.base": "coordinates should be an object with latitude and longitude",
+            }),
+        capacity: Joi.number()
+            .integer()
+            .positive()
+            .strict()
+            .required()
+            .messages({
+                "number.base": "Capacity should be a number",
+                "number.positive": "Capacity must be a positive number",
+                "number.integer": "Capacity must be an integer",
+                "any.required": "Capacity is required",
+            }),
+        accessibilityNotes: Joi.string()
+            .max(2000)
+            .allow("", null)
+            .messages({
+                "string.base": "accessibilityNotes should be a type of 'text'",
+                "string.max": "accessibilityNotes should have a maximum length of {#limit}",
+            }),
+        rooms: Joi.array()
+            .items(Joi.object({
+                name: Joi.string()
+                    .max(100)
+                    .required()
+                    .messages({
+                        "string.empty": "room name cannot be empty",
+                        "any.required": "room name is required",
+                    }),
+                capacity: Joi.number()
+                    .integer()
+                    .positive()
+                    .allow(null)
+                    .strict()
+                    .messages({
+                        "number.base": "room capacity should be a number",
+                        "number.positive": "room capacity must be a positive number",
+                        "number.integer": "room capacity must be an integer",
+                    }),
+            }))
+            .unique("name")
+            .messages({
+                "array.base": "rooms should be a list of rooms",
+                "array.unique": "room names must be unique",
+            }),
+    });
+
+    const { error } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    next();
+}
+
+export default validateCreateVenueReq;
@@ -0,0 +1,57 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateExportAttendeesReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        format: Joi.string()
+            .valid("csv", "xlsx")
+            .default("csv")
+            .messages({
+                "any.only": "format must be one of csv, xlsx",
+            }),
+        eventId: Joi.string()
+            .hex()
+            .length(24)
+            .messages({
+                "string.hex": "Invalid event id format",
+                "string.length": "Invalid event id format",
+            }),
+        status: Joi.string()
+            .valid("approved", "pending", "rejected", "waitlisted")
+            .messages({
+                "any.only": "status must be one of approved, pending, rejected, waitlisted",
+            }),
+        checkedIn: Joi.boolean()
+            .messages({
+                "boolean.base": "checkedIn must be true/false",
+            }),
+        from: Joi.date()
+            .iso()
+            .messages({
+                "date.base": "from should be a valid date",
+                "date.format": "from should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+            }),
+        to: Joi.date()
+            .iso()
+            .min(Joi.ref("from"))
+            .messages({
+                "date.base": "to should be a valid date",
+                "date.format": "to should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+                "date.min": "to can't be before from",
+            }),
+    });
+
+    const { error, value } = schema.validate(req.query);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    req.query = value;
+    next();
+}
+
+export default validateExportAttendeesReq;
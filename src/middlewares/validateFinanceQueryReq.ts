@@ -0,0 +1,55 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+const objectId = (name: string) => Joi.string()
+    .hex()
+    .length(24)
+    .messages({
+        "string.hex": `Invalid ${name} id format`,
+        "string.length": `Invalid ${name} id format`,
+    });
+
+function validateFinanceQueryReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        eventId: objectId("event"),
+        attendeeId: objectId("attendee"),
+        kind: Joi.string()
+            .valid("payment", "refund", "adjustment")
+            .messages({
+                "any.only": "kind must be one of payment, refund, adjustment",
+            }),
+        status: Joi.string()
+            .valid("requested", "approved", "rejected")
+            .messages({
+                "any.only": "status must be one of requested, approved, rejected",
+            }),
+        from: Joi.date()
+            .iso()
+            .messages({
+                "date.base": "from should be a valid date",
+                "date.format": "from should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+            }),
+        to: Joi.date()
+            .iso()
+            .min(Joi.ref("from"))
+            .messages({
+                "date.base": "to should be a valid date",
+                "date.format": "to should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+                "date.min": "to can't be before from",
+            }),
+    });
+
+    const { error, value } = schema.validate(req.query);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    req.query = value;
+    next();
+}
+
+export default validateFinanceQueryReq;
@@ -0,0 +1,35 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+const MAX_INVITED_EMAILS = 200;
+
+function validateInviteByEmailReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        emails: Joi.array()
+            .items(Joi.string().trim().email())
+            .min(1)
+            .max(MAX_INVITED_EMAILS)
+            .required()
+            .messages({
+                "array.base": "emails should be a list of emails",
+                "array.min": "emails must contain at least one email",
+                "array.max": `emails can't have more than ${MAX_INVITED_EMAILS} emails`,
+                "string.email": "emails must contain only valid emails",
+                "any.required": "emails is required",
+            }),
+    });
+
+    const { error, value } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    req.body = value;
+    next();
+}
+
+export default validateInviteByEmailReq;
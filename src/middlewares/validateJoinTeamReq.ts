@@ -0,0 +1,28 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateJoinTeamReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        inviteCode: Joi.string()
+            .trim()
+            .required()
+            .messages({
+                "string.base": "inviteCode should be a type of 'text'",
+                "string.empty": "inviteCode cannot be empty",
+                "any.required": "inviteCode is required",
+            }),
+    });
+
+    const { error } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    next();
+}
+
+export default validateJoinTeamReq;
@@ -0,0 +1,31 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateRejectAttendeeReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        reason: Joi.string()
+            .trim()
+            .min(3)
+            .max(1000)
+            .messages({
+                "string.base": "reason should be a type of 'text'",
+                "string.empty": "reason cannot be empty",
+                "string.min": "reason should have a minimum length of {#limit}",
+                "string.max": "reason should have a maximum length of {#limit}",
+            }),
+    });
+
+    const { error, value } = schema.validate(req.body ?? {});
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    req.body = value;
+    next();
+}
+
+export default validateRejectAttendeeReq;
@@ -0,0 +1,48 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateRescheduleEventReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        startDate: Joi.date()
+            .iso()
+            .required()
+            .messages({
+                "date.base": "Start Date should be a valid date",
+                "date.format": "Start date should should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+                "any.required": "Start Date is required",
+            }),
+        duration: Joi.number()
+            .integer()
+            .positive()
+            .strict()
+            .messages({
+                "number.base": "duration should be a number",
+                "number.positive": "duration must be a positive number",
+                "number.integer": "duration must be an integer",
+            }),
+        reason: Joi.string()
+            .min(3)
+            .max(1000)
+            .required()
+            .messages({
+                "string.base": "reason should be a type of 'text'",
+                "string.empty": "reason cannot be empty",
+                "string.min": "reason should have a minimum length of {#limit}",
+                "string.max": "reason should have a maximum length of {#limit}",
+                "any.required": "reason is required",
+            }),
+    });
+
+    const { error } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    next();
+}
+
+export default validateRescheduleEventReq;
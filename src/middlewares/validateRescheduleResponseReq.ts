@@ -0,0 +1,27 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateRescheduleResponseReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        attend: Joi.boolean()
+            .strict()
+            .required()
+            .messages({
+                "boolean.base": "attend must be true/false",
+                "any.required": "attend is required",
+            }),
+    });
+
+    const { error } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    next();
+}
+
+export default validateRescheduleResponseReq;
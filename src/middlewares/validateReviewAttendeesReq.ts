@@ -0,0 +1,83 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+export const MAX_BULK_REVIEW_ATTENDEES = 500;
+
+function validateReviewAttendeesReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        decision: Joi.string()
+            .valid("approved", "rejected")
+            .required()
+            .messages({
+                "any.only": "decision must be one of approved, rejected",
+                "any.required": "decision is required",
+            }),
+        attendeeIds: Joi.array()
+            .items(Joi.string().hex()
+                .length(24)
+                .messages({
+                    "string.hex": "Invalid attendee id format",
+                    "string.length": "Invalid attendee id format",
+                }))
+            .min(1)
+            .max(MAX_BULK_REVIEW_ATTENDEES)
+            .unique()
+            .messages({
+                "array.base": "attendeeIds should be a list of attendee ids",
+                "array.min": "attendeeIds should have at least {#limit} id",
+                "array.max": "attendeeIds can have at most {#limit} ids, use a filter for larger batches",
+                "array.unique": "attendeeIds contains duplicate ids",
+            }),
+        filter: Joi.object({
+            eventId: Joi.string()
+                .hex()
+                .length(24)
+                .messages({
+                    "string.hex": "Invalid event id format",
+                    "string.length": "Invalid event id format",
+                }),
+            status: Joi.string()
+                .valid("pending", "approved", "rejected")
+                .default("pending")
+                .messages({
+                    "any.only": "status must be one of pending, approved, rejected",
+                }),
+        }),
+        reason: Joi.string()
+            .trim()
+            .min(3)
+            .max(1000)
+            .when("decision", {
+                is: "rejected",
+                then: Joi.required(),
+                otherwise: Joi.forbidden(),
+            })
+            .messages({
+                "string.base": "reason should be a type of 'text'",
+                "string.empty": "reason cannot be empty",
+                "string.min": "reason should have a minimum length of {#limit}",
+                "string.max": "reason should have a maximum length of {#limit}",
+                "any.required": "reason is required when rejecting attendees",
+                "any.unknown": "reason is only allowed when rejecting attendees",
+            }),
+    })
+        .xor("attendeeIds", "filter")
+        .messages({
+            "object.xor": "Provide either attendeeIds or filter, not both",
+            "object.missing": "Provide either attendeeIds or filter",
+        });
+
+    const { error, value } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    req.body = value;
+    next();
+}
+
+export default validateReviewAttendeesReq;
@@ -0,0 +1,49 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateReviewRefundReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        decision: Joi.string()
+            .valid("approved", "rejected")
+            .required()
+            .messages({
+                "any.only": "decision must be one of approved, rejected",
+                "any.required": "decision is required",
+            }),
+        amount: Joi.number()
+            .positive()
+            .precision(2)
+            .when("decision", { is: "rejected", then: Joi.forbidden() })
+            .messages({
+                "number.base": "amount should be a number",
+                "number.positive": "amount should be positive",
+                "any.unknown": "amount is only allowed when approving a refund",
+            }),
+        note: Joi.string()
+            .trim()
+            .min(3)
+            .max(1000)
+            .when("decision", { is: "rejected", then: Joi.required() })
+            .messages({
+                "string.base": "note should be a type of 'text'",
+                "string.empty": "note cannot be empty",
+                "string.min": "note should have a minimum length of {#limit}",
+                "string.max": "note should have a maximum length of {#limit}",
+                "any.required": "note is required when rejecting a refund",
+            }),
+    });
+
+    const { error, value } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    req.body = value;
+    next();
+}
+
+export default validateReviewRefundReq;
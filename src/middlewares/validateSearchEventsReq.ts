@@ -0,0 +1,110 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateSearchEventsReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        q: Joi.string()
+            .trim()
+            .max(100)
+            .messages({
+                "string.base": "q should be a type of 'text'",
+                "string.empty": "q cannot be empty",
+                "string.max": "q should have a maximum length of {#limit}",
+            }),
+        category: Joi.string()
+            .hex()
+            .length(24)
+            .messages({
+                "string.hex": "Invalid category id format",
+                "string.length": "Invalid category id format",
+            }),
+        timing: Joi.string()
+            .valid("upcoming", "happening", "finished")
+            .messages({
+                "any.only": "timing must be one of upcoming, happening, finished",
+            }),
+        from: Joi.date()
+            .iso()
+            .messages({
+                "date.base": "from should be a valid date",
+                "date.format": "from should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+            }),
+        to: Joi.date()
+            .iso()
+            .min(Joi.ref("from"))
+            .messages({
+                "date.base": "to should be a valid date",
+                "date.format": "to should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+                "date.min": "to can't be before from",
+            }),
+        isPaid: Joi.boolean()
+            .messages({
+                "boolean.base": "isPaid must be true/false",
+            }),
+        minPrice: Joi.number()
+            .min(0)
+            .messages({
+                "number.base": "minPrice should be a number",
+                "number.min": "minPrice can't be negative",
+            }),
+        maxPrice: Joi.number()
+            .min(Joi.ref("minPrice"))
+            .messages({
+                "number.base": "maxPrice should be a number",
+                "number.min": "maxPrice can't be less than minPrice",
+            }),
+        age: Joi.number()
+            .integer()
+            .positive()
+            .messages({
+                "number.base": "age should be a number",
+                "number.positive": "age must be a positive number",
+                "number.integer": "age must be an integer",
+            }),
+        sort: Joi.string()
+            .valid("startDate", "-startDate", "price", "-price", "name", "-name", "createdAt", "-createdAt", "relevance")
+            .default("startDate")
+            .messages({
+                "any.only": "sort must be one of startDate, price, name, createdAt (prefix with - for descending) or relevance",
+            }),
+        page: Joi.number()
+            .integer()
+            .min(1)
+            .default(1)
+            .messages({
+                "number.base": "page should be a number",
+                "number.integer": "page must be an integer",
+                "number.min": "page must be at least {#limit}",
+            }),
+        limit: Joi.number()
+            .integer()
+            .min(1)
+            .max(100)
+            .default(20)
+            .messages({
+                "number.base": "limit should be a number",
+                "number.integer": "limit must be an integer",
+                "number.min": "limit must be at least {#limit}",
+                "number.max": "limit must be at most {#limit}",
+            }),
+    });
+
+    const { error, value } = schema.validate(req.query);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    if (value.sort === "relevance" && !value.q) {
+        next(new ValidationError("Validation Error", { sort: "sort by relevance requires a search query q" }));
+        return;
+    }
+
+    req.query = value;
+    next();
+}
+
+export default validateSearchEventsReq;
@@ -0,0 +1,45 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateSubmitFeedbackReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        rating: Joi.number()
+            .integer()
+            .min(1)
+            .max(5)
+            .strict()
+            .required()
+            .messages({
+                "number.base": "rating should be a number",
+                "number.integer": "rating must be an integer",
+                "number.min": "rating must be between 1 and 5",
+                "number.max": "rating must be between 1 and 5",
+                "any.required": "rating is required",
+            }),
+        comment: Joi.string()
+            .max(2000)
+            .allow("")
+            .messages({
+                "string.base": "comment should be a type of 'text'",
+                "string.max": "comment should have a maximum length of {#limit}",
+            }),
+        // checked against the feedback form of the event in the controller
+        answers: Joi.object()
+            .messages({
+                "object.base": "answers should be an object",
+            }),
+    });
+
+    const { error } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    next();
+}
+
+export default validateSubmitFeedbackReq;
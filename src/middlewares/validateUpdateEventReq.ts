@@ -2,6 +2,11 @@ import Joi from "joi";
 import { Request, Response, NextFunction } from "express";
 import { formatValidationErrors } from "../utils/joiValidation";
 import ValidationError from "../errors/ValidationError";
+import { isValidTimeZone } from "../utils/timezone";
+import { buildQuestionsSchema } from "../utils/registrationForm";
+import { buildTicketTiersSchema } from "../utils/ticketTiers";
+import buildEligibilitySchema from "../utils/eligibility";
+import { AttendanceMode, EventStatus, EventVisibility } from "../models/Event";
 
 function validateUpdateEventReq(req: Request, res: Response, next: NextFunction) {
     const schema = Joi.object({
@@ -27,6 +32,61 @@ function validateUpdateEventReq(req: Request, res: Response, next: NextFunction)
                 "string.empty": "category cannot be empty",
                 "any.required": "category is a required",
             }),
+        venue: Joi.string()
+            .hex()
+            .length(24)
+            .allow(null)
+            .messages({
+                "string.base": "venue should be a type of 'text'",
+                "string.hex": "Invalid venue id format",
+                "string.length": "Invalid venue id format",
+            }),
+        room: Joi.string()
+            .allow(null)
+            .messages({
+                "string.base": "room should be a type of 'text'",
+                "string.empty": "room cannot be empty",
+            }),
+        attendanceMode: Joi.string()
+            .valid(...Object.values(AttendanceMode))
+            .messages({
+                "any.only": `attendanceMode must be one of ${Object.values(AttendanceMode).join(", ")}`,
+            }),
+        meeting: Joi.object({
+            provider: Joi.string()
+                .max(50)
+                .allow(null)
+                .messages({
+                    "string.base": "meeting provider should be a type of 'text'",
+                }),
+            joinUrl: Joi.string()
+                .uri({ scheme: ["https", "http"] })
+                .required()
+                .messages({
+                    "string.uri": "meeting joinUrl must be a valid URL",
+                    "any.required": "meeting joinUrl is required",
+                }),
+            passcode: Joi.string()
+                .max(100)
+                .allow(null)
+                .messages({
+                    "string.base": "meeting passcode should be a type of 'text'",
+                }),
+        })
+            .allow(null)
+            .messages({
+                "object.base": "meeting should be an object with joinUrl, provider and passcode",
+                "any.required": "meeting details are required for online and hybrid events",
+            }),
+        meetingRevealMinutesBeforeStart: Joi.number()
+            .integer()
+            .min(0)
+            .strict()
+            .messages({
+                "number.base": "meetingRevealMinutesBeforeStart should be a number",
+                "number.integer": "meetingRevealMinutesBeforeStart must be an integer",
+                "number.min": "meetingRevealMinutesBeforeStart can't be negative",
+            }),
         startDate: Joi.date()
             .min("now")
             .iso()
@@ -36,6 +96,13 @@ function validateUpdateEventReq(req: Request, res: Response, next: NextFunction)
                 "date.format": "Start date should should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
                 "any.required": "Start Date is required",
             }),
+        timezone: Joi.string()
+            .custom((value, helpers) => (isValidTimeZone(value) ? value : helpers.error("any.invalid")))
+            .messages({
+                "string.base": "timezone should be a type of 'text'",
+                "string.empty": "timezone cannot be empty",
+                "any.invalid": "timezone must be a valid IANA timezone e.g. Africa/Cairo",
+            }),
         capacity: Joi.number()
             .integer()
             .positive()
@@ -70,16 +137,68 @@ function validateUpdateEventReq(req: Request, res: Response, next: NextFunction)
             .messages({
                 "boolean.base": "registrationClosed must be true/false",
             }),
+        registrationOpensAt: Joi.date()
+            .iso()
+            .allow(null)
+            .messages({
+                "date.base": "registrationOpensAt should be a valid date",
+                "date.format": "registrationOpensAt should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+            }),
+        registrationClosesAt: Joi.date()
+            .iso()
+            .allow(null)
+            .when("registrationOpensAt", { is: Joi.date().required(), then: Joi.date().greater(Joi.ref("registrationOpensAt")) })
+            .messages({
+                "date.base": "registrationClosesAt should be a valid date",
+                "date.format": "registrationClosesAt should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+                "date.greater": "registrationClosesAt must be after registrationOpensAt",
+            }),
+        autoCloseHoursBeforeStart: Joi.number()
+            .integer()
+            .min(0)
+            .allow(null)
+            .strict()
+            .messages({
+                "number.base": "autoCloseHoursBeforeStart should be a number",
+                "number.integer": "autoCloseHoursBeforeStart must be an integer",
+                "number.min": "autoCloseHoursBeforeStart can't be negative",
+            }),
+        registrationForm: buildQuestionsSchema("registrationForm"),
+        feedbackForm: buildQuestionsSchema("feedbackForm"),
         isActive: Joi.boolean()
             .strict()
             .messages({
                 "boolean.base": "isActive must be true/false",
             }),
+        status: Joi.string()
+            .valid(...Object.values(EventStatus))
+            .messages({
+                "any.only": `status must be one of ${Object.values(EventStatus).join(", ")}`,
+            }),
+        publishAt: Joi.date()
+            .iso()
+            .messages({
+                "date.base": "publishAt should be a valid date",
+                "date.format": "publishAt should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+                "any.required": "publishAt is required for scheduled events",
+            }),
+        visibility: Joi.string()
+            .valid(...Object.values(EventVisibility))
+            .messages({
+                "any.only": `visibility must be one of ${Object.values(EventVisibility).join(", ")}`,
+            }),
         isPaid: Joi.boolean()
             .strict()
             .messages({
                 "boolean.base": "isPaid must be true/false",
             }),
+        ticketTiers: buildTicketTiersSchema(),
+        eligibility: buildEligibilitySchema(),
+        certificateEligible: Joi.boolean()
+            .strict()
+            .messages({
+                "boolean.base": "certificateEligible must be true/false",
+            }),
         minAge: Joi.number()
             .integer()
             .positive()
@@ -100,6 +219,29 @@ function validateUpdateEventReq(req: Request, res: Response, next: NextFunction)
                 "number.integer": "maxAge must be an integer",
                 "number.greater": "maxAge must be greater than minAge",
             }),
+        minTeamSize: Joi.number()
+            .integer()
+            .positive()
+            .allow(null)
+            .strict()
+            .messages({
+                "number.base": "minTeamSize should be a number",
+                "number.positive": "minTeamSize must be a positive number",
+                "number.integer": "minTeamSize must be an integer",
+            }),
+        maxTeamSize: Joi.number()
+            .integer()
+            .positive()
+            .allow(null)
+            .when("minTeamSize", { is: Joi.number().required(), then: Joi.number().min(Joi.ref("minTeamSize")).invalid(null) })
+            .strict()
+            .messages({
+                "number.base": "maxTeamSize should be a number",
+                "number.positive": "maxTeamSize must be a positive number",
+                "number.integer": "maxTeamSize must be an integer",
+                "number.min": "maxTeamSize can't be less than minTeamSize",
+                "any.invalid": "maxTeamSize is required when minTeamSize is set",
+            }),
     });
 
     const { error } = schema.validate(req.body);
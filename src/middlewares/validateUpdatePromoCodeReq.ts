@@ -0,0 +1,83 @@
+import Joi from "joi";
+import { Request, Response, NextFunction } from "express";
+import { formatValidationErrors } from "../utils/joiValidation";
+import ValidationError from "../errors/ValidationError";
+
+function validateUpdatePromoCodeReq(req: Request, res: Response, next: NextFunction) {
+    const schema = Joi.object({
+        description: Joi.string()
+            .max(300)
+            .allow(null)
+            .messages({
+                "string.base": "description should be a type of 'text'",
+                "string.max": "description should have a maximum length of {#limit}",
+            }),
+        eventId: Joi.string()
+            .hex()
+            .length(24)
+            .allow(null)
+            .messages({
+                "string.hex": "Invalid event id format",
+                "string.length": "Invalid event id format",
+            }),
+        tierKeys: Joi.array()
+            .items(Joi.string())
+            .unique()
+            .messages({
+                "array.base": "tierKeys should be a list of ticket tier keys",
+                "array.unique": "tierKeys must be unique",
+            }),
+        discountType: Joi.string()
+            .valid("percent", "fixed")
+            .messages({
+                "any.only": "discountType must be one of percent, fixed",
+            }),
+        discountValue: Joi.number()
+            .positive()
+            .precision(2)
+            .when("discountType", { is: "percent", then: Joi.number().max(100) })
+            .messages({
+                "number.base": "discountValue should be a number",
+                "number.positive": "discountValue must be a positive number",
+                "number.max": "a percent discountValue can't be more than {#limit}",
+                "number.precision": "discountValue must have no more than 2 decimal places",
+            }),
+        maxUses: Joi.number()
+            .integer()
+            .positive()
+            .allow(null)
+            .messages({
+                "number.base": "maxUses should be a number",
+                "number.integer": "maxUses must be an integer",
+                "number.positive": "maxUses must be a positive number",
+            }),
+        expiresAt: Joi.date()
+            .iso()
+            .allow(null)
+            .messages({
+                "date.base": "expiresAt should be a valid date",
+                "date.format": "expiresAt should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00",
+            }),
+        isActive: Joi.boolean()
+            .messages({
+                "boolean.base": "isActive must be true/false",
+            }),
+    })
+        .and("discountType", "discountValue")
+        .min(1)
+        .messages({
+            "object.and": "discountType and discountValue must be updated together",
+            "object.min": "Provide at least one field to update",
+        });
+
+    const { error } = schema.validate(req.body);
+
+    if (error) {
+        next(new ValidationError("Validation Error", formatValidationErrors(error)));
+        return;
+    }
+
+    next();
+}
+
+export default validateUpdatePromoCodeReq;
@@ -0,0 +1,104 @@
+import { Schema, model, Document } from "mongoose";
+
+export interface ICertificate extends Document {
+    code: string;
+    attendeeId: Schema.Types.ObjectId;
+    eventId: Schema.Types.ObjectId;
+    userId: Schema.Types.ObjectId;
+    recipientName: string;
+    eventName: string;
+    eventDate: Date;
+    eventTimezone: string;
+    issuedAt: Date;
+}
+
+// what the certificate says is kept as issued, later edits of the user or event don't change it
+const certificateSchema = new Schema<ICertificate>(
+    {
+        code: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        attendeeId: {
+            type: Schema.Types.ObjectId,
+            ref: "EventAttendee",
+            required: true,
+            unique: true,
+        },
+        eventId: {
+            type: Schema.Types.ObjectId,
+            ref: "Event",
+            required: true,
+        },
+        userId: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        recipientName: {
+            type: String,
+            required: true,
+        },
+        eventName: {
+            type: String,
+            required: true,
+        },
+        eventDate: {
+            type: Date,
+            required: true,
+        },
+        eventTimezone: {
+            type: String,
+            required: true,
+        },
+        issuedAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    {
+        toJSON: {
+            transform: (doc, ret) => {
+                delete ret.attendeeId;
+                delete ret.userId;
+                delete ret._id;
+                delete ret.__v;
+            },
+        },
+    },
+);
+
+const Certificate = model<ICertificate>("Certificate", certificateSchema);
+
+export default Certificate;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Certificate:
+ *       type: object
+ *       properties:
+ *         code:
+ *           type: string
+ *           description: The verification code printed on the certificate
+ *           example: 7F3A-9C21-E04B
+ *         eventId:
+ *           type: string
+ *         recipientName:
+ *           type: string
+ *           example: Mona Ahmed
+ *         eventName:
+ *           type: string
+ *           example: Intro to Docker Workshop
+ *         eventDate:
+ *           type: string
+ *           format: date-time
+ *         eventTimezone:
+ *           type: string
+ *           example: Africa/Cairo
+ *         issuedAt:
+ *           type: string
+ *           format: date-time
+ */
@@ -1,21 +1,287 @@
 import { Schema, model, Document } from "mongoose";
+import RegistrationQuestion from "../types/RegistrationQuestion";
+import { QUESTION_TYPES } from "../utils/registrationForm";
+import { DEFAULT_TIMEZONE, formatInTimeZone, isValidTimeZone } from "../utils/timezone";
+import { UserRole } from "./User";
+
+export enum EventStatus {
+    Draft = "draft",
+    Scheduled = "scheduled",
+    Published = "published",
+    Cancelled = "cancelled",
+    Archived = "archived",
+}
+
+export const EVENT_STATUS_TRANSITIONS: { [status in EventStatus]: EventStatus[] } = {
+    [EventStatus.Draft]: [EventStatus.Scheduled, EventStatus.Published, EventStatus.Cancelled],
+    [EventStatus.Scheduled]: [EventStatus.Draft, EventStatus.Published, EventStatus.Cancelled],
+    [EventStatus.Published]: [EventStatus.Cancelled, EventStatus.Archived],
+    [EventStatus.Cancelled]: [EventStatus.Archived],
+    [EventStatus.Archived]: [],
+};
+
+export enum EventVisibility {
+    Public = "public",
+    Private = "private",
+}
+
+export enum AttendanceMode {
+    InPerson = "in_person",
+    Online = "online",
+    Hybrid = "hybrid",
+}
+
+export const DEFAULT_MEETING_REVEAL_MINUTES = 30;
+
+export interface MeetingDetails {
+    provider: string | null;
+    joinUrl: string;
+    passcode: string | null;
+}
+
+export enum ScheduleChangeKind {
+    Cancellation = "cancellation",
+    Reschedule = "reschedule",
+}
+
+export interface ScheduleChange {
+    kind: ScheduleChangeKind;
+    reason: string;
+    previousStartDate: Date;
+    previousDuration: number;
+    startDate: Date | null;
+    duration: number | null;
+    changedBy: unknown;
+    changedAt: Date;
+}
+
+export interface TicketTier {
+    key: string;
+    name: string;
+    price: number;
+    capacity: number | null;
+    salesStartAt: Date | null;
+    salesEndAt: Date | null;
+    earlyBirdPrice: number | null;
+    earlyBirdEndsAt: Date | null;
+}
+
+export interface EligibilityRules {
+    allowedRoles: UserRole[];
+    emailDomains: string[];
+    allowedUsers: unknown[];
+    deniedUsers: unknown[];
+    requireVerifiedEmail: boolean;
+}
+
+export enum RegistrationStatus {
+    NotYetOpen = "not_yet_open",
+    Open = "open",
+    Full = "full",
+    Closed = "closed",
+}
 
 interface IEvent extends Document {
     name: string;
     description: string;
     price: number;
     startDate: Date;
+    timezone: string;
     duration: number; // Hours is unit of measurement
     capacity: number;
+    attendeesCount: number;
     registrationClosed: boolean;
+    registrationOpensAt: Date | null;
+    registrationClosesAt: Date | null;
+    autoCloseHoursBeforeStart: number | null;
+    registrationForm: RegistrationQuestion[];
+    feedbackForm: RegistrationQuestion[];
     isActive: boolean;
+    status: EventStatus;
+    publishAt: Date | null;
+    visibility: EventVisibility;
     endDate: Date;
     category: unknown;
+    venue: unknown;
+    room: string | null;
+    attendanceMode: AttendanceMode;
+    meeting: MeetingDetails | null;
+    meetingRevealMinutesBeforeStart: number;
     isPaid: boolean
+    ticketTiers: TicketTier[];
+    ticketSales: Map<string, number>;
+    certificateEligible: boolean;
+    eligibility: EligibilityRules;
     minAge: number
     maxAge: number
+    minTeamSize: number | null;
+    maxTeamSize: number | null;
+    sequence: number;
+    scheduleChanges: ScheduleChange[];
+    series: unknown;
+    isSeriesException: boolean;
+    createdAt: Date;
+    updatedAt: Date;
 }
 
+const registrationQuestionSchema = new Schema<RegistrationQuestion>(
+    {
+        key: {
+            type: String,
+            required: true,
+        },
+        label: {
+            type: String,
+            required: true,
+        },
+        type: {
+            type: String,
+            enum: QUESTION_TYPES,
+            required: true,
+        },
+        required: {
+            type: Boolean,
+            default: false,
+        },
+        options: {
+            type: [String],
+            default: [],
+        },
+        min: {
+            type: Number,
+        },
+        max: {
+            type: Number,
+        },
+    },
+    {
+        _id: false,
+    },
+);
+
+const meetingSchema = new Schema<MeetingDetails>(
+    {
+        provider: {
+            type: String,
+            default: null,
+        },
+        joinUrl: {
+            type: String,
+            required: true,
+        },
+        passcode: {
+            type: String,
+            default: null,
+        },
+    },
+    { _id: false },
+);
+
+const scheduleChangeSchema = new Schema<ScheduleChange>(
+    {
+        kind: {
+            type: String,
+            enum: Object.values(ScheduleChangeKind),
+            required: true,
+        },
+        reason: {
+            type: String,
+            required: true,
+        },
+        previousStartDate: {
+            type: Date,
+            required: true,
+        },
+        previousDuration: {
+            type: Number,
+            required: true,
+        },
+        startDate: {
+            type: Date,
+            default: null,
+        },
+        duration: {
+            type: Number,
+            default: null,
+        },
+        changedBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        changedAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    { _id: false },
+);
+
+const ticketTierSchema = new Schema<TicketTier>(
+    {
+        key: {
+            type: String,
+            required: true,
+        },
+        name: {
+            type: String,
+            required: true,
+        },
+        price: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+        capacity: {
+            type: Number,
+            default: null,
+        },
+        salesStartAt: {
+            type: Date,
+            default: null,
+        },
+        salesEndAt: {
+            type: Date,
+            default: null,
+        },
+        earlyBirdPrice: {
+            type: Number,
+            default: null,
+        },
+        earlyBirdEndsAt: {
+            type: Date,
+            default: null,
+        },
+    },
+    { _id: false },
+);
+
+const eligibilitySchema = new Schema<EligibilityRules>(
+    {
+        allowedRoles: {
+            type: [{ type: String, enum: Object.values(UserRole) }],
+            default: [],
+        },
+        emailDomains: {
+            type: [{ type: String, lowercase: true, trim: true }],
+            default: [],
+        },
+        allowedUsers: {
+            type: [{ type: Schema.Types.ObjectId, ref: "User" }],
+            default: [],
+        },
+        deniedUsers: {
+            type: [{ type: Schema.Types.ObjectId, ref: "User" }],
+            default: [],
+        },
+        requireVerifiedEmail: {
+            type: Boolean,
+            default: false,
+        },
+    },
+    { _id: false },
+);
+
 const eventSchema = new Schema<IEvent>(
     {
         name: {
@@ -30,10 +296,23 @@ const eventSchema = new Schema<IEvent>(
             type: Date,
             required: true,
         },
+        timezone: {
+            type: String,
+            default: DEFAULT_TIMEZONE,
+            validate: {
+                validator: isValidTimeZone,
+                message: "{VALUE} is not a valid IANA timezone",
+            },
+        },
         capacity: {
             type: Number,
             required: true,
         },
+        attendeesCount: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
         price: {
             type: Number,
             default: 0,
@@ -46,14 +325,74 @@ const eventSchema = new Schema<IEvent>(
             type: Boolean,
             default: false,
         },
+        registrationOpensAt: {
+            type: Date,
+            default: null,
+        },
+        registrationClosesAt: {
+            type: Date,
+            default: null,
+        },
+        autoCloseHoursBeforeStart: {
+            type: Number,
+            default: null,
+            min: 0,
+        },
+        registrationForm: {
+            type: [registrationQuestionSchema],
+            default: [],
+        },
+        feedbackForm: {
+            type: [registrationQuestionSchema],
+            default: [],
+        },
         isActive: {
             type: Boolean,
             default: true,
         },
+        status: {
+            type: String,
+            enum: {
+                values: Object.values(EventStatus),
+                message: "{VALUE} is not a valid event status.",
+            },
+            default: EventStatus.Published,
+        },
+        publishAt: {
+            type: Date,
+            default: null,
+        },
+        visibility: {
+            type: String,
+            enum: {
+                values: Object.values(EventVisibility),
+                message: "{VALUE} is not a valid event visibility.",
+            },
+            default: EventVisibility.Public,
+        },
         isPaid: {
             type: Boolean,
             default: false,
         },
+        ticketTiers: {
+            type: [ticketTierSchema],
+            default: [],
+        },
+        // tickets taken per tier key, waitlisted registrations included. Kept apart from the tier definitions so
+        // editing the tiers can't overwrite counts the registration flow updates concurrently
+        ticketSales: {
+            type: Map,
+            of: Number,
+            default: {},
+        },
+        certificateEligible: {
+            type: Boolean,
+            default: false,
+        },
+        eligibility: {
+            type: eligibilitySchema,
+            default: () => ({}),
+        },
         minAge: {
             type: Number,
             default: 18,
@@ -62,13 +401,67 @@ const eventSchema = new Schema<IEvent>(
             type: Number,
             default: 60,
         },
+        // team events, like hackathons, are the ones with a maxTeamSize
+        minTeamSize: {
+            type: Number,
+            default: null,
+            min: 1,
+        },
+        maxTeamSize: {
+            type: Number,
+            default: null,
+            min: 1,
+        },
         category: {
             type: Schema.Types.ObjectId,
             ref: "Category",
         },
+        venue: {
+            type: Schema.Types.ObjectId,
+            ref: "Venue",
+            default: null,
+        },
+        room: {
+            type: String,
+            default: null,
+        },
+        attendanceMode: {
+            type: String,
+            enum: {
+                values: Object.values(AttendanceMode),
+                message: "{VALUE} is not a valid attendance mode.",
+            },
+            default: AttendanceMode.InPerson,
+        },
+        meeting: {
+            type: meetingSchema,
+            default: null,
+        },
+        meetingRevealMinutesBeforeStart: {
+            type: Number,
+            default: DEFAULT_MEETING_REVEAL_MINUTES,
+            min: 0,
+        },
         endDate: {
             type: Date,
         },
+        sequence: {
+            type: Number,
+            default: 0,
+        },
+        scheduleChanges: {
+            type: [scheduleChangeSchema],
+            default: [],
+        },
+        series: {
+            type: Schema.Types.ObjectId,
+            ref: "EventSeries",
+            default: null,
+        },
+        isSeriesException: {
+            type: Boolean,
+            default: false,
+        },
     },
     {
         timestamps: true,
@@ -76,6 +469,13 @@ const eventSchema = new Schema<IEvent>(
             virtuals: true,
             transform: (doc, ret) => {
                 ret.id = ret._id;
+                // join details are only handed out through getMeetingDetailsForUser
+                delete ret.meeting;
+                // who is allowed or denied is only shown to admins
+                if (ret.eligibility) {
+                    delete ret.eligibility.allowedUsers;
+                    delete ret.eligibility.deniedUsers;
+                }
                 delete ret._id;
             },
         },
@@ -89,12 +489,134 @@ const eventSchema = new Schema<IEvent>(
     },
 );
 
+export type MeetingWindow = Pick<IEvent, "attendanceMode" | "meeting" | "meetingRevealMinutesBeforeStart" | "startDate" | "endDate">;
+
+/**
+ * Join details of online and hybrid events are revealed from `meetingRevealMinutesBeforeStart` before the start
+ * until the event ends.
+ */
+export const isMeetingWindowOpen = (event: MeetingWindow, now: Date = new Date()) => {
+    if (event.attendanceMode === AttendanceMode.InPerson || !event.meeting) {
+        return false;
+    }
+
+    const revealAt = event.startDate.getTime() - event.meetingRevealMinutesBeforeStart * 60 * 1000;
+    return now.getTime() >= revealAt && (!event.endDate || now < event.endDate);
+};
+
+type RegistrationWindow = Pick<IEvent, "status" | "publishAt" | "isActive" | "registrationClosed" | "registrationOpensAt"
+    | "registrationClosesAt" | "autoCloseHoursBeforeStart" | "startDate" | "endDate" | "timezone" | "attendeesCount" | "capacity">;
+
+/**
+ * Works out whether the event accepts registrations at `now`, with a human readable reason when it doesn't.
+ * A full event still accepts registrations, they join the waitlist.
+ */
+export const evaluateRegistration = (event: RegistrationWindow, now: Date = new Date()): { status: RegistrationStatus, reason?: string } => {
+    if (event.status === EventStatus.Draft || (event.status === EventStatus.Scheduled && (!event.publishAt || event.publishAt > now))) {
+        return { status: RegistrationStatus.NotYetOpen, reason: "Event is not published yet" };
+    }
+
+    if (event.status === EventStatus.Cancelled || event.status === EventStatus.Archived) {
+        return { status: RegistrationStatus.Closed, reason: `Event is ${event.status} and doesn't accept registrations` };
+    }
+
+    if (!event.isActive || event.registrationClosed) {
+        return { status: RegistrationStatus.Closed, reason: "Registration for this event is closed" };
+    }
+
+    if (event.endDate && event.endDate <= now) {
+        return { status: RegistrationStatus.Closed, reason: "Event has already ended" };
+    }
+
+    if (event.registrationOpensAt && event.registrationOpensAt > now) {
+        return { status: RegistrationStatus.NotYetOpen, reason: `Registration opens at ${formatInTimeZone(event.registrationOpensAt, event.timezone)}` };
+    }
+
+    if (event.registrationClosesAt && event.registrationClosesAt <= now) {
+        return { status: RegistrationStatus.Closed, reason: `Registration closed at ${formatInTimeZone(event.registrationClosesAt, event.timezone)}` };
+    }
+
+    if (event.autoCloseHoursBeforeStart !== null && event.autoCloseHoursBeforeStart !== undefined
+        && event.startDate.getTime() - event.autoCloseHoursBeforeStart * 60 * 60 * 1000 <= now.getTime()) {
+        return { status: RegistrationStatus.Closed, reason: `Registration closes ${event.autoCloseHoursBeforeStart} hours before the event starts` };
+    }
+
+    if (event.attendeesCount >= event.capacity) {
+        return { status: RegistrationStatus.Full, reason: "Event is full, new registrations join the waitlist" };
+    }
+
+    return { status: RegistrationStatus.Open };
+};
+
+export type EligibleUser = { id: string, role: UserRole, email: string, emailVerified: boolean };
+
+// the email domain and its parent domains, students.iti.gov.eg is also matched by a rule for iti.gov.eg
+export const getEmailDomains = (email: string) => {
+    const labels = email.slice(email.lastIndexOf("@") + 1).toLowerCase().split(".");
+    return labels.map((label, index) => labels.slice(index).join(".")).slice(0, -1);
+};
+
+/**
+ * Works out whether the user may register in an event with these rules, with a human readable reason when they can't.
+ * Denied users are always rejected and allowed users skip the role and email domain rules, a verified email is required
+ * from everyone when the event asks for it. Events without rules are open to everyone.
+ */
+export const evaluateEligibility = (rules: EligibilityRules | undefined, user: EligibleUser): { eligible: boolean, reason?: string } => {
+    if (!rules) {
+        return { eligible: true };
+    }
+
+    const isListed = (users: unknown[]) => users.some((userId) => String(userId) === String(user.id));
+
+    if (isListed(rules.deniedUsers)) {
+        return { eligible: false, reason: "You are not allowed to register in this event" };
+    }
+
+    if (rules.requireVerifiedEmail && !user.emailVerified) {
+        return { eligible: false, reason: "You must verify your email before registering in this event" };
+    }
+
+    if (isListed(rules.allowedUsers)) {
+        return { eligible: true };
+    }
+
+    if (rules.allowedRoles.length && !rules.allowedRoles.includes(user.role)) {
+        return { eligible: false, reason: `This event is only open to ${rules.allowedRoles.join(", ")} accounts` };
+    }
+
+    if (rules.emailDomains.length && !getEmailDomains(user.email).some((domain) => rules.emailDomains.includes(domain))) {
+        return { eligible: false, reason: `This event is only open to emails from ${rules.emailDomains.join(", ")}` };
+    }
+
+    return { eligible: true };
+};
+
+eventSchema.index({ name: "text", description: "text" });
+eventSchema.index({ status: 1, publishAt: 1 });
+eventSchema.index({ venue: 1, room: 1, startDate: 1 });
+
 eventSchema.pre("save", function (next) {
-    this.endDate = new Date(this.startDate);
-    this.endDate.setHours(this.endDate.getHours() + this.duration);
+    // calendar clients only apply changes to an already imported VEVENT when its SEQUENCE grows
+    if (!this.isNew && this.isModified(["name", "description", "startDate", "duration", "isActive", "status"])) {
+        this.sequence += 1;
+    }
+
+    this.endDate = new Date(this.startDate.getTime() + this.duration * 60 * 60 * 1000);
     next();
 });
 
+eventSchema.virtual("startDateLocal").get(function () {
+    return this.startDate && formatInTimeZone(this.startDate, this.timezone);
+});
+
+eventSchema.virtual("endDateLocal").get(function () {
+    return this.endDate && formatInTimeZone(this.endDate, this.timezone);
+});
+
+eventSchema.virtual("registrationStatus").get(function () {
+    return evaluateRegistration(this).status;
+});
+
 const Event = model<IEvent>("Event", eventSchema);
 
 export default Event;
@@ -123,10 +645,21 @@ export default Event;
  *         startDate:
  *           type: string
  *           format: date-time
- *           description: The start date and time of the event
+ *           description: The start date and time of the event in UTC
+ *         startDateLocal:
+ *           type: string
+ *           description: The start date and time of the event in the event timezone with its UTC offset
+ *           example: 2024-07-01T10:00:00+03:00
+ *         timezone:
+ *           type: string
+ *           description: IANA timezone the event takes place in (default is Africa/Cairo)
+ *           example: Africa/Cairo
  *         capacity:
  *           type: number
  *           description: The maximum number of attendees for the event
+ *         attendeesCount:
+ *           type: number
+ *           description: The number of seats taken by registered (non waitlisted) attendees
  *         price:
  *           type: number
  *           description: The price of the event (default is 0)
@@ -136,25 +669,204 @@ export default Event;
  *         registrationClosed:
  *           type: boolean
  *           description: Indicates if registration for the event is closed (default is false)
+ *         registrationOpensAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *           description: When registration opens, open right away when null
+ *         registrationClosesAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *           description: When registration closes, open until the event ends when null
+ *         autoCloseHoursBeforeStart:
+ *           type: ['number', 'null']
+ *           description: Close registration automatically this many hours before startDate
+ *         registrationForm:
+ *           type: array
+ *           description: Extra questions attendees answer when registering
+ *           items:
+ *             $ref: '#/components/schemas/RegistrationQuestion'
+ *         feedbackForm:
+ *           type: array
+ *           description: Extra questions attendees answer in the post-event feedback survey
+ *           items:
+ *             $ref: '#/components/schemas/RegistrationQuestion'
+ *         registrationStatus:
+ *           type: string
+ *           enum: [not_yet_open, open, full, closed]
+ *           description: Computed registration status, registrations to a full event join the waitlist
  *         isActive:
  *           type: boolean
  *           description: Indicates if the event is active (default is true)
+ *         status:
+ *           type: string
+ *           enum: [draft, scheduled, published, cancelled, archived]
+ *           description: Lifecycle status of the event, only published events are listed publicly (default is published)
+ *         publishAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *           description: When a scheduled event gets published
+ *         visibility:
+ *           type: string
+ *           enum: [public, private]
+ *           description: Private events are left out of the event listings, users register through an invitation or an invite link
  *         isPaid:
  *           type: boolean
  *           description: Indicates if the event is a paid event (default is false)
+ *         ticketTiers:
+ *           type: array
+ *           description: Ticket tiers of a paid event, registrations pick one and pay its price instead of the event price
+ *           items:
+ *             $ref: '#/components/schemas/TicketTier'
+ *         ticketSales:
+ *           type: object
+ *           additionalProperties:
+ *             type: number
+ *           description: Tickets taken so far per tier key, read only
+ *           example: { regular: 40, student: 12 }
+ *         certificateEligible:
+ *           type: boolean
+ *           description: Indicates if checked-in attendees can download a certificate of attendance (default is false)
+ *         eligibility:
+ *           $ref: '#/components/schemas/EligibilityRules'
  *         minAge:
  *           type: number
  *           description: The minimum age requirement for attendees (default is 18)
  *         maxAge:
  *           type: number
  *           description: The maximum age limit for attendees (default is 60)
+ *         minTeamSize:
+ *           type: ['number', 'null']
+ *           description: Members a team needs to be complete
+ *         maxTeamSize:
+ *           type: ['number', 'null']
+ *           description: Members a team can have at most, set for team events like hackathons (default is null)
  *         category:
  *           type: string
  *           description: The category id to which the event belongs
+ *         venue:
+ *           type: ['string', 'null']
+ *           description: The id of the venue hosting the event
+ *         room:
+ *           type: ['string', 'null']
+ *           description: The room of the venue booked by the event, no other event can book it at overlapping times
+ *         attendanceMode:
+ *           type: string
+ *           enum: [in_person, online, hybrid]
+ *           description: How attendees join the event (default is in_person)
+ *         meetingRevealMinutesBeforeStart:
+ *           type: number
+ *           description: How many minutes before the start approved attendees get the meeting details (default is 30)
+ *         meeting:
+ *           $ref: '#/components/schemas/MeetingDetails'
  *         endDate:
  *           type: string
  *           format: date-time
- *           description: The calculated end date and time of the event
+ *           description: The calculated end date and time of the event in UTC
+ *         endDateLocal:
+ *           type: string
+ *           description: The calculated end date and time of the event in the event timezone with its UTC offset
+ *         sequence:
+ *           type: number
+ *           description: Revision number of the event schedule, used by iCalendar feeds
+ *         scheduleChanges:
+ *           type: array
+ *           description: History of the cancellation and reschedules of the event, oldest first
+ *           items:
+ *             $ref: '#/components/schemas/ScheduleChange'
+ *         series:
+ *           type: ['string', 'null']
+ *           description: The id of the recurring series this event is an occurrence of
+ *         isSeriesException:
+ *           type: boolean
+ *           description: Indicates if the occurrence was edited on its own and no longer follows series wide edits
+ *
+ *     ScheduleChange:
+ *       type: object
+ *       properties:
+ *         kind:
+ *           type: string
+ *           enum: [cancellation, reschedule]
+ *         reason:
+ *           type: string
+ *           description: Why the event was cancelled or rescheduled, shared with attendees
+ *         previousStartDate:
+ *           type: string
+ *           format: date-time
+ *         previousDuration:
+ *           type: number
+ *         startDate:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *           description: The new start date of a rescheduled event
+ *         duration:
+ *           type: ['number', 'null']
+ *           description: The new duration of a rescheduled event in hours
+ *         changedBy:
+ *           type: string
+ *           description: The id of the admin who made the change
+ *         changedAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     NotificationSummary:
+ *       type: object
+ *       properties:
+ *         sent:
+ *           type: number
+ *           description: Number of attendees emailed successfully
+ *         failed:
+ *           type: number
+ *           description: Number of emails that couldn't be sent
+ *
+ *     MeetingDetails:
+ *       type: ['object', 'null']
+ *       description: >
+ *         Join details of online and hybrid events. Only returned by GET /events/{id} to admins, and to approved
+ *         attendees from meetingRevealMinutesBeforeStart before the start until the event ends.
+ *       properties:
+ *         provider:
+ *           type: ['string', 'null']
+ *           example: Zoom
+ *         joinUrl:
+ *           type: string
+ *           example: https://zoom.us/j/123456789
+ *         passcode:
+ *           type: ['string', 'null']
+ *           example: "482913"
+ *
+ *     RegistrationQuestion:
+ *       type: object
+ *       required:
+ *         - key
+ *         - label
+ *         - type
+ *       properties:
+ *         key:
+ *           type: string
+ *           description: Key of the answer in the submitted answers object
+ *           example: tshirtSize
+ *         label:
+ *           type: string
+ *           description: The question shown to the user
+ *           example: T-shirt size
+ *         type:
+ *           type: string
+ *           enum: [text, single_choice, multi_choice, number]
+ *         required:
+ *           type: boolean
+ *           description: Whether an answer is required (default is false)
+ *         options:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Allowed answers of choice questions
+ *           example: [S, M, L, XL]
+ *         min:
+ *           type: number
+ *           description: Minimum value of number questions or minimum length of text questions
+ *         max:
+ *           type: number
+ *           description: Maximum value of number questions or maximum length of text questions
  *
  *     EventPopulated:
  *       allOf:
@@ -163,4 +875,81 @@ export default Event;
  *           properties:
  *             category:
  *               $ref: '#/components/schemas/EventCategory'
+ *             venue:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/Venue'
+ *                 - type: 'null'
+ */
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TicketTier:
+ *       type: object
+ *       required:
+ *         - key
+ *         - name
+ *         - price
+ *       properties:
+ *         key:
+ *           type: string
+ *           description: Identifies the tier within the event, sent when registering
+ *           example: student
+ *         name:
+ *           type: string
+ *           example: Student
+ *         price:
+ *           type: number
+ *           example: 150
+ *         capacity:
+ *           type: ['number', 'null']
+ *           description: How many tickets of this tier can be sold, null for no limit besides the event capacity
+ *         salesStartAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *         salesEndAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *         earlyBirdPrice:
+ *           type: ['number', 'null']
+ *           description: Price charged until earlyBirdEndsAt
+ *         earlyBirdEndsAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     EligibilityRules:
+ *       type: object
+ *       description: |
+ *         Who may register in the event, an empty rule doesn't restrict anything.
+ *         Denied users are always rejected, allowed users skip the role and email domain rules.
+ *       properties:
+ *         allowedRoles:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [guest, student, employee, admin]
+ *         emailDomains:
+ *           type: array
+ *           description: Email domains allowed to register, subdomains included
+ *           items:
+ *             type: string
+ *           example: ["iti.gov.eg"]
+ *         allowedUsers:
+ *           type: array
+ *           description: Ids of users allowed regardless of their role and email domain, only returned to admins
+ *           items:
+ *             type: string
+ *         deniedUsers:
+ *           type: array
+ *           description: Ids of users that can't register, only returned to admins
+ *           items:
+ *             type: string
+ *         requireVerifiedEmail:
+ *           type: boolean
+ *           default: false
  */
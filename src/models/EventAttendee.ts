@@ -2,6 +2,22 @@ import { Schema, model } from "mongoose";
 import Receipt from "../types/Receipt";
 import IEventAttendee from "../types/EventAttendee";
 
+export enum RescheduleResponse {
+    Pending = "pending",
+    Confirmed = "confirmed",
+}
+
+export enum ReviewStatus {
+    Pending = "pending",
+    Approved = "approved",
+    Rejected = "rejected",
+}
+
+export enum PaymentMethod {
+    ReceiptUpload = "receipt",
+    Online = "online",
+}
+
 const ReceiptSchema = new Schema<Receipt>({
     imageUrl: {
         type: String,
@@ -31,10 +47,79 @@ const EventAttendeeSchema = new Schema<IEventAttendee>(
             type: Boolean,
             default: true,
         },
+        reviewStatus: {
+            type: String,
+            enum: Object.values(ReviewStatus),
+            default: ReviewStatus.Approved,
+        },
+        reviewedBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            default: null,
+        },
+        reviewedAt: {
+            type: Date,
+            default: null,
+        },
+        rejectionReason: {
+            type: String,
+            default: null,
+        },
+        isWaitlisted: {
+            type: Boolean,
+            default: false,
+        },
+        promotedAt: {
+            type: Date,
+            default: null,
+        },
+        ticketTier: {
+            type: String,
+            default: null,
+        },
+        promoCode: {
+            type: String,
+            default: null,
+        },
+        price: {
+            type: Number,
+            default: null,
+        },
+        paymentMethod: {
+            type: String,
+            enum: Object.values(PaymentMethod),
+            default: null,
+        },
         receipt: {
             type: ReceiptSchema,
             default: {},
         },
+        answers: {
+            type: Schema.Types.Mixed,
+            default: {},
+        },
+        checkedInAt: {
+            type: Date,
+            default: null,
+        },
+        checkedInBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            default: null,
+        },
+        rescheduleResponse: {
+            type: String,
+            enum: Object.values(RescheduleResponse),
+            default: null,
+        },
+        needsRefund: {
+            type: Boolean,
+            default: false,
+        },
+        remindersSent: {
+            type: [Number],
+            default: [],
+        },
     },
     {
         timestamps: true,
@@ -54,6 +139,11 @@ const EventAttendeeSchema = new Schema<IEventAttendee>(
     },
 );
 
+EventAttendeeSchema.index({ userId: 1, eventId: 1 }, { unique: true });
+EventAttendeeSchema.index({ eventId: 1, isWaitlisted: 1, createdAt: 1 });
+EventAttendeeSchema.index({ eventId: 1, isApproved: 1, remindersSent: 1 });
+EventAttendeeSchema.index({ reviewStatus: 1, createdAt: 1 });
+
 EventAttendeeSchema.virtual("user", {
     ref: "User",
     localField: "userId",
@@ -93,8 +183,68 @@ export default EventAttendee;
  *         id:
  *           type: string
  *           description: Auto-generated id for the form
+ *         isApproved:
+ *           type: boolean
+ *           description: Whether the attendee is approved to attend the event
+ *         reviewStatus:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *           description: Where the attendee is in the receipt review, free events are approved on registration
+ *         reviewedBy:
+ *           type: ['string', 'null']
+ *           description: Id of the admin who last reviewed the attendee
+ *         reviewedAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *           description: When the attendee was last reviewed
+ *         rejectionReason:
+ *           type: ['string', 'null']
+ *           description: Why the registration was rejected, emailed to the user
+ *         isWaitlisted:
+ *           type: boolean
+ *           description: Whether the attendee is on the event waitlist because the event was full
+ *         promotedAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *           description: When the attendee was promoted from the waitlist
+ *         ticketTier:
+ *           type: ['string', 'null']
+ *           description: Key of the ticket tier the attendee registered with
+ *         promoCode:
+ *           type: ['string', 'null']
+ *           description: The promo code applied to the price
+ *         price:
+ *           type: ['number', 'null']
+ *           description: What the attendee has to pay, computed at registration from the tier, early-bird price and promo code
+ *         paymentMethod:
+ *           type: ['string', 'null']
+ *           enum: [receipt, online, null]
+ *           description: How the attendee pays a paid event, an uploaded receipt or the online checkout
  *         receipt:
  *           $ref: '#/components/schemas/Receipt'
+ *         answers:
+ *           type: object
+ *           description: Answers to the event registration form keyed by question key
+ *           example: { tshirtSize: M, githubHandle: octocat }
+ *         checkedInAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *           description: When the attendee ticket was scanned at the event
+ *         checkedInBy:
+ *           type: ['string', 'null']
+ *           description: Id of the staff user who scanned the ticket
+ *         rescheduleResponse:
+ *           type: ['string', 'null']
+ *           enum: [pending, confirmed, null]
+ *           description: Whether the attendee confirmed they still attend after the event was rescheduled
+ *         needsRefund:
+ *           type: boolean
+ *           description: Whether the attendee paid for an event that got cancelled and has to be refunded
+ *         remindersSent:
+ *           type: array
+ *           items:
+ *             type: number
+ *           description: Reminder offsets, in hours before the start, already emailed to the attendee
  *         user:
  *           $ref: '#/components/schemas/User'
  *         event:
@@ -106,6 +256,12 @@ export default EventAttendee;
  *           id:
  *             type: string
  *             description: Auto-generated id for the form
+ *           isApproved:
+ *             type: boolean
+ *             description: Whether the attendee is approved to attend the event
+ *           isWaitlisted:
+ *             type: boolean
+ *             description: Whether the attendee is on the event waitlist because the event was full
  *           receipt:
  *             $ref: '#/components/schemas/Receipt'
  *           userId:
@@ -0,0 +1,115 @@
+import { Schema, model, Document } from "mongoose";
+
+export interface IEventFeedback extends Document {
+    eventId: Schema.Types.ObjectId;
+    userId: Schema.Types.ObjectId;
+    rating: number;
+    comment: string;
+    answers: { [key: string]: unknown };
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const eventFeedbackSchema = new Schema<IEventFeedback>(
+    {
+        eventId: {
+            type: Schema.Types.ObjectId,
+            ref: "Event",
+            required: true,
+        },
+        userId: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        rating: {
+            type: Number,
+            required: true,
+            min: 1,
+            max: 5,
+        },
+        comment: {
+            type: String,
+            default: "",
+            trim: true,
+        },
+        answers: {
+            type: Schema.Types.Mixed,
+            default: {},
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            virtuals: true,
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+            },
+        },
+        toObject: {
+            virtuals: true,
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+            },
+        },
+    },
+);
+
+eventFeedbackSchema.index({ eventId: 1, userId: 1 }, { unique: true });
+
+const EventFeedback = model<IEventFeedback>("EventFeedback", eventFeedbackSchema);
+
+export default EventFeedback;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     EventFeedback:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           description: The auto-generated id of the feedback
+ *         eventId:
+ *           type: string
+ *         userId:
+ *           type: string
+ *         rating:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 5
+ *         comment:
+ *           type: string
+ *         answers:
+ *           type: object
+ *           description: Answers to the event feedback form keyed by question key
+ *           example: { bestSession: Keynote, wouldRecommend: Yes }
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     FeedbackSummary:
+ *       type: object
+ *       properties:
+ *         responses:
+ *           type: number
+ *           description: Number of submitted feedbacks
+ *         attendees:
+ *           type: number
+ *           description: Number of approved attendees who could give feedback
+ *         responseRate:
+ *           type: number
+ *           description: responses / attendees, between 0 and 1
+ *         averageRating:
+ *           type: ['number', 'null']
+ *         distribution:
+ *           type: object
+ *           description: Number of feedbacks per rating
+ *           example: { "1": 0, "2": 1, "3": 4, "4": 10, "5": 7 }
+ */
@@ -0,0 +1,149 @@
+import { Schema, model, Document } from "mongoose";
+
+export enum InvitationStatus {
+    Sent = "sent",
+    Opened = "opened",
+    Accepted = "accepted",
+    Declined = "declined",
+}
+
+export interface IEventInvitation extends Document {
+    eventId: Schema.Types.ObjectId;
+    email: string;
+    userId: Schema.Types.ObjectId | null;
+    token: string;
+    status: InvitationStatus;
+    invitedBy: Schema.Types.ObjectId;
+    sentAt: Date;
+    openedAt: Date | null;
+    respondedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const eventInvitationSchema = new Schema<IEventInvitation>(
+    {
+        eventId: {
+            type: Schema.Types.ObjectId,
+            ref: "Event",
+            required: true,
+        },
+        email: {
+            type: String,
+            required: true,
+            lowercase: true,
+            trim: true,
+        },
+        // set when the invited email already had an account, people without one are matched by email once they register
+        userId: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            default: null,
+        },
+        token: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        status: {
+            type: String,
+            enum: Object.values(InvitationStatus),
+            default: InvitationStatus.Sent,
+        },
+        invitedBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        sentAt: {
+            type: Date,
+            default: Date.now,
+        },
+        openedAt: {
+            type: Date,
+            default: null,
+        },
+        respondedAt: {
+            type: Date,
+            default: null,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                // the token is the invitee's key to the private event, it only travels in the invitation email
+                delete ret.token;
+            },
+        },
+    },
+);
+
+eventInvitationSchema.index({ eventId: 1, email: 1 }, { unique: true });
+eventInvitationSchema.index({ eventId: 1, status: 1 });
+
+const EventInvitation = model<IEventInvitation>("EventInvitation", eventInvitationSchema);
+
+export default EventInvitation;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     EventInvitation:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         eventId:
+ *           type: string
+ *         email:
+ *           type: string
+ *           example: guest@example.com
+ *         userId:
+ *           type: ['string', 'null']
+ *           description: The invited account, null when the email had no account when it was invited
+ *         status:
+ *           type: string
+ *           enum: [sent, opened, accepted, declined]
+ *           description: |
+ *             opened once the invitation link is visited, accepted once the invitee registers in the event
+ *             and declined when they turn it down
+ *         invitedBy:
+ *           type: string
+ *         sentAt:
+ *           type: string
+ *           format: date-time
+ *         openedAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *         respondedAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *
+ *     InvitedEvent:
+ *       type: object
+ *       description: What invitees see of a private event before registering
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *         timezone:
+ *           type: string
+ *         isPaid:
+ *           type: boolean
+ *         price:
+ *           type: number
+ */
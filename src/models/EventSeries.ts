@@ -0,0 +1,103 @@
+import { Schema, model, Document } from "mongoose";
+import RecurrenceRule from "../types/Recurrence";
+
+interface IEventSeries extends Document {
+    name: string;
+    recurrence: RecurrenceRule;
+}
+
+const recurrenceSchema = new Schema<RecurrenceRule>(
+    {
+        frequency: {
+            type: String,
+            enum: ["daily", "weekly", "monthly"],
+            required: true,
+        },
+        interval: {
+            type: Number,
+            default: 1,
+            min: 1,
+        },
+        count: {
+            type: Number,
+        },
+        until: {
+            type: Date,
+        },
+    },
+    {
+        _id: false,
+    },
+);
+
+const eventSeriesSchema = new Schema<IEventSeries>(
+    {
+        name: {
+            type: String,
+            required: true,
+        },
+        recurrence: {
+            type: recurrenceSchema,
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            virtuals: true,
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+            },
+        },
+        toObject: {
+            virtuals: true,
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+            },
+        },
+    },
+);
+
+const EventSeries = model<IEventSeries>("EventSeries", eventSeriesSchema);
+
+export default EventSeries;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Recurrence:
+ *       type: object
+ *       required:
+ *         - frequency
+ *       properties:
+ *         frequency:
+ *           type: string
+ *           enum: [daily, weekly, monthly]
+ *           description: How often the event repeats
+ *         interval:
+ *           type: integer
+ *           description: Repeat every N periods of the frequency (default is 1)
+ *         count:
+ *           type: integer
+ *           description: Number of occurrences, mutually exclusive with until
+ *         until:
+ *           type: string
+ *           format: date-time
+ *           description: Last date an occurrence can start at, mutually exclusive with count
+ *
+ *     EventSeries:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           description: The auto-generated id of the series
+ *         name:
+ *           type: string
+ *           description: The name of the series
+ *         recurrence:
+ *           $ref: '#/components/schemas/Recurrence'
+ */
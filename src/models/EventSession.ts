@@ -0,0 +1,121 @@
+import { Schema, model, Document } from "mongoose";
+
+export interface IEventSession extends Document {
+    eventId: Schema.Types.ObjectId;
+    title: string;
+    description: string;
+    startDate: Date;
+    endDate: Date;
+    room: string | null;
+    track: string | null;
+    speakers: Schema.Types.ObjectId[];
+}
+
+const eventSessionSchema = new Schema<IEventSession>(
+    {
+        eventId: {
+            type: Schema.Types.ObjectId,
+            ref: "Event",
+            required: true,
+        },
+        title: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        description: {
+            type: String,
+            default: "",
+        },
+        startDate: {
+            type: Date,
+            required: true,
+        },
+        endDate: {
+            type: Date,
+            required: true,
+        },
+        room: {
+            type: String,
+            default: null,
+            trim: true,
+        },
+        track: {
+            type: String,
+            default: null,
+            trim: true,
+        },
+        speakers: [{
+            type: Schema.Types.ObjectId,
+            ref: "Speaker",
+        }],
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            virtuals: true,
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+            },
+        },
+        toObject: {
+            virtuals: true,
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+            },
+        },
+    },
+);
+
+eventSessionSchema.index({ eventId: 1, startDate: 1 });
+eventSessionSchema.index({ eventId: 1, room: 1, startDate: 1 });
+
+const EventSession = model<IEventSession>("EventSession", eventSessionSchema);
+
+export default EventSession;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     EventSession:
+ *       type: object
+ *       required:
+ *         - title
+ *         - startDate
+ *         - endDate
+ *       properties:
+ *         id:
+ *           type: string
+ *           description: The auto-generated id of the session
+ *         eventId:
+ *           type: string
+ *           description: The id of the event the session belongs to
+ *         title:
+ *           type: string
+ *           description: The title of the session
+ *         description:
+ *           type: string
+ *           description: A short description of the session
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *           description: When the session starts
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *           description: When the session ends
+ *         room:
+ *           type: ['string', 'null']
+ *           description: The room the session takes place in
+ *         track:
+ *           type: ['string', 'null']
+ *           description: The track the session is part of
+ *         speakers:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Speaker'
+ */
@@ -0,0 +1,105 @@
+import { Schema, model, Document } from "mongoose";
+
+export interface IInviteLink extends Document {
+    eventId: Schema.Types.ObjectId;
+    token: string;
+    maxUses: number | null;
+    usesCount: number;
+    expiresAt: Date | null;
+    isActive: boolean;
+    createdBy: Schema.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const inviteLinkSchema = new Schema<IInviteLink>(
+    {
+        eventId: {
+            type: Schema.Types.ObjectId,
+            ref: "Event",
+            required: true,
+            index: true,
+        },
+        token: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        maxUses: {
+            type: Number,
+            default: null,
+        },
+        usesCount: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+        expiresAt: {
+            type: Date,
+            default: null,
+        },
+        isActive: {
+            type: Boolean,
+            default: true,
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            virtuals: true,
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+            },
+        },
+    },
+);
+
+inviteLinkSchema.virtual("url").get(function () {
+    return `${process.env.BASE_URL_FRONTEND}/invite/${this.token}`;
+});
+
+const InviteLink = model<IInviteLink>("InviteLink", inviteLinkSchema);
+
+export default InviteLink;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     InviteLink:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         eventId:
+ *           type: string
+ *         token:
+ *           type: string
+ *           description: Sent as inviteToken when registering in the private event
+ *         url:
+ *           type: string
+ *           description: The shareable link
+ *         maxUses:
+ *           type: ['integer', 'null']
+ *           description: How many registrations the link allows, null for no limit
+ *         usesCount:
+ *           type: integer
+ *         expiresAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *         isActive:
+ *           type: boolean
+ *           description: false once the link is revoked
+ *         createdBy:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
@@ -0,0 +1,175 @@
+import { Schema, model, Document } from "mongoose";
+import { PaymentMethod } from "./EventAttendee";
+
+export enum LedgerEntryKind {
+    Payment = "payment",
+    Refund = "refund",
+    Adjustment = "adjustment",
+}
+
+export interface ILedgerEntry extends Document {
+    kind: LedgerEntryKind;
+    eventId: Schema.Types.ObjectId;
+    attendeeId: Schema.Types.ObjectId | null;
+    userId: Schema.Types.ObjectId | null;
+    amount: number;
+    currency: string;
+    method: PaymentMethod | null;
+    paymentId: Schema.Types.ObjectId | null;
+    refundRequestId: Schema.Types.ObjectId | null;
+    note: string | null;
+    recordedBy: Schema.Types.ObjectId | null;
+    createdAt: Date;
+}
+
+/**
+ * Append-only record of the money of paid events. Amounts are signed: payments are positive, refunds negative and
+ * adjustments either, so the sum of the rows is what the organization holds. Rows are never edited, mistakes are
+ * fixed with an adjustment. The attendee may be deleted later, the row keeps its ids.
+ */
+const ledgerEntrySchema = new Schema<ILedgerEntry>(
+    {
+        kind: {
+            type: String,
+            enum: Object.values(LedgerEntryKind),
+            required: true,
+        },
+        eventId: {
+            type: Schema.Types.ObjectId,
+            ref: "Event",
+            required: true,
+        },
+        attendeeId: {
+            type: Schema.Types.ObjectId,
+            ref: "EventAttendee",
+            default: null,
+        },
+        userId: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            default: null,
+        },
+        amount: {
+            type: Number,
+            required: true,
+        },
+        currency: {
+            type: String,
+            required: true,
+        },
+        method: {
+            type: String,
+            enum: [...Object.values(PaymentMethod), null],
+            default: null,
+        },
+        paymentId: {
+            type: Schema.Types.ObjectId,
+            ref: "Payment",
+            default: null,
+        },
+        refundRequestId: {
+            type: Schema.Types.ObjectId,
+            ref: "RefundRequest",
+            default: null,
+        },
+        note: {
+            type: String,
+            default: null,
+        },
+        recordedBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            default: null,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        toJSON: {
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+            },
+        },
+    },
+);
+
+// a payment is booked once, this stops a retried webhook or a double receipt approval from counting twice,
+// while a second online payment of the same attendee, a different paymentId, is still booked
+ledgerEntrySchema.index({ attendeeId: 1, paymentId: 1 }, { unique: true, partialFilterExpression: { kind: LedgerEntryKind.Payment } });
+ledgerEntrySchema.index({ refundRequestId: 1 }, { unique: true, partialFilterExpression: { kind: LedgerEntryKind.Refund } });
+ledgerEntrySchema.index({ eventId: 1, kind: 1, createdAt: 1 });
+
+const LedgerEntry = model<ILedgerEntry>("LedgerEntry", ledgerEntrySchema);
+
+export default LedgerEntry;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     LedgerEntry:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         kind:
+ *           type: string
+ *           enum: [payment, refund, adjustment]
+ *         eventId:
+ *           type: string
+ *         attendeeId:
+ *           type: ['string', 'null']
+ *         userId:
+ *           type: ['string', 'null']
+ *         amount:
+ *           type: number
+ *           description: Signed amount, payments are positive and refunds negative
+ *           example: 250
+ *         currency:
+ *           type: string
+ *           example: EGP
+ *         method:
+ *           type: ['string', 'null']
+ *           enum: [receipt, online, null]
+ *           description: How a payment was made
+ *         paymentId:
+ *           type: ['string', 'null']
+ *           description: The online payment behind the row
+ *         refundRequestId:
+ *           type: ['string', 'null']
+ *           description: The approved refund request behind the row
+ *         note:
+ *           type: ['string', 'null']
+ *         recordedBy:
+ *           type: ['string', 'null']
+ *           description: The admin who recorded the row, null when recorded by a webhook
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     RevenueReport:
+ *       type: object
+ *       properties:
+ *         eventId:
+ *           type: string
+ *         eventName:
+ *           type: ['string', 'null']
+ *         currency:
+ *           type: string
+ *         payments:
+ *           type: number
+ *           description: Total paid
+ *         paymentsCount:
+ *           type: number
+ *         refunds:
+ *           type: number
+ *           description: Total refunded, as a positive amount
+ *         refundsCount:
+ *           type: number
+ *         adjustments:
+ *           type: number
+ *         net:
+ *           type: number
+ *           description: payments - refunds + adjustments
+ */
@@ -0,0 +1,101 @@
+import { Schema, model, Document } from "mongoose";
+
+export interface IOrganizerAssignment extends Document {
+    userId: Schema.Types.ObjectId;
+    eventId: Schema.Types.ObjectId | null;
+    categoryId: Schema.Types.ObjectId | null;
+    assignedBy: Schema.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// makes the user an organizer of one event, or of every event in a category, exactly one of them is set
+const organizerAssignmentSchema = new Schema<IOrganizerAssignment>(
+    {
+        userId: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        eventId: {
+            type: Schema.Types.ObjectId,
+            ref: "Event",
+            default: null,
+        },
+        categoryId: {
+            type: Schema.Types.ObjectId,
+            ref: "Category",
+            default: null,
+        },
+        assignedBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            virtuals: true,
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+            },
+        },
+        toObject: {
+            virtuals: true,
+        },
+    },
+);
+
+organizerAssignmentSchema.index({ userId: 1, eventId: 1, categoryId: 1 }, { unique: true });
+organizerAssignmentSchema.index({ eventId: 1 });
+organizerAssignmentSchema.index({ categoryId: 1 });
+
+organizerAssignmentSchema.virtual("user", {
+    ref: "User",
+    localField: "userId",
+    foreignField: "_id",
+    justOne: true,
+});
+
+const OrganizerAssignment = model<IOrganizerAssignment>("OrganizerAssignment", organizerAssignmentSchema);
+
+export default OrganizerAssignment;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     OrganizerAssignment:
+ *       type: object
+ *       description: Makes a user an organizer of one event, or of every event in a category
+ *       properties:
+ *         id:
+ *           type: string
+ *         userId:
+ *           type: string
+ *         eventId:
+ *           type: ['string', 'null']
+ *           description: Set when the user organizes a single event
+ *         categoryId:
+ *           type: ['string', 'null']
+ *           description: Set when the user organizes every event of the category
+ *         assignedBy:
+ *           type: string
+ *         user:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             firstName:
+ *               type: string
+ *             lastName:
+ *               type: string
+ *             email:
+ *               type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
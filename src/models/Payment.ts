@@ -0,0 +1,152 @@
+import { Schema, model, Document } from "mongoose";
+
+export enum PaymentStatus {
+    Pending = "pending",
+    Succeeded = "succeeded",
+    Failed = "failed",
+}
+
+export interface IPayment extends Document {
+    attendeeId: Schema.Types.ObjectId;
+    eventId: Schema.Types.ObjectId;
+    userId: Schema.Types.ObjectId;
+    provider: string;
+    sessionId: string;
+    checkoutUrl: string;
+    amount: number;
+    currency: string;
+    status: PaymentStatus;
+    providerPaymentId: string | null;
+    failureReason: string | null;
+    expiresAt: Date | null;
+    completedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// one document per checkout session, an attendee retrying a failed payment gets a new one
+const paymentSchema = new Schema<IPayment>(
+    {
+        attendeeId: {
+            type: Schema.Types.ObjectId,
+            ref: "EventAttendee",
+            required: true,
+        },
+        eventId: {
+            type: Schema.Types.ObjectId,
+            ref: "Event",
+            required: true,
+        },
+        userId: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        provider: {
+            type: String,
+            required: true,
+        },
+        sessionId: {
+            type: String,
+            required: true,
+        },
+        checkoutUrl: {
+            type: String,
+            required: true,
+        },
+        amount: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+        currency: {
+            type: String,
+            required: true,
+        },
+        status: {
+            type: String,
+            enum: Object.values(PaymentStatus),
+            default: PaymentStatus.Pending,
+        },
+        providerPaymentId: {
+            type: String,
+            default: null,
+        },
+        failureReason: {
+            type: String,
+            default: null,
+        },
+        expiresAt: {
+            type: Date,
+            default: null,
+        },
+        completedAt: {
+            type: Date,
+            default: null,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+            },
+        },
+    },
+);
+
+paymentSchema.index({ provider: 1, sessionId: 1 }, { unique: true });
+paymentSchema.index({ attendeeId: 1, createdAt: -1 });
+
+const Payment = model<IPayment>("Payment", paymentSchema);
+
+export default Payment;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Payment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         attendeeId:
+ *           type: string
+ *         eventId:
+ *           type: string
+ *         userId:
+ *           type: string
+ *         provider:
+ *           type: string
+ *           description: The payment gateway handling the checkout
+ *           example: mock
+ *         sessionId:
+ *           type: string
+ *           description: The checkout session id given by the gateway
+ *         checkoutUrl:
+ *           type: string
+ *           description: Where the user pays
+ *         amount:
+ *           type: number
+ *           example: 250
+ *         currency:
+ *           type: string
+ *           example: EGP
+ *         status:
+ *           type: string
+ *           enum: [pending, succeeded, failed]
+ *         failureReason:
+ *           type: ['string', 'null']
+ *         expiresAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *         completedAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
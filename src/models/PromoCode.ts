@@ -0,0 +1,162 @@
+import { Schema, model, Document } from "mongoose";
+
+export enum DiscountType {
+    Percent = "percent",
+    Fixed = "fixed",
+}
+
+export interface IPromoCode extends Document {
+    code: string;
+    description: string | null;
+    eventId: Schema.Types.ObjectId | null;
+    tierKeys: string[];
+    discountType: DiscountType;
+    discountValue: number;
+    maxUses: number | null;
+    usesCount: number;
+    expiresAt: Date | null;
+    isActive: boolean;
+    createdBy: Schema.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const promoCodeSchema = new Schema<IPromoCode>(
+    {
+        code: {
+            type: String,
+            required: true,
+            unique: true,
+            uppercase: true,
+            trim: true,
+        },
+        description: {
+            type: String,
+            default: null,
+        },
+        eventId: {
+            type: Schema.Types.ObjectId,
+            ref: "Event",
+            default: null,
+        },
+        tierKeys: {
+            type: [String],
+            default: [],
+        },
+        discountType: {
+            type: String,
+            enum: Object.values(DiscountType),
+            required: true,
+        },
+        discountValue: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+        maxUses: {
+            type: Number,
+            default: null,
+        },
+        usesCount: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+        expiresAt: {
+            type: Date,
+            default: null,
+        },
+        isActive: {
+            type: Boolean,
+            default: true,
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+            },
+        },
+    },
+);
+
+const PromoCode = model<IPromoCode>("PromoCode", promoCodeSchema);
+
+export default PromoCode;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PromoCode:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         code:
+ *           type: string
+ *           description: What users type when registering, stored upper case
+ *           example: EARLY20
+ *         description:
+ *           type: ['string', 'null']
+ *         eventId:
+ *           type: ['string', 'null']
+ *           description: The only event the code works for, null for every paid event
+ *         tierKeys:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Ticket tiers the code applies to, empty for all of them
+ *         discountType:
+ *           type: string
+ *           enum: [percent, fixed]
+ *         discountValue:
+ *           type: number
+ *           description: Percentage off for percent codes, amount off for fixed codes
+ *           example: 20
+ *         maxUses:
+ *           type: ['number', 'null']
+ *           description: How many registrations can use the code, null for no limit
+ *         usesCount:
+ *           type: number
+ *           description: Registrations currently using the code
+ *         expiresAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *         isActive:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     TicketQuote:
+ *       type: object
+ *       properties:
+ *         tier:
+ *           type: ['string', 'null']
+ *           description: Key of the chosen tier, null for events without tiers
+ *         basePrice:
+ *           type: number
+ *           description: The tier or event price
+ *         earlyBird:
+ *           type: boolean
+ *           description: Whether the early-bird price applies
+ *         price:
+ *           type: number
+ *           description: The price before the promo code
+ *         promoCode:
+ *           type: ['string', 'null']
+ *         discount:
+ *           type: number
+ *         finalPrice:
+ *           type: number
+ *           description: What the attendee pays
+ */
@@ -0,0 +1,188 @@
+import { Schema, model, Document } from "mongoose";
+
+export enum RefundStatus {
+    Requested = "requested",
+    Approved = "approved",
+    Rejected = "rejected",
+}
+
+export enum RefundReason {
+    AttendeeWithdrew = "attendee_withdrew",
+    EventCancelled = "event_cancelled",
+}
+
+export interface IRefundRequest extends Document {
+    eventId: Schema.Types.ObjectId;
+    attendeeId: Schema.Types.ObjectId;
+    userId: Schema.Types.ObjectId;
+    reason: RefundReason;
+    amount: number;
+    currency: string;
+    receiptUrl: string | null;
+    status: RefundStatus;
+    refundedAmount: number | null;
+    reviewedBy: Schema.Types.ObjectId | null;
+    reviewedAt: Date | null;
+    reviewNote: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const refundRequestSchema = new Schema<IRefundRequest>(
+    {
+        eventId: {
+            type: Schema.Types.ObjectId,
+            ref: "Event",
+            required: true,
+        },
+        attendeeId: {
+            type: Schema.Types.ObjectId,
+            ref: "EventAttendee",
+            required: true,
+        },
+        userId: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        reason: {
+            type: String,
+            enum: Object.values(RefundReason),
+            required: true,
+        },
+        amount: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+        currency: {
+            type: String,
+            required: true,
+        },
+        receiptUrl: {
+            type: String,
+            default: null,
+        },
+        status: {
+            type: String,
+            enum: Object.values(RefundStatus),
+            default: RefundStatus.Requested,
+        },
+        refundedAmount: {
+            type: Number,
+            default: null,
+        },
+        reviewedBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            default: null,
+        },
+        reviewedAt: {
+            type: Date,
+            default: null,
+        },
+        reviewNote: {
+            type: String,
+            default: null,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            virtuals: true,
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+            },
+        },
+        toObject: {
+            virtuals: true,
+        },
+    },
+);
+
+// one refund per registration, whether the user withdrew first or the event got cancelled
+refundRequestSchema.index({ attendeeId: 1 }, { unique: true });
+refundRequestSchema.index({ status: 1, eventId: 1, createdAt: 1 });
+
+refundRequestSchema.virtual("user", {
+    ref: "User",
+    localField: "userId",
+    foreignField: "_id",
+    justOne: true,
+});
+
+refundRequestSchema.virtual("event", {
+    ref: "Event",
+    localField: "eventId",
+    foreignField: "_id",
+    justOne: true,
+});
+
+const RefundRequest = model<IRefundRequest>("RefundRequest", refundRequestSchema);
+
+export default RefundRequest;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RefundRequest:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         eventId:
+ *           type: string
+ *         attendeeId:
+ *           type: string
+ *           description: The registration being refunded, it may already be deleted
+ *         userId:
+ *           type: string
+ *         reason:
+ *           type: string
+ *           enum: [attendee_withdrew, event_cancelled]
+ *         amount:
+ *           type: number
+ *           description: What the user paid
+ *           example: 250
+ *         currency:
+ *           type: string
+ *           example: EGP
+ *         receiptUrl:
+ *           type: ['string', 'null']
+ *           description: The uploaded receipt, kept for receipt payments
+ *         status:
+ *           type: string
+ *           enum: [requested, approved, rejected]
+ *         refundedAmount:
+ *           type: ['number', 'null']
+ *           description: What was actually refunded once approved, can be less than the amount
+ *         reviewedBy:
+ *           type: ['string', 'null']
+ *         reviewedAt:
+ *           type: ['string', 'null']
+ *           format: date-time
+ *         reviewNote:
+ *           type: ['string', 'null']
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     OutstandingRefundsReport:
+ *       type: object
+ *       properties:
+ *         eventId:
+ *           type: string
+ *         eventName:
+ *           type: ['string', 'null']
+ *         currency:
+ *           type: string
+ *         count:
+ *           type: number
+ *           description: Refund requests waiting for a decision
+ *         amount:
+ *           type: number
+ *           description: Total amount of those requests
+ */
@@ -0,0 +1,91 @@
+import { Schema, model, Document } from "mongoose";
+
+export interface ISpeaker extends Document {
+    name: string;
+    title: string | null;
+    bio: string;
+    imageUrl: string | null;
+    cloudinaryPublicId: string | null;
+}
+
+const speakerSchema = new Schema<ISpeaker>(
+    {
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        title: {
+            type: String,
+            default: null,
+            trim: true,
+        },
+        bio: {
+            type: String,
+            default: "",
+        },
+        imageUrl: {
+            type: String,
+            default: null,
+        },
+        cloudinaryPublicId: {
+            type: String,
+            default: null,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            virtuals: true,
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret.cloudinaryPublicId;
+                delete ret._id;
+                delete ret.__v;
+            },
+        },
+        toObject: {
+            virtuals: true,
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+            },
+        },
+    },
+);
+
+const Speaker = model<ISpeaker>("Speaker", speakerSchema);
+
+export default Speaker;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Speaker:
+ *       type: object
+ *       required:
+ *         - name
+ *       properties:
+ *         id:
+ *           type: string
+ *           description: The auto-generated id of the speaker
+ *         name:
+ *           type: string
+ *           description: The full name of the speaker
+ *         title:
+ *           type: ['string', 'null']
+ *           description: Job title or affiliation of the speaker
+ *         bio:
+ *           type: string
+ *           description: A short biography of the speaker
+ *         imageUrl:
+ *           type: ['string', 'null']
+ *           description: The URL of the speaker photo
+ *       example:
+ *         id: 60c72b2f9b1e8c3f10a4d2c5
+ *         name: Jane Doe
+ *         title: Senior Engineer at ITI
+ *         bio: Jane builds distributed systems and teaches the cloud track.
+ *         imageUrl: http://example.com/jane.jpg
+ */
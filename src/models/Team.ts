@@ -0,0 +1,118 @@
+import { Schema, model, Document } from "mongoose";
+
+export interface ITeam extends Document {
+    eventId: Schema.Types.ObjectId;
+    name: string;
+    captainId: Schema.Types.ObjectId;
+    members: Schema.Types.ObjectId[];
+    inviteCode: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const teamSchema = new Schema<ITeam>(
+    {
+        eventId: {
+            type: Schema.Types.ObjectId,
+            ref: "Event",
+            required: true,
+        },
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        captainId: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        // user ids in joining order, the captain included
+        members: {
+            type: [{ type: Schema.Types.ObjectId, ref: "User" }],
+            default: [],
+        },
+        inviteCode: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+            },
+        },
+    },
+);
+
+teamSchema.index({ eventId: 1, name: 1 }, { unique: true, collation: { locale: "en", strength: 2 } });
+// a user can only be in one team per event, teams are deleted once they have no members left
+teamSchema.index({ eventId: 1, members: 1 }, { unique: true });
+
+const Team = model<ITeam>("Team", teamSchema);
+
+export default Team;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Team:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         eventId:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: Null Pointers
+ *         captainId:
+ *           type: string
+ *         members:
+ *           type: array
+ *           description: Ids of the members in joining order, the captain included
+ *           items:
+ *             type: string
+ *         inviteCode:
+ *           type: string
+ *           description: Shared by the captain, other registered attendees join the team with it
+ *           example: 7F3A9C21
+ *         size:
+ *           type: integer
+ *         isComplete:
+ *           type: boolean
+ *           description: Whether the team has the minTeamSize members the event asks for
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     TeamDetails:
+ *       allOf:
+ *         - $ref: '#/components/schemas/Team'
+ *         - type: object
+ *           properties:
+ *             members:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                   firstName:
+ *                     type: string
+ *                   lastName:
+ *                     type: string
+ *                   email:
+ *                     type: string
+ *                   isApproved:
+ *                     type: boolean
+ *                     description: Whether the member's registration is approved
+ *                   isWaitlisted:
+ *                     type: boolean
+ */
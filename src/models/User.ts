@@ -77,6 +77,11 @@ const userSchema = new Schema<UserDocument>(
             },
             default: UserRole.Guest,
         },
+        calendarToken: {
+            type: String,
+            default: null,
+            index: true,
+        },
     },
     {
         timestamps: true,
@@ -89,6 +94,7 @@ userSchema.set("toJSON", {
         delete ret._id;
         delete ret.__v;
         delete ret.password;
+        delete ret.calendarToken;
     },
 });
 
@@ -98,6 +104,7 @@ userSchema.set("toObject", {
         delete ret._id;
         delete ret.__v;
         delete ret.password;
+        delete ret.calendarToken;
     },
 });
 
@@ -0,0 +1,177 @@
+import { Schema, model, Document } from "mongoose";
+
+export interface IVenueRoom {
+    name: string;
+    capacity: number | null;
+}
+
+export interface IVenue extends Document {
+    name: string;
+    address: string;
+    coordinates: { latitude: number, longitude: number } | null;
+    capacity: number;
+    accessibilityNotes: string | null;
+    rooms: IVenueRoom[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const roomSchema = new Schema<IVenueRoom>(
+    {
+        name: {
+            type: String,
+            required: true,
+        },
+        capacity: {
+            type: Number,
+            default: null,
+            min: 1,
+        },
+    },
+    { _id: false },
+);
+
+const coordinatesSchema = new Schema(
+    {
+        latitude: {
+            type: Number,
+            required: true,
+            min: -90,
+            max: 90,
+        },
+        longitude: {
+            type: Number,
+            required: true,
+            min: -180,
+            max: 180,
+        },
+    },
+    { _id: false },
+);
+
+const venueSchema = new Schema<IVenue>(
+    {
+        name: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        address: {
+            type: String,
+            required: true,
+        },
+        coordinates: {
+            type: coordinatesSchema,
+            default: null,
+        },
+        capacity: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        accessibilityNotes: {
+            type: String,
+            default: null,
+        },
+        rooms: {
+            type: [roomSchema],
+            default: [],
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            virtuals: true,
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+            },
+        },
+        toObject: {
+            virtuals: true,
+            transform: (doc, ret) => {
+                ret.id = ret._id;
+                delete ret._id;
+            },
+        },
+    },
+);
+
+const Venue = model<IVenue>("Venue", venueSchema);
+
+export default Venue;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     VenueRoom:
+ *       type: object
+ *       required:
+ *         - name
+ *       properties:
+ *         name:
+ *           type: string
+ *           description: The name of the room, unique within its venue
+ *         capacity:
+ *           type: ['number', 'null']
+ *           description: The number of people the room can hold, defaults to the venue capacity
+ *     Venue:
+ *       type: object
+ *       required:
+ *         - name
+ *         - address
+ *         - capacity
+ *       properties:
+ *         id:
+ *           type: string
+ *           description: The auto-generated id of the venue
+ *         name:
+ *           type: string
+ *           description: The name of the venue
+ *         address:
+ *           type: string
+ *           description: The postal address of the venue
+ *         coordinates:
+ *           type: ['object', 'null']
+ *           properties:
+ *             latitude:
+ *               type: number
+ *             longitude:
+ *               type: number
+ *           description: The geographic location of the venue
+ *         capacity:
+ *           type: number
+ *           description: The number of people the venue can hold
+ *         accessibilityNotes:
+ *           type: ['string', 'null']
+ *           description: Notes about step-free access, parking, hearing loops, etc.
+ *         rooms:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/VenueRoom'
+ *           description: The rooms of the venue that events can book
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *       example:
+ *         id: 60c72b2f9b1e8c3f10a4d2c7
+ *         name: ITI Smart Village
+ *         address: B148, Smart Village, Giza, Egypt
+ *         coordinates:
+ *           latitude: 30.0712
+ *           longitude: 31.0178
+ *         capacity: 500
+ *         accessibilityNotes: Step-free access from the main gate
+ *         rooms:
+ *           - name: Main Hall
+ *             capacity: 300
+ *           - name: Lab 3
+ *             capacity: 40
+ *         createdAt: 2023-06-23T14:48:00.000Z
+ *         updatedAt: 2023-06-23T14:48:00.000Z
+ */
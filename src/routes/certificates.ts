@@ -0,0 +1,54 @@
+import { Router } from "express";
+import { verifyCertificate } from "../controllers/certificateController";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Certificates
+ *   description: Certificates of attendance
+ */
+
+/**
+ * @swagger
+ * /certificates/verify/{code}:
+ *   get:
+ *     summary: Check that a certificate of attendance is authentic
+ *     tags: [Certificates]
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: The verification code printed on the certificate
+ *         example: 7F3A-9C21-E04B
+ *     responses:
+ *       200:
+ *         description: The certificate is authentic
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 valid:
+ *                   type: boolean
+ *                 certificate:
+ *                   $ref: '#/components/schemas/Certificate'
+ *       400:
+ *         description: Invalid code format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: No certificate was issued with this code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.get("/verify/:code", verifyCertificate);
+
+export default router;
@@ -1,13 +1,21 @@
 import { Router } from "express";
 import authenticateUser from "../middlewares/authenticateUser";
 import isAdmin from "../middlewares/isAdmin";
+import isOrganizer from "../middlewares/isOrganizer";
+import isAttendeeOrganizer from "../middlewares/isAttendeeOrganizer";
+import validateExportAttendeesReq from "../middlewares/validateExportAttendeesReq";
+import validateRejectAttendeeReq from "../middlewares/validateRejectAttendeeReq";
+import validateReviewAttendeesReq from "../middlewares/validateReviewAttendeesReq";
 import {
     allAttendees,
     approveAttendee,
     attendeeById,
+    checkIn,
     deleteAttendee,
+    exportPendingAttendees,
     pendingAttendees,
     rejectAttendee,
+    reviewAttendeesInBulk,
 } from "../controllers/attendeeController";
 
 const router = Router();
@@ -48,7 +56,7 @@ router.get("/", authenticateUser, isAdmin, allAttendees);
  * @swagger
  * /attendees/pending:
  *   get:
- *     summary: Get all pending attendees of all events [ADMINS ONLY]
+ *     summary: Get all pending attendees of all events, organizers only get the attendees of their events [ADMINS AND ORGANIZERS]
  *     tags: [Event Attendees]
  *     security:
  *       - bearerAuth: []
@@ -67,13 +75,201 @@ router.get("/", authenticateUser, isAdmin, allAttendees);
  *       500:
  *         description: Internal server error
  */
-router.get("/pending", authenticateUser, isAdmin, pendingAttendees);
+router.get("/pending", authenticateUser, isOrganizer, pendingAttendees);
+
+/**
+ * @swagger
+ * /attendees/pending/export:
+ *   get:
+ *     summary: Export all pending attendees of all events as CSV or XLSX, organizers only get the attendees of their events [ADMINS AND ORGANIZERS]
+ *     description: Columns are the attendee profile, approval status, receipt URL, registration time and check-in data.
+ *     tags: [Event Attendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx]
+ *           default: csv
+ *         description: File format of the export
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *         description: Only pending attendees of this event
+ *       - in: query
+ *         name: checkedIn
+ *         schema:
+ *           type: boolean
+ *         description: Only attendees who checked in (true) or did not (false)
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only registrations made on or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only registrations made on or before this date
+ *     responses:
+ *       200:
+ *         description: The export file, streamed as it is generated
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid filters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/pending/export", authenticateUser, isOrganizer, validateExportAttendeesReq, exportPendingAttendees);
+
+/**
+ * @swagger
+ * /attendees/check-in:
+ *   post:
+ *     summary: Check in an attendee by scanning the ticket [ADMINS ONLY]
+ *     tags: [Event Attendees]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - ticket
+ *             properties:
+ *               ticket:
+ *                 type: string
+ *                 description: Signed ticket token read from the QR code
+ *     responses:
+ *       200:
+ *         description: Attendee checked in successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 attendee:
+ *                   $ref: '#/components/schemas/EventAttendeePopulated'
+ *       400:
+ *         description: Missing or invalid ticket
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *             example:
+ *               message: "Invalid ticket"
+ *               errors: {}
+ *       403:
+ *         description: Ticket holder is not approved to attend the event
+ *       404:
+ *         description: Ticket registration no longer exists
+ *       409:
+ *         description: Ticket has already been used
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/check-in", authenticateUser, isAdmin, checkIn);
+
+/**
+ * @swagger
+ * /attendees/review:
+ *   post:
+ *     summary: Approve or reject many attendees at once, organizers only review the attendees of their events [ADMINS AND ORGANIZERS]
+ *     description: |
+ *       Targets either a list of attendee ids or every attendee matching a filter. Attendees already in the
+ *       requested state are skipped. Rejected users are emailed the reason.
+ *     tags: [Event Attendees]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - decision
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [approved, rejected]
+ *               attendeeIds:
+ *                 type: array
+ *                 maxItems: 500
+ *                 items:
+ *                   type: string
+ *                 description: Attendees to review, can't be combined with filter
+ *               filter:
+ *                 type: object
+ *                 description: Reviews every matching attendee, can't be combined with attendeeIds
+ *                 properties:
+ *                   eventId:
+ *                     type: string
+ *                   status:
+ *                     type: string
+ *                     enum: [pending, approved, rejected]
+ *                     default: pending
+ *               reason:
+ *                 type: string
+ *                 description: Required when rejecting, emailed to the users
+ *           example:
+ *             decision: rejected
+ *             filter:
+ *               eventId: "6650f1c2a1b2c3d4e5f60718"
+ *             reason: "Receipts must show the transfer reference"
+ *     responses:
+ *       200:
+ *         description: Attendees reviewed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reviewed:
+ *                   type: number
+ *                   description: Number of attendees whose review state changed
+ *                 attendeeIds:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 notifications:
+ *                   $ref: '#/components/schemas/NotificationSummary'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       403:
+ *         description: The filter names an event the organizer doesn't organize
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/review", authenticateUser, isOrganizer, validateReviewAttendeesReq, reviewAttendeesInBulk);
 
 /**
  * @swagger
  * /attendees/{attendeeId}:
  *   get:
- *     summary: Get individual attendee by id [ADMINS ONLY]
+ *     summary: Get individual attendee by id [ADMINS AND EVENT ORGANIZERS]
  *     tags: [Event Attendees]
  *     security:
  *       - bearerAuth: []
@@ -115,13 +311,13 @@ router.get("/pending", authenticateUser, isAdmin, pendingAttendees);
  *       500:
  *         description: Internal server error
  */
-router.get("/:attendeeId", authenticateUser, isAdmin, attendeeById);
+router.get("/:attendeeId", authenticateUser, isAttendeeOrganizer, attendeeById);
 
 /**
  * @swagger
  * /attendees/{attendeeId}/approve:
  *   post:
- *     summary: Approve attendee to attend event [ADMINS ONLY]
+ *     summary: Approve attendee to attend event [ADMINS AND EVENT ORGANIZERS]
  *     tags: [Event Attendees]
  *     security:
  *       - bearerAuth: []
@@ -163,13 +359,14 @@ router.get("/:attendeeId", authenticateUser, isAdmin, attendeeById);
  *       500:
  *         description: Internal server error
  */
-router.post("/:attendeeId/approve", authenticateUser, isAdmin, approveAttendee);
+router.post("/:attendeeId/approve", authenticateUser, isAttendeeOrganizer, approveAttendee);
 
 /**
  * @swagger
  * /attendees/{attendeeId}/reject:
  *   post:
- *     summary: Reject attendee to attend event [ADMINS ONLY]
+ *     summary: Reject attendee to attend event [ADMINS AND EVENT ORGANIZERS]
+ *     description: The user is emailed the reason and can upload a corrected receipt without registering again.
  *     tags: [Event Attendees]
  *     security:
  *       - bearerAuth: []
@@ -180,6 +377,16 @@ router.post("/:attendeeId/approve", authenticateUser, isAdmin, approveAttendee);
  *         schema:
  *           type: string
  *         description: Attendee ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "The receipt amount doesn't match the event price"
  *     responses:
  *       200:
  *         description: Successfully rejected attendee and return new attendee info
@@ -211,7 +418,7 @@ router.post("/:attendeeId/approve", authenticateUser, isAdmin, approveAttendee);
  *       500:
  *         description: Internal server error
  */
-router.post("/:attendeeId/reject", authenticateUser, isAdmin, rejectAttendee);
+router.post("/:attendeeId/reject", authenticateUser, isAttendeeOrganizer, validateRejectAttendeeReq, rejectAttendee);
 
 /**
  * @swagger
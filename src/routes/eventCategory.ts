@@ -7,6 +7,7 @@ import {
     getCategoryEvents,
     updateCategoryById,
 } from "../controllers/eventCategoryController";
+import { categoryFeedback } from "../controllers/feedbackController";
 import validateCreateEventCategoryReq from "../middlewares/validateCreateEventCategoryReq";
 import parseFormWithSingleImage from "../middlewares/parseFormWithSingleImage";
 import validateUpdateEventCategoryReq from "../middlewares/validateUpdateEventCategoryReq";
@@ -180,6 +181,57 @@ router.get("/:id", getCategoryById);
  */
 router.get("/:id/events", getCategoryEvents);
 
+/**
+ * @swagger
+ * /event-categories/{id}/feedback:
+ *   get:
+ *     summary: Get the aggregated feedback of the ended events of a category [ADMINS ONLY]
+ *     tags: [EventCategories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: The category ID
+ *     responses:
+ *       200:
+ *         description: Feedback results of the whole category and of each of its events
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 category:
+ *                   $ref: '#/components/schemas/EventCategory'
+ *                 summary:
+ *                   $ref: '#/components/schemas/FeedbackSummary'
+ *                 events:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       event:
+ *                         $ref: '#/components/schemas/Event'
+ *                       summary:
+ *                         $ref: '#/components/schemas/FeedbackSummary'
+ *       400:
+ *         description: Invalid Id Format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Category not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.get("/:id/feedback", authenticateUser, isAdmin, categoryFeedback);
+
 /**
  * @swagger
  * /event-categories/{id}:
@@ -8,17 +8,71 @@ import {
     deleteEvent,
     eventAttendees,
     eventsHappening,
+    eventWaitlist,
     finishedEvents,
     getEventById,
     missEvent,
+    myTicket,
+    myWaitlistPosition,
+    reuploadReceipt,
+    searchEvents,
+    ticketQuote,
     upComingEvents,
     updateEvent,
 } from "../controllers/eventController";
+import { cancelSeries, seriesById, updateSeries } from "../controllers/eventSeriesController";
+import { cancelEventById, rescheduleEventById, respondToReschedule } from "../controllers/eventScheduleController";
+import { eventFeedback, myFeedback, submitFeedback } from "../controllers/feedbackController";
+import { myCertificate } from "../controllers/certificateController";
+import {
+    createEventTeam,
+    eventTeamById,
+    eventTeams,
+    joinEventTeam,
+    leaveMyTeam,
+    myTeam,
+    regenerateMyTeamInviteCode,
+    removeMyTeamMember,
+} from "../controllers/teamController";
+import { myOrganizedEvents } from "../controllers/organizerController";
+import { exportEventAttendees } from "../controllers/attendeeController";
+import { checkoutMyRegistration, myPayments } from "../controllers/paymentController";
+import {
+    createEventInviteLink,
+    deleteInvitation,
+    eventInvitations,
+    eventInviteLinks,
+    inviteToEvent,
+    revokeEventInviteLink,
+} from "../controllers/invitationController";
+import { eventCalendar, upcomingEventsCalendar, userCalendarFeed } from "../controllers/calendarController";
+import {
+    createSession,
+    deleteSession,
+    eventSessions,
+    sessionById,
+    updateSession,
+} from "../controllers/sessionController";
 import validateCreateEventReq from "../middlewares/validateCreateEventReq";
 import validateUpdateEventReq from "../middlewares/validateUpdateEventReq";
+import validateSearchEventsReq from "../middlewares/validateSearchEventsReq";
+import validateCreateSessionReq from "../middlewares/validateCreateSessionReq";
+import validateUpdateSessionReq from "../middlewares/validateUpdateSessionReq";
+import validateCancelEventReq from "../middlewares/validateCancelEventReq";
+import validateRescheduleEventReq from "../middlewares/validateRescheduleEventReq";
+import validateRescheduleResponseReq from "../middlewares/validateRescheduleResponseReq";
+import validateExportAttendeesReq from "../middlewares/validateExportAttendeesReq";
+import validateSubmitFeedbackReq from "../middlewares/validateSubmitFeedbackReq";
+import validateInviteByEmailReq from "../middlewares/validateInviteByEmailReq";
+import validateCreateInviteLinkReq from "../middlewares/validateCreateInviteLinkReq";
+import validateCreateTeamReq from "../middlewares/validateCreateTeamReq";
+import validateJoinTeamReq from "../middlewares/validateJoinTeamReq";
 import authenticateUser from "../middlewares/authenticateUser";
+import optionalAuthenticateUser from "../middlewares/optionalAuthenticateUser";
 import parseFormWithSingleImage from "../middlewares/parseFormWithSingleImage";
 import isAdmin from "../middlewares/isAdmin";
+import isEventOrganizer from "../middlewares/isEventOrganizer";
+import isCategoryOrganizer from "../middlewares/isCategoryOrganizer";
 
 const router = Router();
 
@@ -33,7 +87,7 @@ const router = Router();
  * @swagger
  * /events:
  *   post:
- *     summary: Create a new event
+ *     summary: Create a new event [ADMINS AND CATEGORY ORGANIZERS]
  *     tags: [Events]
  *     security:
  *       - bearerAuth: []
@@ -59,7 +113,11 @@ const router = Router();
  *               startDate:
  *                 type: string
  *                 format: date-time
- *                 description: The start date and time of the event
+ *                 description: The start date and time of the event, read in the event timezone when it has no UTC offset
+ *               timezone:
+ *                 type: string
+ *                 description: IANA timezone the event takes place in
+ *                 example: Africa/Cairo
  *               capacity:
  *                 type: integer
  *                 description: The maximum number of attendees for the event
@@ -72,40 +130,123 @@ const router = Router();
  *               registrationClose:
  *                 type: boolean
  *                 description: Indicates if registration for the event is closed
+ *               registrationOpensAt:
+ *                 type: ['string', 'null']
+ *                 format: date-time
+ *                 description: When registration opens, read in the event timezone when it has no UTC offset
+ *               registrationClosesAt:
+ *                 type: ['string', 'null']
+ *                 format: date-time
+ *                 description: When registration closes, read in the event timezone when it has no UTC offset
+ *               autoCloseHoursBeforeStart:
+ *                 type: ['integer', 'null']
+ *                 description: Close registration automatically this many hours before the start date
+ *               registrationForm:
+ *                 type: array
+ *                 description: Extra questions attendees answer when registering
+ *                 items:
+ *                   $ref: '#/components/schemas/RegistrationQuestion'
+ *               feedbackForm:
+ *                 type: array
+ *                 description: Extra questions attendees answer in the post-event feedback survey
+ *                 items:
+ *                   $ref: '#/components/schemas/RegistrationQuestion'
  *               isActive:
  *                 type: boolean
  *                 description: Indicates if the event is active
+ *               status:
+ *                 type: string
+ *                 enum: [draft, scheduled, published, cancelled, archived]
+ *                 description: Lifecycle status of the event, drafts and scheduled events are visible to admins only
+ *               publishAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When a scheduled event gets published, required when status is scheduled
+ *               visibility:
+ *                 type: string
+ *                 enum: [public, private]
+ *                 description: Private events are left out of the event listings and only invited users can register
  *               isPaid:
  *                 type: boolean
  *                 description: Indicates if the event is a paid event
+ *               eligibility:
+ *                 $ref: '#/components/schemas/EligibilityRules'
+ *               ticketTiers:
+ *                 type: array
+ *                 description: Ticket tiers of a paid event, e.g. regular, student and VIP. Tiers that sold tickets can't be removed
+ *                 items:
+ *                   $ref: '#/components/schemas/TicketTier'
+ *               certificateEligible:
+ *                 type: boolean
+ *                 description: Indicates if checked-in attendees can download a certificate of attendance
  *               minAge:
  *                 type: integer
  *                 description: The minimum age requirement for attendees
  *               maxAge:
  *                 type: integer
  *                 description: The maximum age limit for attendees
+ *               minTeamSize:
+ *                 type: ['integer', 'null']
+ *                 description: Members a team needs to be complete
+ *               maxTeamSize:
+ *                 type: ['integer', 'null']
+ *                 description: Setting it makes this a team event where registered attendees create or join teams
  *               category:
  *                 type: string
  *                 description: The ID of the category to which the event belongs
  *                 example: 60c72b2f9b1e8e3a3c8f9e4b
+ *               venue:
+ *                 type: ['string', 'null']
+ *                 description: The ID of the venue hosting the event
+ *               room:
+ *                 type: ['string', 'null']
+ *                 description: The venue room to book, refused when another event booked it at overlapping times
+ *               attendanceMode:
+ *                 type: string
+ *                 enum: [in_person, online, hybrid]
+ *                 description: How attendees join the event, online and hybrid events need meeting details
+ *               meeting:
+ *                 $ref: '#/components/schemas/MeetingDetails'
+ *               meetingRevealMinutesBeforeStart:
+ *                 type: integer
+ *                 description: How many minutes before the start approved attendees get the meeting details
+ *               recurrence:
+ *                 $ref: '#/components/schemas/Recurrence'
  *     responses:
  *       201:
- *         description: Event created successfully
+ *         description: Event created successfully, a recurring event returns its series and all occurrences instead
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 event:
- *                   $ref: '#/components/schemas/Event'
+ *               oneOf:
+ *                 - type: object
+ *                   properties:
+ *                     event:
+ *                       $ref: '#/components/schemas/Event'
+ *                     warnings:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                 - type: object
+ *                   properties:
+ *                     series:
+ *                       $ref: '#/components/schemas/EventSeries'
+ *                     events:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Event'
+ *                     warnings:
+ *                       type: array
+ *                       items:
+ *                         type: string
  *       400:
- *         description: Validation error
+ *         description: Validation error or the room is already booked
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ValidationError'
  */
-router.post("/", authenticateUser, isAdmin, validateCreateEventReq, createEvent);
+router.post("/", authenticateUser, validateCreateEventReq, isCategoryOrganizer, createEvent);
 
 /**
  * @swagger
@@ -157,12 +298,150 @@ router.get("/", authenticateUser, isAdmin, allEvents);
  */
 router.get("/inactive", authenticateUser, isAdmin, allInActiveEvents);
 
+/**
+ * @swagger
+ * /events/organized:
+ *   get:
+ *     summary: Get the events the current user organizes, directly or through their categories
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Organized events in ascending order, empty for users organizing nothing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 events:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EventPopulated'
+ *       401:
+ *         description: User not authenticated
+ */
+router.get("/organized", authenticateUser, myOrganizedEvents);
+
+/**
+ * @swagger
+ * /events/search:
+ *   get:
+ *     summary: Search active events with filters, sorting and pagination
+ *     description: Signed in users only get the events they are eligible to register in, admins get every event.
+ *     tags: [Events]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Full-text search over event name and description
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *         description: Category ID
+ *       - in: query
+ *         name: timing
+ *         schema:
+ *           type: string
+ *           enum: [upcoming, happening, finished]
+ *         description: Restrict to upcoming, currently happening or finished events
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Events starting at or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Events starting at or before this date
+ *       - in: query
+ *         name: isPaid
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: age
+ *         schema:
+ *           type: integer
+ *         description: Only events this age is eligible for
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [startDate, -startDate, price, -price, name, -name, createdAt, -createdAt, relevance]
+ *           default: startDate
+ *         description: Sort field, prefix with - for descending. relevance requires q
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: A page of matching events
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 events:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EventPopulated'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     total:
+ *                       type: integer
+ *                     totalPages:
+ *                       type: integer
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/search", optionalAuthenticateUser, validateSearchEventsReq, searchEvents);
+
 /**
  * @swagger
  * /events/active:
  *   get:
+ *     deprecated: true
  *     summary: Get all active events in ascending order
+ *     description: Signed in users only get the events they are eligible to register in, admins get every event.
  *     tags: [Events]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: A list of All events
@@ -178,14 +457,19 @@ router.get("/inactive", authenticateUser, isAdmin, allInActiveEvents);
  *       500:
  *         description: Internal server error
  */
-router.get("/active", allActiveEvents);
+router.get("/active", optionalAuthenticateUser, allActiveEvents);
 
 /**
  * @swagger
  * /events/happening:
  *   get:
+ *     deprecated: true
  *     summary: Get all active currently happening events in ascending order
+ *     description: Signed in users only get the events they are eligible to register in, admins get every event.
  *     tags: [Events]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: A list of upcoming events in ascending order
@@ -201,14 +485,19 @@ router.get("/active", allActiveEvents);
  *       500:
  *         description: Internal server error
  */
-router.get("/happening", eventsHappening);
+router.get("/happening", optionalAuthenticateUser, eventsHappening);
 
 /**
  * @swagger
  * /events/upcoming:
  *   get:
+ *     deprecated: true
  *     summary: Get all active upcoming/future events in ascending order
+ *     description: Signed in users only get the events they are eligible to register in, admins get every event.
  *     tags: [Events]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: A list of upcoming events in ascending order
@@ -224,12 +513,62 @@ router.get("/happening", eventsHappening);
  *       500:
  *         description: Internal server error
  */
-router.get("/upcoming", upComingEvents);
+router.get("/upcoming", optionalAuthenticateUser, upComingEvents);
+
+/**
+ * @swagger
+ * /events/upcoming/calendar.ics:
+ *   get:
+ *     summary: Get all active upcoming events as an iCalendar feed
+ *     tags: [Events]
+ *     responses:
+ *       200:
+ *         description: iCalendar feed of upcoming events
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/upcoming/calendar.ics", upcomingEventsCalendar);
+
+/**
+ * @swagger
+ * /events/feeds/{token}/calendar.ics:
+ *   get:
+ *     summary: Get the personal iCalendar feed of the events a user is registered in
+ *     tags: [Events]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Calendar feed token, see /users/me/calendar-feed
+ *     responses:
+ *       200:
+ *         description: iCalendar feed, cancelled events are kept with a CANCELLED status
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Calendar feed doesn't exist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/feeds/:token/calendar.ics", userCalendarFeed);
 
 /**
  * @swagger
  * /events/finished:
  *   get:
+ *     deprecated: true
  *     summary: Get all active finished events in ascending order
  *     tags: [Events]
  *     responses:
@@ -251,27 +590,36 @@ router.get("/finished", finishedEvents);
 
 /**
  * @swagger
- * /events/{id}:
+ * /events/series/{seriesId}:
  *   get:
- *     summary: Get an event by ID
+ *     summary: Get a recurring event series with all its occurrences
  *     tags: [Events]
  *     parameters:
  *       - in: path
- *         name: id
+ *         name: seriesId
  *         schema:
  *           type: string
  *         required: true
- *         description: Event ID
+ *         description: Event series ID
+ *       - in: query
+ *         name: inviteToken
+ *         schema:
+ *           type: string
+ *         description: Token of an invite link of the private event
  *     responses:
  *       200:
- *         description: Return Event found in DB
+ *         description: The series and its occurrences in ascending order
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 event:
- *                   $ref: '#/components/schemas/EventPopulated'
+ *                 series:
+ *                   $ref: '#/components/schemas/EventSeries'
+ *                 events:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EventPopulated'
  *       400:
  *         description: Invalid Id Format
  *         content:
@@ -279,130 +627,177 @@ router.get("/finished", finishedEvents);
  *             schema:
  *               $ref: '#/components/schemas/ValidationError'
  *             example:
- *               message: "Invalid event id format"
+ *               message: "Invalid series id format"
  *               errors: {}
  *       404:
- *         description: Event Not Found
+ *         description: Event series Not Found
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/NotFoundError'
  *             example:
- *               message: "Event not found"
+ *               message: "Event series doesn't exist"
  *               errors: {}
  */
-router.get("/:id", getEventById);
+router.get("/series/:seriesId", optionalAuthenticateUser, seriesById);
 
 /**
  * @swagger
- * /events/{id}:
+ * /events/series/{seriesId}:
  *   put:
- *     summary: Update an existing event
+ *     summary: Update all upcoming occurrences of a series, occurrences edited on their own are skipped [ADMINS ONLY]
+ *     description: |
+ *       Takes the same body as updating a single event except startDate, use PUT /events/{id} to edit a single occurrence.
+ *       Every occurrence goes through the same checks as a single event update, nothing changes when one of them fails.
+ *       Dates are set for the first upcoming occurrence, the registration window and ticket sale dates of the later
+ *       occurrences keep the same distance from their own start.
  *     tags: [Events]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
- *         name: id
+ *         name: seriesId
+ *         schema:
+ *           type: string
  *         required: true
+ *         description: Event series ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: The series and the updated occurrences
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 series:
+ *                   $ref: '#/components/schemas/EventSeries'
+ *                 events:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Event'
+ *                 warnings:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Non blocking issues, e.g. the event capacity exceeds the venue capacity
+ *       400:
+ *         description: Validation error or the room is already booked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event series Not Found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.put("/series/:seriesId", authenticateUser, isAdmin, validateUpdateEventReq, updateSeries);
+
+/**
+ * @swagger
+ * /events/series/{seriesId}/cancel:
+ *   post:
+ *     summary: Cancel all upcoming occurrences of a series and email their attendees [ADMINS ONLY]
+ *     description: |
+ *       Every occurrence is cancelled like POST /events/{id}/cancel would, use that route to cancel a single occurrence.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
  *         schema:
  *           type: string
- *         description: Event ID
+ *         required: true
+ *         description: Event series ID
  *     requestBody:
+ *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
+ *             required:
+ *               - reason
  *             properties:
- *               name:
- *                 type: string
- *                 description: The name of the event
- *               description:
- *                 type: string
- *                 description: A short description of the event
- *               startDate:
- *                 type: string
- *                 format: date-time
- *                 description: The start date and time of the event
- *               capacity:
- *                 type: integer
- *                 description: The maximum number of attendees for the event
- *               price:
- *                 type: number
- *                 description: The price of the event
- *               duration:
- *                 type: integer
- *                 description: The duration of the event in hours
- *               registrationClosed:
- *                 type: boolean
- *                 description: Indicates if registration for the event is closed
- *               isActive:
- *                 type: boolean
- *                 description: Indicates if the event is active
- *               isPaid:
- *                 type: boolean
- *                 description: Indicates if the event is a paid event
- *               minAge:
- *                 type: integer
- *                 description: The minimum age requirement for attendees
- *               maxAge:
- *                 type: integer
- *                 description: The maximum age limit for attendees
- *               category:
+ *               reason:
  *                 type: string
- *                 description: The auto-generated id of the category
+ *                 description: Emailed to the attendees of every occurrence
  *     responses:
  *       200:
- *         description: Updated event
+ *         description: The series and the cancelled occurrences
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 event:
- *                   $ref: '#/components/schemas/EventPopulated'
+ *                 series:
+ *                   $ref: '#/components/schemas/EventSeries'
+ *                 events:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Event'
+ *                 refunds:
+ *                   type: number
+ *                   description: Number of refund requests opened for paid registrations
+ *                 notifications:
+ *                   $ref: '#/components/schemas/NotificationSummary'
  *       400:
- *         description: Invalid Id Format
+ *         description: Invalid Id Format or missing reason
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ValidationError'
- *             example:
- *               message: "Invalid event id format"
- *               errors: {}
  *       404:
- *         description: Event Not Found
+ *         description: Event series Not Found
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/NotFoundError'
- *             example:
- *               message: "Event not found"
- *               errors: {}
- *       500:
- *         description: Internal server error
  */
-
-router.put("/:id", authenticateUser, isAdmin, validateUpdateEventReq, updateEvent);
+router.post("/series/:seriesId/cancel", authenticateUser, isAdmin, validateCancelEventReq, cancelSeries);
 
 /**
  * @swagger
  * /events/{id}:
- *   delete:
- *     summary: Delete an existing event
+ *   get:
+ *     summary: Get an event by ID, unpublished events are returned to admins only
+ *     description: >
+ *       The meeting details of online and hybrid events are included for admins, and for approved attendees from
+ *       meetingRevealMinutesBeforeStart before the start until the event ends. Nobody else ever gets them.
+ *       Private events are only returned to admins, invited and registered users, and to visitors sending a valid inviteToken.
  *     tags: [Events]
  *     security:
+ *       - {}
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
- *         required: true
  *         schema:
  *           type: string
+ *         required: true
  *         description: Event ID
+ *       - in: query
+ *         name: inviteToken
+ *         schema:
+ *           type: string
+ *         description: Token of an invite link of the private event
  *     responses:
- *       204:
- *         description: Event successfully deleted
+ *       200:
+ *         description: Return Event found in DB
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 event:
+ *                   $ref: '#/components/schemas/EventPopulated'
  *       400:
  *         description: Invalid Id Format
  *         content:
@@ -421,17 +816,1886 @@ router.put("/:id", authenticateUser, isAdmin, validateUpdateEventReq, updateEven
  *             example:
  *               message: "Event not found"
  *               errors: {}
- *       500:
- *         description: Internal server error
  */
+router.get("/:id", optionalAuthenticateUser, getEventById);
 
-router.delete("/:id", authenticateUser, isAdmin, deleteEvent);
+/**
+ * @swagger
+ * /events/{id}/calendar.ics:
+ *   get:
+ *     summary: Download an event as an iCalendar file
+ *     tags: [Events]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Event ID
+ *       - in: query
+ *         name: inviteToken
+ *         schema:
+ *           type: string
+ *         description: Token of an invite link of the private event
+ *     responses:
+ *       200:
+ *         description: iCalendar file of the event
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid Id Format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *             example:
+ *               message: "Invalid event id format"
+ *               errors: {}
+ *       404:
+ *         description: Event Not Found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *             example:
+ *               message: "Event doesn't exist"
+ *               errors: {}
+ */
+router.get("/:id/calendar.ics", optionalAuthenticateUser, eventCalendar);
+
+/**
+ * @swagger
+ * /events/{id}/sessions:
+ *   get:
+ *     summary: Get the agenda of an event
+ *     description: Returns the sessions of the event ordered by start time, with their speakers.
+ *     tags: [Events]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *       - in: query
+ *         name: inviteToken
+ *         schema:
+ *           type: string
+ *         description: Token of an invite link of the private event
+ *     responses:
+ *       200:
+ *         description: The event agenda
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 sessions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EventSession'
+ *       400:
+ *         description: Invalid Id Format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.get("/:id/sessions", optionalAuthenticateUser, eventSessions);
+
+/**
+ * @swagger
+ * /events/{id}/sessions:
+ *   post:
+ *     summary: Add a session to the agenda of an event [ADMINS AND EVENT ORGANIZERS]
+ *     description: >
+ *       Dates without an offset are interpreted in the event's timezone. The session must take place within
+ *       the event, and its room can't be booked by another session of the event at the same time.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - startDate
+ *               - endDate
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               room:
+ *                 type: string
+ *               track:
+ *                 type: string
+ *               speakers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Speaker IDs
+ *     responses:
+ *       201:
+ *         description: Session created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 session:
+ *                   $ref: '#/components/schemas/EventSession'
+ *       400:
+ *         description: Validation error, session outside the event or room already booked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *             example:
+ *               message: "Validation Error"
+ *               errors:
+ *                 room: "Room Hall A is already booked by session \"Opening Keynote\" at that time"
+ *       404:
+ *         description: Event not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.post("/:id/sessions", authenticateUser, isEventOrganizer("id"), validateCreateSessionReq, createSession);
+
+/**
+ * @swagger
+ * /events/{id}/sessions/{sessionId}:
+ *   get:
+ *     summary: Get a session of an event
+ *     tags: [Events]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Session ID
+ *       - in: query
+ *         name: inviteToken
+ *         schema:
+ *           type: string
+ *         description: Token of an invite link of the private event
+ *     responses:
+ *       200:
+ *         description: The session
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 session:
+ *                   $ref: '#/components/schemas/EventSession'
+ *       400:
+ *         description: Invalid Id Format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event or session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.get("/:id/sessions/:sessionId", optionalAuthenticateUser, sessionById);
+
+/**
+ * @swagger
+ * /events/{id}/sessions/{sessionId}:
+ *   put:
+ *     summary: Update a session of an event [ADMINS AND EVENT ORGANIZERS]
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Session ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               room:
+ *                 type: string
+ *               track:
+ *                 type: string
+ *               speakers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Session updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 session:
+ *                   $ref: '#/components/schemas/EventSession'
+ *       400:
+ *         description: Validation error, session outside the event or room already booked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event or session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.put("/:id/sessions/:sessionId", authenticateUser, isEventOrganizer("id"), validateUpdateSessionReq, updateSession);
+
+/**
+ * @swagger
+ * /events/{id}/sessions/{sessionId}:
+ *   delete:
+ *     summary: Remove a session from the agenda of an event [ADMINS AND EVENT ORGANIZERS]
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Session ID
+ *     responses:
+ *       204:
+ *         description: Session deleted successfully
+ *       400:
+ *         description: Invalid Id Format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.delete("/:id/sessions/:sessionId", authenticateUser, isEventOrganizer("id"), deleteSession);
+
+/**
+ * @swagger
+ * /events/{id}:
+ *   put:
+ *     summary: Update an existing event [ADMINS AND EVENT ORGANIZERS]
+ *     description: Organizers can only move the event to a category they organize
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: The name of the event
+ *               description:
+ *                 type: string
+ *                 description: A short description of the event
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: >
+ *                   The start date and time of the event, read in the event timezone when it has no UTC offset.
+ *                   Published events are moved with POST /events/{id}/reschedule instead
+ *               timezone:
+ *                 type: string
+ *                 description: IANA timezone the event takes place in
+ *                 example: Africa/Cairo
+ *               capacity:
+ *                 type: integer
+ *                 description: The maximum number of attendees for the event
+ *               price:
+ *                 type: number
+ *                 description: The price of the event
+ *               duration:
+ *                 type: integer
+ *                 description: The duration of the event in hours, published events change it with POST /events/{id}/reschedule
+ *               registrationClosed:
+ *                 type: boolean
+ *                 description: Indicates if registration for the event is closed
+ *               registrationOpensAt:
+ *                 type: ['string', 'null']
+ *                 format: date-time
+ *                 description: When registration opens, read in the event timezone when it has no UTC offset
+ *               registrationClosesAt:
+ *                 type: ['string', 'null']
+ *                 format: date-time
+ *                 description: When registration closes, read in the event timezone when it has no UTC offset
+ *               autoCloseHoursBeforeStart:
+ *                 type: ['integer', 'null']
+ *                 description: Close registration automatically this many hours before the start date
+ *               registrationForm:
+ *                 type: array
+ *                 description: Extra questions attendees answer when registering
+ *                 items:
+ *                   $ref: '#/components/schemas/RegistrationQuestion'
+ *               feedbackForm:
+ *                 type: array
+ *                 description: Extra questions attendees answer in the post-event feedback survey
+ *                 items:
+ *                   $ref: '#/components/schemas/RegistrationQuestion'
+ *               isActive:
+ *                 type: boolean
+ *                 description: Indicates if the event is active
+ *               status:
+ *                 type: string
+ *                 enum: [draft, scheduled, published, cancelled, archived]
+ *                 description: Lifecycle status of the event, drafts and scheduled events are visible to admins only
+ *               publishAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When a scheduled event gets published, required when status is scheduled
+ *               visibility:
+ *                 type: string
+ *                 enum: [public, private]
+ *                 description: Private events are left out of the event listings and only invited users can register
+ *               isPaid:
+ *                 type: boolean
+ *                 description: Indicates if the event is a paid event
+ *               eligibility:
+ *                 $ref: '#/components/schemas/EligibilityRules'
+ *               ticketTiers:
+ *                 type: array
+ *                 description: Ticket tiers of a paid event, e.g. regular, student and VIP. Tiers that sold tickets can't be removed
+ *                 items:
+ *                   $ref: '#/components/schemas/TicketTier'
+ *               certificateEligible:
+ *                 type: boolean
+ *                 description: Indicates if checked-in attendees can download a certificate of attendance
+ *               minAge:
+ *                 type: integer
+ *                 description: The minimum age requirement for attendees
+ *               maxAge:
+ *                 type: integer
+ *                 description: The maximum age limit for attendees
+ *               minTeamSize:
+ *                 type: ['integer', 'null']
+ *                 description: Members a team needs to be complete
+ *               maxTeamSize:
+ *                 type: ['integer', 'null']
+ *                 description: Setting it makes this a team event where registered attendees create or join teams
+ *               category:
+ *                 type: string
+ *                 description: The auto-generated id of the category
+ *               venue:
+ *                 type: ['string', 'null']
+ *                 description: The ID of the venue hosting the event
+ *               room:
+ *                 type: ['string', 'null']
+ *                 description: The venue room to book, refused when another event booked it at overlapping times
+ *               attendanceMode:
+ *                 type: string
+ *                 enum: [in_person, online, hybrid]
+ *                 description: How attendees join the event, online and hybrid events need meeting details
+ *               meeting:
+ *                 $ref: '#/components/schemas/MeetingDetails'
+ *               meetingRevealMinutesBeforeStart:
+ *                 type: integer
+ *                 description: How many minutes before the start approved attendees get the meeting details
+ *     responses:
+ *       200:
+ *         description: Updated event
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 event:
+ *                   $ref: '#/components/schemas/EventPopulated'
+ *                 warnings:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Non blocking issues, e.g. the event capacity exceeds the venue capacity
+ *       400:
+ *         description: Invalid Id Format, validation error or an agenda session would fall outside the new event time
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *             example:
+ *               message: "Invalid event id format"
+ *               errors: {}
+ *       404:
+ *         description: Event Not Found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *             example:
+ *               message: "Event not found"
+ *               errors: {}
+ *       500:
+ *         description: Internal server error
+ */
+
+router.put("/:id", authenticateUser, isEventOrganizer("id"), validateUpdateEventReq, updateEvent);
+
+/**
+ * @swagger
+ * /events/{id}:
+ *   delete:
+ *     summary: Delete an existing event
+ *     description: Permanently removes the event with its agenda, registrations and receipts. Use POST /events/{id}/cancel to keep the history and notify attendees.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     responses:
+ *       204:
+ *         description: Event successfully deleted
+ *       400:
+ *         description: Invalid Id Format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *             example:
+ *               message: "Invalid event id format"
+ *               errors: {}
+ *       404:
+ *         description: Event Not Found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *             example:
+ *               message: "Event not found"
+ *               errors: {}
+ *       500:
+ *         description: Internal server error
+ */
+
+router.delete("/:id", authenticateUser, isAdmin, deleteEvent);
+
+/**
+ * @swagger
+ * /events/{id}/cancel:
+ *   post:
+ *     summary: Cancel an event and email its attendees [ADMINS AND EVENT ORGANIZERS]
+ *     description: >
+ *       The event is kept with status cancelled and the reason is added to its scheduleChanges. Attendees of a paid
+ *       event who uploaded a receipt are flagged with needsRefund.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: The speaker can no longer make it
+ *     responses:
+ *       200:
+ *         description: Event cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 event:
+ *                   $ref: '#/components/schemas/Event'
+ *                 refunds:
+ *                   type: number
+ *                   description: Number of attendees flagged for a refund
+ *                 notifications:
+ *                   $ref: '#/components/schemas/NotificationSummary'
+ *       400:
+ *         description: Validation error or the event can't be cancelled anymore
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event Not Found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.post("/:id/cancel", authenticateUser, isEventOrganizer("id"), validateCancelEventReq, cancelEventById);
+
+/**
+ * @swagger
+ * /events/{id}/reschedule:
+ *   post:
+ *     summary: Move an event to a new date and ask its attendees to confirm [ADMINS AND EVENT ORGANIZERS]
+ *     description: >
+ *       The previous date and the reason are added to the event scheduleChanges, every attendee gets an email and
+ *       their rescheduleResponse becomes pending until they confirm or withdraw. The agenda sessions move by the
+ *       same amount of time as the event.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startDate
+ *               - reason
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: The new start date, read in the event timezone when it has no UTC offset
+ *               duration:
+ *                 type: integer
+ *                 description: The new duration in hours, defaults to the current one
+ *               reason:
+ *                 type: string
+ *                 example: The venue is under maintenance
+ *     responses:
+ *       200:
+ *         description: Event rescheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 event:
+ *                   $ref: '#/components/schemas/Event'
+ *                 notifications:
+ *                   $ref: '#/components/schemas/NotificationSummary'
+ *                 warnings:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: Validation error, the room is already booked, a session wouldn't fit the new duration or the event can't be rescheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event Not Found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.post("/:id/reschedule", authenticateUser, isEventOrganizer("id"), validateRescheduleEventReq, rescheduleEventById);
+
+/**
+ * @swagger
+ * /events/{id}/feedback:
+ *   post:
+ *     summary: Rate an event after it ended
+ *     description: Only approved or checked-in attendees can give feedback, once per event.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               comment:
+ *                 type: string
+ *               answers:
+ *                 type: object
+ *                 description: Answers to the event feedbackForm keyed by question key
+ *     responses:
+ *       201:
+ *         description: Feedback submitted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 feedback:
+ *                   $ref: '#/components/schemas/EventFeedback'
+ *       400:
+ *         description: Validation error, or the event hasn't ended or was cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       403:
+ *         description: The user didn't attend the event
+ *       404:
+ *         description: Event Not Found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       409:
+ *         description: The user already gave feedback for this event
+ */
+router.post("/:id/feedback", authenticateUser, validateSubmitFeedbackReq, submitFeedback);
+
+/**
+ * @swagger
+ * /events/{id}/feedback:
+ *   get:
+ *     summary: Get the aggregated feedback of an event with every submission [ADMINS ONLY]
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: Feedback results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 summary:
+ *                   $ref: '#/components/schemas/FeedbackSummary'
+ *                 questions:
+ *                   type: array
+ *                   description: >
+ *                     Results per feedbackForm question, choice questions have the count of every option
+ *                     and number questions their average
+ *                   items:
+ *                     type: object
+ *                 feedback:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EventFeedback'
+ *       400:
+ *         description: Invalid Id Format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event Not Found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.get("/:id/feedback", authenticateUser, isAdmin, eventFeedback);
+
+/**
+ * @swagger
+ * /events/{id}/feedback/me:
+ *   get:
+ *     summary: Get the feedback the current user gave for an event
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: The user feedback
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 feedback:
+ *                   $ref: '#/components/schemas/EventFeedback'
+ *       404:
+ *         description: No feedback given yet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.get("/:id/feedback/me", authenticateUser, myFeedback);
+
+/**
+ * @swagger
+ * /events/{eventId}/attendees:
+ *   post:
+ *     summary: Register authenticated user to event id, user is waitlisted if the event is full
+ *     description: |
+ *       Fails with 400 when registration is not open yet, closed, the user is already registered, the user age is not allowed,
+ *       or the ticket tier or promo code can't be used. The price is computed by the server, a registration priced at 0 is approved right away.
+ *       Fails with 403 when the user doesn't meet the event eligibility rules, or the event is private and the user
+ *       has neither a personal invitation nor an invite link. Registering accepts the personal invitation.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     requestBody:
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: An optional Receipt image for paid events (max size 10MB)
+ *               paymentMethod:
+ *                 type: string
+ *                 enum: [receipt, online]
+ *                 default: receipt
+ *                 description: For paid events, pay through the online checkout or upload a receipt for review
+ *               ticketTier:
+ *                 type: string
+ *                 description: Key of the ticket tier to buy, required when the event has tiers
+ *               promoCode:
+ *                 type: string
+ *                 description: An optional promo code
+ *               inviteToken:
+ *                 type: string
+ *                 description: Token of an invite link, required for private events unless the user was invited by email
+ *               answers:
+ *                 type: string
+ *                 description: JSON encoded answers to the event registration form keyed by question key
+ *                 example: '{"tshirtSize":"M","githubHandle":"octocat"}'
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               answers:
+ *                 type: object
+ *                 description: Answers to the event registration form keyed by question key
+ *                 example: { tshirtSize: M, githubHandle: octocat }
+ *               paymentMethod:
+ *                 type: string
+ *                 enum: [receipt, online]
+ *                 default: receipt
+ *                 description: For paid events, pay through the online checkout or upload a receipt for review
+ *               ticketTier:
+ *                 type: string
+ *                 description: Key of the ticket tier to buy, required when the event has tiers
+ *               promoCode:
+ *                 type: string
+ *                 description: An optional promo code
+ *               inviteToken:
+ *                 type: string
+ *                 description: Token of an invite link, required for private events unless the user was invited by email
+ *     responses:
+ *       201:
+ *         description: Register user to given event id
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 attendee:
+ *                   $ref: '#/components/schemas/EventAttendeePopulated'
+ *                 payment:
+ *                   description: The checkout to complete, only for the online payment method
+ *                   oneOf:
+ *                     - $ref: '#/components/schemas/Payment'
+ *                     - type: 'null'
+ *                 warnings:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Set when the online checkout couldn't be started, the registration is kept
+ *                 quote:
+ *                   $ref: '#/components/schemas/TicketQuote'
+ *       400:
+ *         description: Invalid Id Format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *             example:
+ *               message: "Invalid event id format"
+ *               errors: {}
+ *       403:
+ *         description: The user doesn't meet the event eligibility rules, e.g. "You must verify your email before registering in this event"
+ *       404:
+ *         description: Event Not Found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *             example:
+ *               message: "Event not found"
+ *               errors: {}
+ *       500:
+ *         description: Internal server error
+ */
+
+router.post("/:eventId/attendees", authenticateUser, parseFormWithSingleImage(), attendEvent);
+
+/**
+ * @swagger
+ * /events/{eventId}/attendees:
+ *   delete:
+ *     summary: Unregister authenticated user from event
+ *     description: For paid events a refund request is opened for what the user paid, admins review it under /finance/refunds.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     responses:
+ *       204:
+ *         description: User registration cancelled successfully
+ *       400:
+ *         description: Invalid Id Format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *             example:
+ *               message: "Invalid event id format"
+ *               errors: {}
+ *       404:
+ *         description: User is not registered to this event
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *             example:
+ *               message: "User is not registered to this event"
+ *               errors: {}
+ *       500:
+ *         description: Internal server error
+ */
+router.delete("/:eventId/attendees", authenticateUser, missEvent);
+
+/**
+ * @swagger
+ * /events/{eventId}/attendees:
+ *   get:
+ *     summary: Get all the attendess of an event [ADMINS AND EVENT ORGANIZERS]
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: User registration cancelled successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 attendees:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EventAttendeePopulated'
+ *       400:
+ *         description: Invalid Id Format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *             example:
+ *               message: "Invalid event id format"
+ *               errors: {}
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:eventId/attendees", authenticateUser, isEventOrganizer("eventId"), eventAttendees);
+
+/**
+ * @swagger
+ * /events/{eventId}/attendees/export:
+ *   get:
+ *     summary: Export the attendees of an event as CSV or XLSX [ADMINS AND EVENT ORGANIZERS]
+ *     description: Columns are the attendee profile, approval status, receipt URL, registration time, check-in data and one column per registration form question.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx]
+ *           default: csv
+ *         description: File format of the export
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [approved, pending, rejected, waitlisted]
+ *         description: Only attendees with this registration status
+ *       - in: query
+ *         name: checkedIn
+ *         schema:
+ *           type: boolean
+ *         description: Only attendees who checked in (true) or did not (false)
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only registrations made on or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only registrations made on or before this date
+ *     responses:
+ *       200:
+ *         description: The export file, streamed as it is generated
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid filters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:eventId/attendees/export", authenticateUser, isEventOrganizer("eventId"), validateExportAttendeesReq, exportEventAttendees);
+
+/**
+ * @swagger
+ * /events/{eventId}/attendees/me/receipt:
+ *   put:
+ *     summary: Upload a corrected payment receipt
+ *     description: Replaces the receipt of a pending or rejected registration and sends it back to review.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - image
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: The payment receipt image
+ *     responses:
+ *       200:
+ *         description: Receipt replaced, the registration is pending review again
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 attendee:
+ *                   $ref: '#/components/schemas/EventAttendeePopulated'
+ *       400:
+ *         description: Invalid id, missing image or the event is free
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event not found or user not registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       409:
+ *         description: The registration is already approved
+ *       500:
+ *         description: Internal server error
+ */
+router.put("/:eventId/attendees/me/receipt", authenticateUser, parseFormWithSingleImage(), reuploadReceipt);
+
+/**
+ * @swagger
+ * /events/{eventId}/attendees/me/checkout:
+ *   post:
+ *     summary: Start a new online checkout for the authenticated user registration
+ *     description: |
+ *       For paid registrations that are not approved yet, e.g. after a failed payment or a rejected receipt. The amount is the event price.
+ *       While a checkout session of the registration can still be paid, that session is returned instead of a new one.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: The pending checkout session of the registration, send the user to its checkoutUrl
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 payment:
+ *                   $ref: '#/components/schemas/Payment'
+ *       201:
+ *         description: Checkout session created, send the user to its checkoutUrl
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 payment:
+ *                   $ref: '#/components/schemas/Payment'
+ *       400:
+ *         description: Invalid id or the event is free
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event not found or user not registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       409:
+ *         description: The registration is already approved or paid, or still waitlisted
+ *       503:
+ *         description: Online payments are not configured
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/:eventId/attendees/me/checkout", authenticateUser, checkoutMyRegistration);
+
+/**
+ * @swagger
+ * /events/{eventId}/attendees/me/payments:
+ *   get:
+ *     summary: Get the online payments of the authenticated user for an event, newest first
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: Payments returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 payments:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Payment'
+ *       400:
+ *         description: Invalid event id format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: User not registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:eventId/attendees/me/payments", authenticateUser, myPayments);
+
+/**
+ * @swagger
+ * /events/{id}/ticket-quote:
+ *   get:
+ *     summary: Get the price of a ticket before registering
+ *     description: Applies the tier price, the early-bird price while it lasts and the promo code, the same way registration does.
+ *     tags: [Events]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *       - in: query
+ *         name: ticketTier
+ *         schema:
+ *           type: string
+ *         description: Key of the ticket tier, required when the event has tiers
+ *       - in: query
+ *         name: promoCode
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: inviteToken
+ *         schema:
+ *           type: string
+ *         description: Token of an invite link of the private event
+ *     responses:
+ *       200:
+ *         description: Quote returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 quote:
+ *                   $ref: '#/components/schemas/TicketQuote'
+ *       400:
+ *         description: The tier or the promo code can't be used
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *             example:
+ *               message: "Validation Error"
+ *               errors: { promoCode: "promo code has expired" }
+ *       404:
+ *         description: Event not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:id/ticket-quote", optionalAuthenticateUser, ticketQuote);
+
+/**
+ * @swagger
+ * /events/{id}/invitations:
+ *   post:
+ *     summary: Invite people to the event by email [ADMINS AND EVENT ORGANIZERS]
+ *     description: |
+ *       Each email gets a personal invitation link, emails without an account are asked to register first.
+ *       Inviting an email again sends a new invitation, emails that already accepted are skipped.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - emails
+ *             properties:
+ *               emails:
+ *                 type: array
+ *                 maxItems: 200
+ *                 items:
+ *                   type: string
+ *                   format: email
+ *     responses:
+ *       201:
+ *         description: Invitations sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 invitations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EventInvitation'
+ *                 alreadyAccepted:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Emails skipped because they already accepted an invitation
+ *                 failed:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Emails the invitation couldn't be sent to, invite them again to retry
+ *       400:
+ *         description: Invalid body request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/:id/invitations", authenticateUser, isEventOrganizer("id"), validateInviteByEmailReq, inviteToEvent);
+
+/**
+ * @swagger
+ * /events/{id}/invitations:
+ *   get:
+ *     summary: Get the personal invitations of the event, newest first [ADMINS AND EVENT ORGANIZERS]
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [sent, opened, accepted, declined]
+ *     responses:
+ *       200:
+ *         description: Invitations returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 invitations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EventInvitation'
+ *       400:
+ *         description: Invalid id format or status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:id/invitations", authenticateUser, isEventOrganizer("id"), eventInvitations);
+
+/**
+ * @swagger
+ * /events/{id}/invitations/{invitationId}:
+ *   delete:
+ *     summary: Withdraw a personal invitation [ADMINS AND EVENT ORGANIZERS]
+ *     description: Registrations already made with the invitation are kept.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Invitation deleted
+ *       400:
+ *         description: Invalid id format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Invitation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.delete("/:id/invitations/:invitationId", authenticateUser, isEventOrganizer("id"), deleteInvitation);
+
+/**
+ * @swagger
+ * /events/{id}/invite-links:
+ *   post:
+ *     summary: Create a shareable invite link [ADMINS AND EVENT ORGANIZERS]
+ *     description: Anyone holding the link can register in the private event until it expires or reaches maxUses registrations.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               maxUses:
+ *                 type: ['integer', 'null']
+ *                 description: How many registrations the link allows, no limit by default
+ *               expiresAt:
+ *                 type: ['string', 'null']
+ *                 format: date-time
+ *                 description: Never expires by default
+ *     responses:
+ *       201:
+ *         description: Invite link created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 inviteLink:
+ *                   $ref: '#/components/schemas/InviteLink'
+ *       400:
+ *         description: Invalid body request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/:id/invite-links", authenticateUser, isEventOrganizer("id"), validateCreateInviteLinkReq, createEventInviteLink);
+
+/**
+ * @swagger
+ * /events/{id}/invite-links:
+ *   get:
+ *     summary: Get the invite links of the event, newest first [ADMINS AND EVENT ORGANIZERS]
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: Invite links returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 inviteLinks:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/InviteLink'
+ *       400:
+ *         description: Invalid id format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:id/invite-links", authenticateUser, isEventOrganizer("id"), eventInviteLinks);
+
+/**
+ * @swagger
+ * /events/{id}/invite-links/{linkId}:
+ *   delete:
+ *     summary: Revoke an invite link [ADMINS AND EVENT ORGANIZERS]
+ *     description: The link stops working, registrations already made with it are kept.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *       - in: path
+ *         name: linkId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invite link revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 inviteLink:
+ *                   $ref: '#/components/schemas/InviteLink'
+ *       400:
+ *         description: Invalid id format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Invite link not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.delete("/:id/invite-links/:linkId", authenticateUser, isEventOrganizer("id"), revokeEventInviteLink);
+
+/**
+ * @swagger
+ * /events/{eventId}/attendees/me/waitlist:
+ *   get:
+ *     summary: Get authenticated user position in the event waitlist
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: Waitlist status of the user, position is null if the user has a seat
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 isWaitlisted:
+ *                   type: boolean
+ *                 position:
+ *                   type: ['integer', 'null']
+ *                   example: 3
+ *       400:
+ *         description: Invalid Id Format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *             example:
+ *               message: "Invalid event id format"
+ *               errors: {}
+ *       404:
+ *         description: User is not registered to this event
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *             example:
+ *               message: "You are not registered to this event"
+ *               errors: {}
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:eventId/attendees/me/waitlist", authenticateUser, myWaitlistPosition);
+
+/**
+ * @swagger
+ * /events/{eventId}/attendees/me/ticket:
+ *   get:
+ *     summary: Get the signed ticket of the authenticated user for an event
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: Signed ticket token and its QR code rendering
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ticket:
+ *                   type: string
+ *                   description: Signed ticket token to be scanned at check-in
+ *                 qrCode:
+ *                   type: string
+ *                   description: PNG data URL of the QR code encoding the ticket
+ *                   example: "data:image/png;base64,iVBORw0KGgo..."
+ *       400:
+ *         description: Invalid Id Format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *             example:
+ *               message: "Invalid event id format"
+ *               errors: {}
+ *       403:
+ *         description: Registration is not approved yet or is still waitlisted
+ *       404:
+ *         description: User is not registered to this event
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *             example:
+ *               message: "You are not registered to this event"
+ *               errors: {}
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:eventId/attendees/me/ticket", authenticateUser, myTicket);
+
+/**
+ * @swagger
+ * /events/{eventId}/attendees/me/certificate:
+ *   get:
+ *     summary: Download the certificate of attendance of the current user as a PDF
+ *     description: Only for certificate eligible events and attendees whose ticket was scanned at the event.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: The certificate
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid id or the event doesn't issue certificates
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       403:
+ *         description: The attendee didn't check in at the event
+ *       404:
+ *         description: Event not found or not registered to it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.get("/:eventId/attendees/me/certificate", authenticateUser, myCertificate);
+
+/**
+ * @swagger
+ * /events/{eventId}/attendees/me/reschedule-response:
+ *   post:
+ *     summary: Confirm or withdraw from a rescheduled event
+ *     description: Withdrawing removes the registration and frees the seat for the waitlist.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - attend
+ *             properties:
+ *               attend:
+ *                 type: boolean
+ *                 description: true to keep the registration, false to withdraw
+ *     responses:
+ *       200:
+ *         description: Attendance confirmed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 attendee:
+ *                   $ref: '#/components/schemas/EventAttendee'
+ *       204:
+ *         description: Withdrawn from the event, a paid registration gets a refund request
+ *       400:
+ *         description: Validation error or no reschedule is waiting for a response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Not registered to this event
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.post("/:eventId/attendees/me/reschedule-response", authenticateUser, validateRescheduleResponseReq, respondToReschedule);
+
+/**
+ * @swagger
+ * /events/{eventId}/teams:
+ *   post:
+ *     summary: Create a team in a team event, the authenticated user becomes its captain
+ *     description: |
+ *       The user must already be registered in the event, so the age and eligibility rules apply to every member.
+ *       Other registered attendees join with the team invite code.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Unique within the event, case insensitive
+ *     responses:
+ *       201:
+ *         description: Team created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 team:
+ *                   $ref: '#/components/schemas/TeamDetails'
+ *       400:
+ *         description: Invalid body request, the name is taken or the event doesn't register teams
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       403:
+ *         description: The user isn't registered in the event
+ *       404:
+ *         description: Event not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       409:
+ *         description: The user is already in a team of this event
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/:eventId/teams", authenticateUser, validateCreateTeamReq, createEventTeam);
 
 /**
  * @swagger
- * /events/{eventId}/attendees:
+ * /events/{eventId}/teams/join:
  *   post:
- *     summary: Register authenticated user to event id
+ *     summary: Join a team with its invite code
+ *     description: The user must already be registered in the event and the team must have less than maxTeamSize members.
  *     tags: [Events]
  *     security:
  *       - bearerAuth: []
@@ -443,54 +2707,98 @@ router.delete("/:id", authenticateUser, isAdmin, deleteEvent);
  *           type: string
  *         description: Event ID
  *     requestBody:
+ *       required: true
  *       content:
- *         multipart/form-data:
+ *         application/json:
  *           schema:
  *             type: object
+ *             required:
+ *               - inviteCode
  *             properties:
- *               image:
+ *               inviteCode:
  *                 type: string
- *                 format: binary
- *                 description: An optional Receipt image for paid events (max size 10MB)
  *     responses:
- *       201:
- *         description: Register user to given event id
+ *       200:
+ *         description: Joined the team
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 attendee:
- *                   $ref: '#/components/schemas/EventAttendeePopulated'
+ *                 team:
+ *                   $ref: '#/components/schemas/TeamDetails'
  *       400:
- *         description: Invalid Id Format
+ *         description: The invite code is unknown, the team is full or the event doesn't register teams
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ValidationError'
  *             example:
- *               message: "Invalid event id format"
- *               errors: {}
+ *               message: "Validation Error"
+ *               errors: { inviteCode: "This team already has the maximum of 4 members" }
+ *       403:
+ *         description: The user isn't registered in the event
  *       404:
- *         description: Event Not Found | User is already registered to this event
+ *         description: Event not found
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/NotFoundError'
- *             example:
- *               message: "Event not found"
- *               errors: {}
+ *       409:
+ *         description: The user is already in a team of this event
  *       500:
  *         description: Internal server error
  */
+router.post("/:eventId/teams/join", authenticateUser, validateJoinTeamReq, joinEventTeam);
 
-router.post("/:eventId/attendees", authenticateUser, parseFormWithSingleImage(), attendEvent);
+/**
+ * @swagger
+ * /events/{eventId}/teams/me:
+ *   get:
+ *     summary: Get the team of the authenticated user
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: Team returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 team:
+ *                   $ref: '#/components/schemas/TeamDetails'
+ *       400:
+ *         description: Invalid event id format or the event doesn't register teams
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event not found or the user isn't in a team
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:eventId/teams/me", authenticateUser, myTeam);
 
 /**
  * @swagger
- * /events/{eventId}/attendees:
- *   delete:
- *     summary: Unregister authenticated user from event
+ * /events/{eventId}/teams/me/leave:
+ *   post:
+ *     summary: Leave your team
+ *     description: When the captain leaves the next member in joining order becomes captain, a team is deleted with its last member.
  *     tags: [Events]
  *     security:
  *       - bearerAuth: []
@@ -503,35 +2811,124 @@ router.post("/:eventId/attendees", authenticateUser, parseFormWithSingleImage(),
  *         description: Event ID
  *     responses:
  *       204:
- *         description: User registration cancelled successfully
+ *         description: Left the team
  *       400:
- *         description: Invalid Id Format
+ *         description: Invalid event id format or the event doesn't register teams
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ValidationError'
- *             example:
- *               message: "Invalid event id format"
- *               errors: {}
  *       404:
- *         description: User is not registered to this event
+ *         description: Event not found or the user isn't in a team
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/NotFoundError'
- *             example:
- *               message: "User is not registered to this event"
- *               errors: {}
  *       500:
  *         description: Internal server error
  */
-router.delete("/:eventId/attendees", authenticateUser, missEvent);
+router.post("/:eventId/teams/me/leave", authenticateUser, leaveMyTeam);
 
 /**
  * @swagger
- * /events/{eventId}/attendees:
+ * /events/{eventId}/teams/me/members/{userId}:
+ *   delete:
+ *     summary: Remove a member from your team [CAPTAIN ONLY]
+ *     description: The member keeps their registration in the event.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 team:
+ *                   $ref: '#/components/schemas/TeamDetails'
+ *       400:
+ *         description: Invalid event id format or the event doesn't register teams
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       403:
+ *         description: The user isn't the team captain
+ *       404:
+ *         description: Event not found, the user isn't in a team or the member isn't in it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.delete("/:eventId/teams/me/members/:userId", authenticateUser, removeMyTeamMember);
+
+/**
+ * @swagger
+ * /events/{eventId}/teams/me/invite-code:
+ *   post:
+ *     summary: Replace the invite code of your team [CAPTAIN ONLY]
+ *     description: The old code stops working, members who already joined stay.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: Invite code replaced
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 team:
+ *                   $ref: '#/components/schemas/TeamDetails'
+ *       400:
+ *         description: Invalid event id format or the event doesn't register teams
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       403:
+ *         description: The user isn't the team captain
+ *       404:
+ *         description: Event not found or the user isn't in a team
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/:eventId/teams/me/invite-code", authenticateUser, regenerateMyTeamInviteCode);
+
+/**
+ * @swagger
+ * /events/{eventId}/teams:
  *   get:
- *     summary: Get all the attendess of an event [ADMINS ONLY]
+ *     summary: Get the teams of the event with their members, oldest first [ADMINS AND EVENT ORGANIZERS]
  *     tags: [Events]
  *     security:
  *       - bearerAuth: []
@@ -542,9 +2939,105 @@ router.delete("/:eventId/attendees", authenticateUser, missEvent);
  *         schema:
  *           type: string
  *         description: Event ID
+ *       - in: query
+ *         name: complete
+ *         schema:
+ *           type: boolean
+ *         description: Only the teams that have, or don't have yet, minTeamSize members
  *     responses:
  *       200:
- *         description: User registration cancelled successfully
+ *         description: Teams returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 teams:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TeamDetails'
+ *       400:
+ *         description: Invalid event id format or the event doesn't register teams
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:eventId/teams", authenticateUser, isEventOrganizer("eventId"), eventTeams);
+
+/**
+ * @swagger
+ * /events/{eventId}/teams/{teamId}:
+ *   get:
+ *     summary: Get a team of the event with its members [ADMINS AND EVENT ORGANIZERS]
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Team returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 team:
+ *                   $ref: '#/components/schemas/TeamDetails'
+ *       400:
+ *         description: Invalid event id format or the event doesn't register teams
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event or team not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:eventId/teams/:teamId", authenticateUser, isEventOrganizer("eventId"), eventTeamById);
+
+/**
+ * @swagger
+ * /events/{eventId}/waitlist:
+ *   get:
+ *     summary: Get the waitlist of an event in FIFO order [ADMINS AND EVENT ORGANIZERS]
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: Waitlisted attendees ordered by registration time
  *         content:
  *           application/json:
  *             schema:
@@ -566,5 +3059,5 @@ router.delete("/:eventId/attendees", authenticateUser, missEvent);
  *       500:
  *         description: Internal server error
  */
-router.get("/:eventId/attendees", authenticateUser, isAdmin, eventAttendees);
+router.get("/:eventId/waitlist", authenticateUser, isEventOrganizer("eventId"), eventWaitlist);
 export default router;
@@ -0,0 +1,327 @@
+import { Router } from "express";
+import authenticateUser from "../middlewares/authenticateUser";
+import isAdmin from "../middlewares/isAdmin";
+import validateFinanceQueryReq from "../middlewares/validateFinanceQueryReq";
+import validateCreateAdjustmentReq from "../middlewares/validateCreateAdjustmentReq";
+import validateReviewRefundReq from "../middlewares/validateReviewRefundReq";
+import {
+    createAdjustment,
+    ledgerEntries,
+    outstandingRefundsReport,
+    refundRequests,
+    revenueReport,
+    reviewRefund,
+} from "../controllers/financeController";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Finance
+ *   description: Payment ledger, refunds and revenue reports of paid events
+ */
+
+/**
+ * @swagger
+ * /finance/ledger:
+ *   get:
+ *     summary: Get the ledger rows, oldest first [ADMINS ONLY]
+ *     tags: [Finance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: attendeeId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: kind
+ *         schema:
+ *           type: string
+ *           enum: [payment, refund, adjustment]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Ledger rows returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 entries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LedgerEntry'
+ *       400:
+ *         description: Invalid filters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/ledger", authenticateUser, isAdmin, validateFinanceQueryReq, ledgerEntries);
+
+/**
+ * @swagger
+ * /finance/adjustments:
+ *   post:
+ *     summary: Record a manual correction in the ledger [ADMINS ONLY]
+ *     description: Ledger rows are never edited, a wrong amount is fixed by adding an adjustment.
+ *     tags: [Finance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - eventId
+ *               - amount
+ *               - note
+ *             properties:
+ *               eventId:
+ *                 type: string
+ *               attendeeId:
+ *                 type: string
+ *                 description: The registration the correction is about, if any
+ *               amount:
+ *                 type: number
+ *                 description: Positive adds money, negative removes it
+ *                 example: -50
+ *               note:
+ *                 type: string
+ *                 example: "Bank fee charged on the transfer"
+ *     responses:
+ *       201:
+ *         description: Adjustment recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 entry:
+ *                   $ref: '#/components/schemas/LedgerEntry'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Event not found or attendee not registered to it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/adjustments", authenticateUser, isAdmin, validateCreateAdjustmentReq, createAdjustment);
+
+/**
+ * @swagger
+ * /finance/refunds:
+ *   get:
+ *     summary: Get refund requests, oldest first [ADMINS ONLY]
+ *     description: Requests are opened when a user withdraws from a paid event or a paid event is cancelled.
+ *     tags: [Finance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [requested, approved, rejected]
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Refund requests returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 refunds:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RefundRequest'
+ *       400:
+ *         description: Invalid filters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/refunds", authenticateUser, isAdmin, validateFinanceQueryReq, refundRequests);
+
+/**
+ * @swagger
+ * /finance/refunds/{refundId}/review:
+ *   post:
+ *     summary: Approve or reject a refund request [ADMINS ONLY]
+ *     description: Approving records the refund in the ledger, the amount can be lowered for partial refunds.
+ *     tags: [Finance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: refundId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - decision
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [approved, rejected]
+ *               amount:
+ *                 type: number
+ *                 description: Amount refunded when approving, defaults to the requested amount
+ *               note:
+ *                 type: string
+ *                 description: Required when rejecting
+ *     responses:
+ *       200:
+ *         description: Refund request reviewed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 refund:
+ *                   $ref: '#/components/schemas/RefundRequest'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Refund request not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       409:
+ *         description: The refund request was already reviewed
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/refunds/:refundId/review", authenticateUser, isAdmin, validateReviewRefundReq, reviewRefund);
+
+/**
+ * @swagger
+ * /finance/reports/revenue:
+ *   get:
+ *     summary: Get revenue per event [ADMINS ONLY]
+ *     tags: [Finance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only ledger rows recorded on or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only ledger rows recorded on or before this date
+ *     responses:
+ *       200:
+ *         description: Report returned successfully, highest net first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 report:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RevenueReport'
+ *       400:
+ *         description: Invalid filters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/reports/revenue", authenticateUser, isAdmin, validateFinanceQueryReq, revenueReport);
+
+/**
+ * @swagger
+ * /finance/reports/outstanding-refunds:
+ *   get:
+ *     summary: Get the refund requests waiting for a decision, per event [ADMINS ONLY]
+ *     tags: [Finance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Report returned successfully, largest amount first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 report:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/OutstandingRefundsReport'
+ *       400:
+ *         description: Invalid filters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/reports/outstanding-refunds", authenticateUser, isAdmin, validateFinanceQueryReq, outstandingRefundsReport);
+
+export default router;
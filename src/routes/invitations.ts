@@ -0,0 +1,140 @@
+import { Router } from "express";
+import authenticateUser from "../middlewares/authenticateUser";
+import { declineInvitationByToken, invitationByToken, inviteLinkByToken } from "../controllers/invitationController";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Invitations
+ *   description: Invitations and invite links to private events
+ */
+
+/**
+ * @swagger
+ * /invitations/links/{token}:
+ *   get:
+ *     summary: Preview the event of an invite link
+ *     description: Register with the token as inviteToken in POST /events/{eventId}/attendees.
+ *     tags: [Invitations]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The link can be used
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 event:
+ *                   $ref: '#/components/schemas/InvitedEvent'
+ *                 expiresAt:
+ *                   type: ['string', 'null']
+ *                   format: date-time
+ *                 remainingUses:
+ *                   type: ['integer', 'null']
+ *                   description: null when the link has no usage cap
+ *       400:
+ *         description: The link expired, reached its usage cap or was revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *             example:
+ *               message: "Validation Error"
+ *               errors: { inviteToken: "invite link has expired" }
+ *       404:
+ *         description: Invite link not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/links/:token", inviteLinkByToken);
+
+/**
+ * @swagger
+ * /invitations/{token}:
+ *   get:
+ *     summary: Open a personal invitation
+ *     description: |
+ *       The link sent in the invitation email, the invitation is marked opened on the first visit.
+ *       The invitee accepts it by registering in the event, people without an account register and verify one with the invited email first.
+ *     tags: [Invitations]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 invitation:
+ *                   $ref: '#/components/schemas/EventInvitation'
+ *                 event:
+ *                   $ref: '#/components/schemas/InvitedEvent'
+ *       404:
+ *         description: Invitation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:token", invitationByToken);
+
+/**
+ * @swagger
+ * /invitations/{token}/decline:
+ *   post:
+ *     summary: Decline a personal invitation
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation declined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 invitation:
+ *                   $ref: '#/components/schemas/EventInvitation'
+ *       403:
+ *         description: The invitation was sent to another email
+ *       404:
+ *         description: Invitation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       409:
+ *         description: The invitation is already accepted or declined
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/:token/decline", authenticateUser, declineInvitationByToken);
+
+export default router;
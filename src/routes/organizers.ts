@@ -0,0 +1,141 @@
+import { Router } from "express";
+import {
+    createOrganizerAssignment,
+    deleteOrganizerAssignmentById,
+    getAllOrganizerAssignments,
+} from "../controllers/organizerController";
+import validateAssignOrganizerReq from "../middlewares/validateAssignOrganizerReq";
+import authenticateUser from "../middlewares/authenticateUser";
+import isAdmin from "../middlewares/isAdmin";
+
+const router = Router();
+/**
+ * @swagger
+ * tags:
+ *   name: Organizers
+ *   description: Users managing single events or whole categories of events
+ */
+
+/**
+ * @swagger
+ * /organizers:
+ *   post:
+ *     summary: Make a user an organizer of an event or a category [ADMINS ONLY]
+ *     description: |
+ *       Organizers can edit, cancel and reschedule their events, manage their sessions,
+ *       review and export their attendees and look at their teams.
+ *       Category organizers can also create events in the category.
+ *     tags: [Organizers]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               eventId:
+ *                 type: string
+ *                 description: Send either eventId or categoryId
+ *               categoryId:
+ *                 type: string
+ *                 description: Send either eventId or categoryId
+ *     responses:
+ *       201:
+ *         description: Organizer assigned successfully, assigning the same scope twice returns the existing assignment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 assignment:
+ *                   $ref: '#/components/schemas/OrganizerAssignment'
+ *       400:
+ *         description: Invalid body request or the user, event or category doesn't exist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+router.post("/", authenticateUser, isAdmin, validateAssignOrganizerReq, createOrganizerAssignment);
+
+/**
+ * @swagger
+ * /organizers:
+ *   get:
+ *     summary: Get organizer assignments, newest first [ADMINS ONLY]
+ *     tags: [Organizers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: categoryId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Organizer assignments returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 assignments:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/OrganizerAssignment'
+ *       400:
+ *         description: Invalid id format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+router.get("/", authenticateUser, isAdmin, getAllOrganizerAssignments);
+
+/**
+ * @swagger
+ * /organizers/{id}:
+ *   delete:
+ *     summary: Remove an organizer assignment [ADMINS ONLY]
+ *     tags: [Organizers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Organizer assignment removed successfully
+ *       400:
+ *         description: Invalid id format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Organizer assignment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.delete("/:id", authenticateUser, isAdmin, deleteOrganizerAssignmentById);
+
+export default router;
@@ -0,0 +1,156 @@
+import { Router } from "express";
+import { completeMockCheckout, mockCheckoutSession, paymentWebhook } from "../controllers/paymentController";
+import authenticateUser from "../middlewares/authenticateUser";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Payments
+ *   description: Online payments of paid events
+ */
+
+/**
+ * @swagger
+ * /payments/webhook:
+ *   post:
+ *     summary: Receive a payment result from the payment gateway
+ *     description: |
+ *       Called by the gateway, not by clients. The request must carry the gateway signature, a successful payment
+ *       approves the registration. Repeated deliveries of the same result are ignored.
+ *     tags: [Payments]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Gateway specific payload
+ *     responses:
+ *       200:
+ *         description: Webhook processed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 received:
+ *                   type: boolean
+ *                 status:
+ *                   type: string
+ *                   enum: [pending, succeeded, failed]
+ *       400:
+ *         description: Missing or invalid signature
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Unknown checkout session
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       503:
+ *         description: Online payments are not configured
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/webhook", paymentWebhook);
+
+/**
+ * @swagger
+ * /payments/mock/checkout/{sessionId}:
+ *   get:
+ *     summary: Show a checkout session of the mock payment provider [DEVELOPMENT ONLY]
+ *     description: Needs ENABLE_MOCK_PAYMENTS=true, only the user paying can see the session.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The payment behind the checkout session
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 payment:
+ *                   $ref: '#/components/schemas/Payment'
+ *       404:
+ *         description: Unknown session, someone else's session, or mock payments are not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/mock/checkout/:sessionId", authenticateUser, mockCheckoutSession);
+
+/**
+ * @swagger
+ * /payments/mock/checkout/{sessionId}:
+ *   post:
+ *     summary: Pay or fail a checkout session of the mock payment provider [DEVELOPMENT ONLY]
+ *     description: |
+ *       Sends the same signed webhook a real gateway would send once the user leaves its checkout page.
+ *       Needs ENABLE_MOCK_PAYMENTS=true, only the user paying can complete the session.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - outcome
+ *             properties:
+ *               outcome:
+ *                 type: string
+ *                 enum: [succeeded, failed]
+ *     responses:
+ *       200:
+ *         description: Checkout completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 payment:
+ *                   $ref: '#/components/schemas/Payment'
+ *       400:
+ *         description: Invalid outcome
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Unknown session, someone else's session, or mock payments are not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       409:
+ *         description: The checkout session is already completed
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/mock/checkout/:sessionId", authenticateUser, completeMockCheckout);
+
+export default router;
@@ -0,0 +1,261 @@
+import { Router } from "express";
+import {
+    createPromoCode,
+    deletePromoCodeById,
+    getAllPromoCodes,
+    getPromoCodeById,
+    updatePromoCodeById,
+} from "../controllers/promoCodeController";
+import validateCreatePromoCodeReq from "../middlewares/validateCreatePromoCodeReq";
+import validateUpdatePromoCodeReq from "../middlewares/validateUpdatePromoCodeReq";
+import authenticateUser from "../middlewares/authenticateUser";
+import isAdmin from "../middlewares/isAdmin";
+
+const router = Router();
+/**
+ * @swagger
+ * tags:
+ *   name: Promo Codes
+ *   description: Discount codes for paid event tickets
+ */
+
+/**
+ * @swagger
+ * /promo-codes:
+ *   post:
+ *     summary: Create new promo code [ADMINS ONLY]
+ *     tags: [Promo Codes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - discountType
+ *               - discountValue
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: EARLY20
+ *               description:
+ *                 type: string
+ *               eventId:
+ *                 type: string
+ *                 description: Limit the code to one event
+ *               tierKeys:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Limit the code to some ticket tiers
+ *               discountType:
+ *                 type: string
+ *                 enum: [percent, fixed]
+ *               discountValue:
+ *                 type: number
+ *                 example: 20
+ *               maxUses:
+ *                 type: integer
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Promo code created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 promoCode:
+ *                   $ref: '#/components/schemas/PromoCode'
+ *       400:
+ *         description: Invalid body request or the code already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+router.post("/", authenticateUser, isAdmin, validateCreatePromoCodeReq, createPromoCode);
+
+/**
+ * @swagger
+ * /promo-codes:
+ *   get:
+ *     summary: Get all promo codes, newest first [ADMINS ONLY]
+ *     tags: [Promo Codes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *         description: Only the codes limited to this event
+ *     responses:
+ *       200:
+ *         description: Promo codes returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 promoCodes:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PromoCode'
+ *       400:
+ *         description: Invalid event id format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+router.get("/", authenticateUser, isAdmin, getAllPromoCodes);
+
+/**
+ * @swagger
+ * /promo-codes/{id}:
+ *   get:
+ *     summary: Get promo code by id [ADMINS ONLY]
+ *     tags: [Promo Codes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Promo code found successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 promoCode:
+ *                   $ref: '#/components/schemas/PromoCode'
+ *       400:
+ *         description: Invalid id format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Promo code not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.get("/:id", authenticateUser, isAdmin, getPromoCodeById);
+
+/**
+ * @swagger
+ * /promo-codes/{id}:
+ *   put:
+ *     summary: Update promo code [ADMINS ONLY]
+ *     description: discountType and discountValue are updated together. The code itself can't be changed.
+ *     tags: [Promo Codes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *               eventId:
+ *                 type: ['string', 'null']
+ *               tierKeys:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               discountType:
+ *                 type: string
+ *                 enum: [percent, fixed]
+ *               discountValue:
+ *                 type: number
+ *               maxUses:
+ *                 type: ['integer', 'null']
+ *               expiresAt:
+ *                 type: ['string', 'null']
+ *                 format: date-time
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Promo code updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 promoCode:
+ *                   $ref: '#/components/schemas/PromoCode'
+ *       400:
+ *         description: Invalid body request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Promo code not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.put("/:id", authenticateUser, isAdmin, validateUpdatePromoCodeReq, updatePromoCodeById);
+
+/**
+ * @swagger
+ * /promo-codes/{id}:
+ *   delete:
+ *     summary: Delete an unused promo code [ADMINS ONLY]
+ *     tags: [Promo Codes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Promo code deleted successfully
+ *       400:
+ *         description: Invalid id format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Promo code not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ *       409:
+ *         description: The code was already used, deactivate it instead
+ */
+router.delete("/:id", authenticateUser, isAdmin, deletePromoCodeById);
+
+export default router;
@@ -0,0 +1,221 @@
+import { Router } from "express";
+import {
+    createSpeaker,
+    deleteSpeakerById,
+    getAllSpeakers,
+    getSpeakerById,
+    updateSpeakerById,
+} from "../controllers/speakerController";
+import validateCreateSpeakerReq from "../middlewares/validateCreateSpeakerReq";
+import validateUpdateSpeakerReq from "../middlewares/validateUpdateSpeakerReq";
+import parseFormWithSingleImage from "../middlewares/parseFormWithSingleImage";
+import authenticateUser from "../middlewares/authenticateUser";
+import isAdmin from "../middlewares/isAdmin";
+
+const router = Router();
+/**
+ * @swagger
+ * tags:
+ *   name: Speakers
+ *   description: Speakers that can be assigned to event sessions
+ */
+
+/**
+ * @swagger
+ * /speakers:
+ *   post:
+ *     summary: Create new speaker
+ *     tags: [Speakers]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: The full name of the speaker
+ *               title:
+ *                 type: string
+ *                 description: The job title or affiliation of the speaker
+ *               bio:
+ *                 type: string
+ *                 description: A short biography of the speaker
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: An optional photo of the speaker (max size 10MB)
+ *     responses:
+ *       201:
+ *         description: Speaker created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 speaker:
+ *                   $ref: '#/components/schemas/Speaker'
+ *       400:
+ *         description: Invalid body request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+router.post("/", authenticateUser, isAdmin, parseFormWithSingleImage(), validateCreateSpeakerReq, createSpeaker);
+
+/**
+ * @swagger
+ * /speakers:
+ *   get:
+ *     summary: Get all speakers
+ *     tags: [Speakers]
+ *     responses:
+ *       200:
+ *         description: List of all speakers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 speakers:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Speaker'
+ */
+router.get("/", getAllSpeakers);
+
+/**
+ * @swagger
+ * /speakers/{id}:
+ *   get:
+ *     summary: Get a speaker by ID
+ *     tags: [Speakers]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: The speaker ID
+ *     responses:
+ *       200:
+ *         description: The speaker by id
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 speaker:
+ *                   $ref: '#/components/schemas/Speaker'
+ *       400:
+ *         description: Invalid Id Format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Speaker not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.get("/:id", getSpeakerById);
+
+/**
+ * @swagger
+ * /speakers/{id}:
+ *   put:
+ *     summary: Update a speaker by ID
+ *     tags: [Speakers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: The speaker ID
+ *     requestBody:
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               title:
+ *                 type: string
+ *               bio:
+ *                 type: string
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: Replaces the current photo of the speaker (max size 10MB)
+ *     responses:
+ *       200:
+ *         description: Speaker updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 speaker:
+ *                   $ref: '#/components/schemas/Speaker'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Speaker not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.put("/:id", authenticateUser, isAdmin, parseFormWithSingleImage(), validateUpdateSpeakerReq, updateSpeakerById);
+
+/**
+ * @swagger
+ * /speakers/{id}:
+ *   delete:
+ *     summary: Delete a speaker by ID
+ *     description: The speaker is also removed from every session they were assigned to.
+ *     tags: [Speakers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: The speaker ID
+ *     responses:
+ *       204:
+ *         description: Speaker deleted successfully
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Speaker not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.delete("/:id", authenticateUser, isAdmin, deleteSpeakerById);
+
+export default router;
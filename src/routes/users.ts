@@ -4,6 +4,7 @@ import isAdmin from "../middlewares/isAdmin";
 import {
     getAllUsers, getMe, updateMe, getUser, createUser, createUsers, deleteUser, updateUser,
 } from "../controllers/userController";
+import { myCalendarFeed, resetMyCalendarFeed } from "../controllers/calendarController";
 
 const router = Router();
 
@@ -229,6 +230,57 @@ router.get("/me", authenticateUser, getMe);
  */
 router.patch("/me", authenticateUser, updateMe);
 
+/**
+ * @swagger
+ * /users/me/calendar-feed:
+ *   get:
+ *     summary: Get the subscribable iCalendar feed url of the events the user is registered in
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Calendar feed url, it can be polled by calendar apps without authentication
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 url:
+ *                   type: string
+ *                   example: https://iti-events-server.onrender.com/api/v1/events/feeds/8f1c...e2/calendar.ics
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/me/calendar-feed", authenticateUser, myCalendarFeed);
+
+/**
+ * @swagger
+ * /users/me/calendar-feed:
+ *   post:
+ *     summary: Regenerate the calendar feed url, the old url stops working
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: New calendar feed url
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 url:
+ *                   type: string
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/me/calendar-feed", authenticateUser, resetMyCalendarFeed);
+
 /**
  * @swagger
  * /users/{id}:
@@ -8,6 +8,14 @@ import busLineRouter from "./busLines";
 import busPointRouter from "./busPoints";
 import busUsers from "./busUsers";
 import attendeeRouter from "./eventAttendees";
+import speakerRouter from "./speakers";
+import venueRouter from "./venues";
+import certificateRouter from "./certificates";
+import paymentRouter from "./payments";
+import financeRouter from "./finance";
+import promoCodeRouter from "./promoCodes";
+import invitationRouter from "./invitations";
+import organizerRouter from "./organizers";
 
 const router = Router();
 
@@ -17,6 +25,14 @@ router.use("/event-categories", eventCategoryRouter);
 router.use("/drivers", driverRouter);
 router.use("/events", eventRouter);
 router.use("/attendees", attendeeRouter);
+router.use("/speakers", speakerRouter);
+router.use("/venues", venueRouter);
+router.use("/certificates", certificateRouter);
+router.use("/payments", paymentRouter);
+router.use("/finance", financeRouter);
+router.use("/promo-codes", promoCodeRouter);
+router.use("/invitations", invitationRouter);
+router.use("/organizers", organizerRouter);
 router.use("/buses/lines", busLineRouter);
 router.use("/buses/points", busPointRouter);
 router.use("/buses/users", busUsers);
@@ -0,0 +1,239 @@
+import { Router } from "express";
+import {
+    createVenue,
+    deleteVenueById,
+    getAllVenues,
+    getVenueById,
+    updateVenueById,
+} from "../controllers/venueController";
+import validateCreateVenueReq from "../middlewares/validateCreateVenueReq";
+import validateUpdateVenueReq from "../middlewares/validateUpdateVenueReq";
+import authenticateUser from "../middlewares/authenticateUser";
+import isAdmin from "../middlewares/isAdmin";
+
+const router = Router();
+/**
+ * @swagger
+ * tags:
+ *   name: Venues
+ *   description: Venues and the rooms events can book
+ */
+
+/**
+ * @swagger
+ * /venues:
+ *   post:
+ *     summary: Create new venue [ADMINS ONLY]
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - address
+ *               - capacity
+ *             properties:
+ *               name:
+ *                 type: string
+ *               address:
+ *                 type: string
+ *               coordinates:
+ *                 type: object
+ *                 properties:
+ *                   latitude:
+ *                     type: number
+ *                   longitude:
+ *                     type: number
+ *               capacity:
+ *                 type: integer
+ *               accessibilityNotes:
+ *                 type: string
+ *               rooms:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/VenueRoom'
+ *     responses:
+ *       201:
+ *         description: Venue created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 venue:
+ *                   $ref: '#/components/schemas/Venue'
+ *       400:
+ *         description: Invalid body request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+router.post("/", authenticateUser, isAdmin, validateCreateVenueReq, createVenue);
+
+/**
+ * @swagger
+ * /venues:
+ *   get:
+ *     summary: Get all venues
+ *     tags: [Venues]
+ *     responses:
+ *       200:
+ *         description: List of all venues
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 venues:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Venue'
+ */
+router.get("/", getAllVenues);
+
+/**
+ * @swagger
+ * /venues/{id}:
+ *   get:
+ *     summary: Get a venue by ID
+ *     tags: [Venues]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: The venue ID
+ *     responses:
+ *       200:
+ *         description: The venue by id
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 venue:
+ *                   $ref: '#/components/schemas/Venue'
+ *       400:
+ *         description: Invalid Id Format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Venue not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.get("/:id", getVenueById);
+
+/**
+ * @swagger
+ * /venues/{id}:
+ *   put:
+ *     summary: Update a venue by ID [ADMINS ONLY]
+ *     description: Rooms still booked by upcoming events can't be removed.
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: The venue ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               address:
+ *                 type: string
+ *               coordinates:
+ *                 type: ['object', 'null']
+ *                 properties:
+ *                   latitude:
+ *                     type: number
+ *                   longitude:
+ *                     type: number
+ *               capacity:
+ *                 type: integer
+ *               accessibilityNotes:
+ *                 type: ['string', 'null']
+ *               rooms:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/VenueRoom'
+ *                 description: Replaces all the rooms of the venue
+ *     responses:
+ *       200:
+ *         description: Venue updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 venue:
+ *                   $ref: '#/components/schemas/Venue'
+ *       400:
+ *         description: Validation error or a removed room is still booked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Venue not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.put("/:id", authenticateUser, isAdmin, validateUpdateVenueReq, updateVenueById);
+
+/**
+ * @swagger
+ * /venues/{id}:
+ *   delete:
+ *     summary: Delete a venue by ID [ADMINS ONLY]
+ *     description: Venues used by events can't be deleted.
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: The venue ID
+ *     responses:
+ *       204:
+ *         description: Venue deleted successfully
+ *       400:
+ *         description: Invalid id or the venue is used by events
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Venue not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotFoundError'
+ */
+router.delete("/:id", authenticateUser, isAdmin, deleteVenueById);
+
+export default router;
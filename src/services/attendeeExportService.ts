@@ -0,0 +1,189 @@
+import { once } from "events";
+import { Writable } from "stream";
+import { FilterQuery } from "mongoose";
+import ExcelJS from "exceljs";
+import EventAttendee, { ReviewStatus } from "../models/EventAttendee";
+import IEventAttendee from "../types/EventAttendee";
+import RegistrationQuestion from "../types/RegistrationQuestion";
+import AttendeeExportFilters from "../types/AttendeeExport";
+import { reviewStatusFilter } from "./attendeeService";
+
+type Cell = string | number | boolean | Date | null;
+
+interface ExportColumn {
+    header: string;
+    key: string;
+    width: number;
+}
+
+interface ExportedUser {
+    firstName: string;
+    lastName: string;
+    email: string;
+    birthdate: Date;
+    emailVerified: boolean;
+}
+
+const COLUMNS: ExportColumn[] = [
+    { header: "Attendee ID", key: "attendeeId", width: 26 },
+    { header: "Event", key: "event", width: 30 },
+    { header: "First Name", key: "firstName", width: 16 },
+    { header: "Last Name", key: "lastName", width: 16 },
+    { header: "Email", key: "email", width: 30 },
+    { header: "Birthdate", key: "birthdate", width: 12 },
+    { header: "Email Verified", key: "emailVerified", width: 14 },
+    { header: "Status", key: "status", width: 12 },
+    { header: "Rejection Reason", key: "rejectionReason", width: 30 },
+    { header: "Reviewed At", key: "reviewedAt", width: 22 },
+    { header: "Receipt URL", key: "receiptUrl", width: 40 },
+    { header: "Registered At", key: "registeredAt", width: 22 },
+    { header: "Checked In At", key: "checkedInAt", width: 22 },
+    { header: "Checked In By", key: "checkedInBy", width: 30 },
+];
+
+export const buildAttendeeExportFilter = (filters: Omit<AttendeeExportFilters, "format">) => {
+    const filter: FilterQuery<IEventAttendee> = {};
+
+    if (filters.eventIds) {
+        filter.eventId = { $in: filters.eventId ? filters.eventIds.filter((id) => id === filters.eventId) : filters.eventIds };
+    } else if (filters.eventId) {
+        filter.eventId = filters.eventId;
+    }
+
+    if (filters.status === "approved") {
+        Object.assign(filter, reviewStatusFilter(ReviewStatus.Approved), { isWaitlisted: false });
+    } else if (filters.status === "pending" || filters.status === "rejected") {
+        Object.assign(filter, reviewStatusFilter(filters.status as ReviewStatus));
+    } else if (filters.status === "waitlisted") {
+        filter.isWaitlisted = true;
+    }
+
+    if (filters.checkedIn !== undefined) {
+        filter.checkedInAt = filters.checkedIn ? { $ne: null } : null;
+    }
+
+    if (filters.from || filters.to) {
+        filter.createdAt = {
+            ...(filters.from && { $gte: filters.from }),
+            ...(filters.to && { $lte: filters.to }),
+        };
+    }
+
+    return filter;
+};
+
+const getAttendeeStatus = (attendee: IEventAttendee) => {
+    if (attendee.isWaitlisted) {
+        return "waitlisted";
+    }
+    if (attendee.reviewStatus === ReviewStatus.Rejected) {
+        return "rejected";
+    }
+    return attendee.isApproved ? "approved" : "pending";
+};
+
+// answers of multi choice questions end up in a single cell
+const formatAnswer = (answer: unknown): Cell => {
+    if (answer === undefined || answer === null) {
+        return null;
+    }
+    return Array.isArray(answer) ? answer.join(", ") : answer as Cell;
+};
+
+const toRow = (attendee: IEventAttendee, questions: RegistrationQuestion[]) => {
+    const {
+        user, event, checkedInBy,
+    } = attendee as unknown as { user: ExportedUser | null, event: { name: string } | null, checkedInBy: { email: string } | null };
+
+    const row: { [key: string]: Cell } = {
+        attendeeId: attendee.id,
+        event: event?.name ?? null,
+        firstName: user?.firstName ?? null,
+        lastName: user?.lastName ?? null,
+        email: user?.email ?? null,
+        birthdate: user?.birthdate ?? null,
+        emailVerified: user?.emailVerified ?? null,
+        status: getAttendeeStatus(attendee),
+        rejectionReason: attendee.rejectionReason ?? null,
+        reviewedAt: attendee.reviewedAt ?? null,
+        receiptUrl: attendee.receipt?.imageUrl ?? null,
+        registeredAt: attendee.createdAt,
+        checkedInAt: attendee.checkedInAt,
+        checkedInBy: checkedInBy?.email ?? null,
+    };
+
+    questions.forEach((question) => {
+        row[`answer_${question.key}`] = formatAnswer(attendee.answers?.[question.key]);
+    });
+
+    return row;
+};
+
+const questionColumns = (questions: RegistrationQuestion[]): ExportColumn[] => questions.map((question) => ({
+    header: question.label,
+    key: `answer_${question.key}`,
+    width: 24,
+}));
+
+// leading =, +, - or @ would make spreadsheet apps evaluate user input as a formula
+const escapeCsvCell = (value: Cell) => {
+    if (value === null) {
+        return "";
+    }
+
+    let text = value instanceof Date ? value.toISOString() : String(value);
+    if (/^[=+\-@]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+};
+
+const writeLine = async (stream: Writable, line: string) => {
+    if (!stream.write(line)) {
+        await once(stream, "drain");
+    }
+};
+
+const findAttendees = (filter: FilterQuery<IEventAttendee>) => EventAttendee.find(filter)
+    .sort({ createdAt: 1 })
+    .populate("user", "firstName lastName email birthdate emailVerified")
+    .populate("event", "name")
+    .populate("checkedInBy", "email")
+    .cursor();
+
+/**
+ * Streams the matching attendees into `stream` one row at a time, so large exports never sit in memory.
+ * Pass the questions of an event registration form to get one column per answer.
+ */
+export const exportAttendees = async (
+    stream: Writable,
+    filters: AttendeeExportFilters,
+    questions: RegistrationQuestion[] = [],
+) => {
+    const columns = [...COLUMNS, ...questionColumns(questions)];
+    const cursor = findAttendees(buildAttendeeExportFilter(filters));
+
+    if (filters.format === "xlsx") {
+        const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream, useStyles: false, useSharedStrings: false });
+        const sheet = workbook.addWorksheet("Attendees");
+        sheet.columns = columns;
+
+        await cursor.eachAsync((attendee) => {
+            sheet.addRow(toRow(attendee, questions)).commit();
+        });
+
+        sheet.commit();
+        await workbook.commit();
+        return;
+    }
+
+    // the BOM makes Excel open the file as UTF-8
+    await writeLine(stream, `\uFEFF${columns.map(({ header }) => escapeCsvCell(header)).join(",")}\r\n`);
+
+    await cursor.eachAsync(async (attendee) => {
+        const row = toRow(attendee, questions);
+        await writeLine(stream, `${columns.map(({ key }) => escapeCsvCell(row[key])).join(",")}\r\n`);
+    });
+
+    stream.end();
+};
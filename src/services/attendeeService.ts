@@ -1,21 +1,172 @@
-import EventAttendee from "../models/EventAttendee";
+import { FilterQuery } from "mongoose";
+import EventAttendee, { PaymentMethod, ReviewStatus } from "../models/EventAttendee";
+import IEventAttendee from "../types/EventAttendee";
+import Receipt from "../types/Receipt";
+import { freeAttendeeSeat, reclaimAttendeeSeat } from "./eventService";
+import { sendRegistrationRejectedEmail } from "./emailService";
+import { recordPayment } from "./ledgerService";
+import { releaseTicket } from "./pricingService";
+import { removeTeamMember } from "./teamService";
+import { deleteImageFromCloud } from "../utils/cloudinary";
+
+export type ReviewDecision = ReviewStatus.Approved | ReviewStatus.Rejected;
+
+// attendees rejected before the review state existed only have isApproved false, so they still show as pending
+export const reviewStatusFilter = (status: ReviewStatus): FilterQuery<IEventAttendee> => {
+    if (status === ReviewStatus.Pending) {
+        return { isApproved: false, reviewStatus: { $ne: ReviewStatus.Rejected } };
+    }
+    if (status === ReviewStatus.Rejected) {
+        return { reviewStatus: ReviewStatus.Rejected };
+    }
+    return { isApproved: true };
+};
+
+// registrations made before the review state existed would load as approved, pending ones must stay pending
+export const backfillReviewStatus = async () => {
+    const [pending, approved] = await Promise.all([
+        EventAttendee.updateMany({ reviewStatus: { $exists: false }, isApproved: false }, { reviewStatus: ReviewStatus.Pending }),
+        EventAttendee.updateMany({ reviewStatus: { $exists: false }, isApproved: true }, { reviewStatus: ReviewStatus.Approved }),
+    ]);
+    return pending.modifiedCount + approved.modifiedCount;
+};
 
 export const getAllAttendees = async (isApproved: boolean | undefined = undefined) => {
     const attendees = await EventAttendee.find(isApproved !== undefined ? { isApproved } : {}).populate("user").populate("event");
     return attendees;
 };
 
+export const getPendingAttendees = async (filter: FilterQuery<IEventAttendee> = {}) => {
+    const attendees = await EventAttendee.find({ ...filter, ...reviewStatusFilter(ReviewStatus.Pending) }).populate("user").populate("event");
+    return attendees;
+};
+
 export const getAttendeeById = async (id: string) => {
     const attendee = await EventAttendee.findById(id).populate("user").populate("event");
     return attendee;
 };
 
-export const updateAttendeeApprovalStatus = async (attendeeId: string, isApproved: boolean) => {
-    const attendee = await EventAttendee.findByIdAndUpdate(attendeeId, { isApproved }, { new: true }).populate("user").populate("event");
+const buildReviewUpdate = (decision: ReviewDecision, reviewerId: string, reason: string | null) => ({
+    reviewStatus: decision,
+    isApproved: decision === ReviewStatus.Approved,
+    reviewedBy: reviewerId,
+    reviewedAt: new Date(),
+    rejectionReason: decision === ReviewStatus.Rejected ? reason : null,
+});
+
+const notifyRejectedAttendees = async (attendees: IEventAttendee[], reason: string | null) => {
+    const results = await Promise.allSettled(attendees.flatMap((attendee) => {
+        const { user, event } = attendee as unknown as { user: { email: string } | null, event: { id: string, name: string } | null };
+        return user && event ? [sendRegistrationRejectedEmail(user.email, event.id, event.name, reason)] : [];
+    }));
+
+    return {
+        sent: results.filter((result) => result.status === "fulfilled").length,
+        failed: results.filter((result) => result.status === "rejected").length,
+    };
+};
+
+// receipts are checked by hand, the payment is booked once an admin approves it
+const recordReceiptPayments = async (attendees: IEventAttendee[], reviewerId: string) => {
+    await Promise.all(attendees.map((attendee) => {
+        const { event } = attendee as unknown as { event: { isPaid: boolean, price: number } | null };
+
+        if (!event?.isPaid || attendee.paymentMethod === PaymentMethod.Online) {
+            return null;
+        }
+        return recordPayment(attendee, { amount: attendee.price ?? event.price, method: PaymentMethod.ReceiptUpload, recordedBy: reviewerId });
+    }));
+};
+
+// a rejected attendee gives the seat to the next in line and takes one back if approved later
+const moveReviewedSeats = async (previousAttendees: IEventAttendee[], decision: ReviewDecision) => {
+    await Promise.all(previousAttendees.map((attendee) => (
+        decision === ReviewStatus.Rejected ? freeAttendeeSeat(attendee) : reclaimAttendeeSeat(attendee)
+    )));
+};
+
+export const updateAttendeeReview = async (attendeeId: string, decision: ReviewDecision, reviewerId: string, reason: string | null = null) => {
+    const previousAttendee = await EventAttendee.findByIdAndUpdate(attendeeId, buildReviewUpdate(decision, reviewerId, reason));
+
+    if (!previousAttendee) {
+        return null;
+    }
+
+    await moveReviewedSeats([previousAttendee], decision);
+    const attendee = await getAttendeeById(attendeeId);
+
+    if (attendee && decision === ReviewStatus.Rejected) {
+        await notifyRejectedAttendees([attendee], reason);
+    }
+
+    if (attendee && decision === ReviewStatus.Approved) {
+        await recordReceiptPayments([attendee], reviewerId);
+    }
+
     return attendee;
 };
 
+/**
+ * Applies one decision to every matching attendee still waiting for it, so attendees already in that state
+ * are neither touched nor emailed again. Rejected users get the reason by email.
+ */
+export const reviewAttendees = async (
+    filter: FilterQuery<IEventAttendee>,
+    decision: ReviewDecision,
+    reviewerId: string,
+    reason: string | null = null,
+) => {
+    const attendees = await EventAttendee.find({ ...filter, reviewStatus: { $ne: decision } })
+        .populate("user", "email")
+        .populate("event", "name isPaid price");
+
+    const ids = attendees.map((attendee) => attendee.id);
+    await EventAttendee.updateMany({ _id: { $in: ids } }, buildReviewUpdate(decision, reviewerId, reason));
+    await moveReviewedSeats(attendees, decision);
+
+    if (decision === ReviewStatus.Approved) {
+        await recordReceiptPayments(attendees, reviewerId);
+    }
+
+    const notifications = decision === ReviewStatus.Rejected
+        ? await notifyRejectedAttendees(attendees, reason)
+        : { sent: 0, failed: 0 };
+
+    return { reviewed: ids.length, attendeeIds: ids, notifications };
+};
+
+// a new receipt sends the registration back to the review queue
+export const replaceAttendeeReceipt = async (attendee: IEventAttendee, receipt: Receipt) => {
+    const previousPublicId = attendee.receipt?.cloudinaryPublicId;
+    const isWaitlisted = await reclaimAttendeeSeat(attendee);
+
+    attendee.set({
+        receipt,
+        isWaitlisted,
+        paymentMethod: PaymentMethod.ReceiptUpload,
+        reviewStatus: ReviewStatus.Pending,
+        isApproved: false,
+        reviewedBy: null,
+        reviewedAt: null,
+        rejectionReason: null,
+    });
+    const updatedAttendee = await attendee.save();
+
+    if (previousPublicId) {
+        await deleteImageFromCloud(previousPublicId);
+    }
+
+    await updatedAttendee.populate("user");
+    await updatedAttendee.populate("event");
+    return updatedAttendee;
+};
+
 export const deleteAttendeeById = async (attendeeId: string) => {
     const attendee = await EventAttendee.findByIdAndDelete(attendeeId);
+    if (attendee) {
+        await releaseTicket(attendee.eventId.toString(), { tier: attendee.ticketTier, promoCode: attendee.promoCode });
+        await removeTeamMember(attendee.eventId.toString(), attendee.userId.toString());
+        await freeAttendeeSeat(attendee);
+    }
     return attendee;
 };
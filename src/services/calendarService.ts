@@ -0,0 +1,50 @@
+import crypto from "crypto";
+import Event, { EventStatus } from "../models/Event";
+import EventAttendee from "../models/EventAttendee";
+import User from "../models/User";
+import { buildCalendar, CalendarEvent } from "../utils/icalendar";
+import { publicEventFilter, publishedEventFilter } from "./eventService";
+
+type CalendarSourceEvent = InstanceType<typeof Event>;
+
+const toCalendarEvent = (event: CalendarSourceEvent): CalendarEvent => ({
+    uid: `${event.id}@iti-events`,
+    summary: event.name,
+    description: event.description,
+    start: event.startDate,
+    end: event.endDate,
+    sequence: event.sequence,
+    lastModified: event.updatedAt,
+    cancelled: !event.isActive || event.status === EventStatus.Cancelled,
+    url: `${process.env.BASE_URL_FRONTEND}/events/${event.id}`,
+});
+
+export const buildEventCalendar = (event: CalendarSourceEvent) => buildCalendar(event.name, [toCalendarEvent(event)]);
+
+export const buildUpcomingEventsCalendar = async () => {
+    const events = await Event.find({
+        startDate: { $gt: new Date() }, isActive: true, ...publishedEventFilter(), ...publicEventFilter(),
+    }).sort({ startDate: 1 });
+    return buildCalendar("ITI Upcoming Events", events.map(toCalendarEvent));
+};
+
+export const buildUserCalendar = async (userId: string) => {
+    const attendees = await EventAttendee.find({ userId }).populate<{ event: CalendarSourceEvent | null }>("event");
+    const events = attendees
+        .map((attendee) => attendee.event)
+        .filter((event): event is CalendarSourceEvent => event !== null);
+    return buildCalendar("My ITI Events", events.map(toCalendarEvent));
+};
+
+export const getCalendarFeedUrl = (token: string) => `${process.env.BASE_URL}/events/feeds/${token}/calendar.ics`;
+
+export const regenerateCalendarToken = async (userId: string) => {
+    const token = crypto.randomBytes(32).toString("hex");
+    await User.updateOne({ _id: userId }, { calendarToken: token });
+    return token;
+};
+
+export const findUserByCalendarToken = async (token: string) => {
+    const user = await User.findOne({ calendarToken: token });
+    return user;
+};
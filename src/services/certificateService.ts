@@ -0,0 +1,95 @@
+import crypto from "crypto";
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import Certificate, { ICertificate } from "../models/Certificate";
+import IEventAttendee from "../types/EventAttendee";
+import { UserAttributes } from "../types/User";
+
+export const CERTIFICATE_CODE_PATTERN = /^[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}$/;
+
+type CertifiedEvent = { id?: string, name: string, startDate: Date, timezone: string };
+
+// 12 hex characters in groups of 4, easy to read out loud or type from a printed certificate
+const generateCertificateCode = () => crypto.randomBytes(6).toString("hex").toUpperCase().replace(/(.{4})(?!$)/g, "$1-");
+
+export const getCertificateVerificationUrl = (code: string) => `${process.env.BASE_URL}/certificates/verify/${code}`;
+
+export const findCertificateByCode = async (code: string) => {
+    const certificate = await Certificate.findOne({ code: code.toUpperCase() });
+    return certificate;
+};
+
+// a certificate is issued once per attendee, downloading it again returns the same code
+export const issueCertificate = async (attendee: IEventAttendee, user: Pick<UserAttributes, "firstName" | "lastName">, event: CertifiedEvent) => {
+    const existing = await Certificate.findOne({ attendeeId: attendee.id });
+
+    if (existing) {
+        return existing;
+    }
+
+    try {
+        const certificate = await Certificate.create({
+            code: generateCertificateCode(),
+            attendeeId: attendee.id,
+            eventId: event.id,
+            userId: attendee.userId,
+            recipientName: `${user.firstName} ${user.lastName}`,
+            eventName: event.name,
+            eventDate: event.startDate,
+            eventTimezone: event.timezone,
+        });
+        return certificate;
+    } catch (err) {
+        // the same attendee downloading twice at once
+        if ((err as { code?: number }).code === 11000) {
+            const certificate = await Certificate.findOne({ attendeeId: attendee.id });
+            if (certificate) {
+                return certificate;
+            }
+        }
+        throw err;
+    }
+};
+
+// returns the PDF as a stream, the caller pipes it to the response
+export const renderCertificate = async (certificate: ICertificate) => {
+    const verificationUrl = getCertificateVerificationUrl(certificate.code);
+    const qrCode = await QRCode.toBuffer(verificationUrl, { margin: 1, width: 240 });
+    const eventDate = new Intl.DateTimeFormat("en-GB", { dateStyle: "long", timeZone: certificate.eventTimezone })
+        .format(certificate.eventDate);
+
+    // text, font, size and color of each centered line
+    const lines: [string, string, number, string][] = [
+        ["Certificate of Attendance", "Helvetica-Bold", 34, "#8b1538"],
+        ["This is to certify that", "Helvetica", 16, "#333333"],
+        [certificate.recipientName, "Helvetica-Bold", 28, "#000000"],
+        ["has attended", "Helvetica", 16, "#333333"],
+        [certificate.eventName, "Helvetica-Bold", 22, "#000000"],
+        [`held on ${eventDate}`, "Helvetica", 16, "#333333"],
+    ];
+
+    const doc = new PDFDocument({ size: "A4", layout: "landscape", margin: 60 });
+    const { width, height } = doc.page;
+
+    doc.lineWidth(3);
+    doc.rect(30, 30, width - 60, height - 60).stroke("#8b1538");
+    doc.moveDown(2);
+
+    lines.forEach(([text, font, size, color]) => {
+        doc.font(font);
+        doc.fontSize(size);
+        doc.fillColor(color);
+        doc.text(text, { align: "center" });
+        doc.moveDown(0.8);
+    });
+
+    doc.image(qrCode, 70, height - 170, { width: 100 });
+    doc.font("Helvetica");
+    doc.fontSize(10);
+    doc.fillColor("#555555");
+    doc.text(`Verification code: ${certificate.code}`, 185, height - 140);
+    doc.text(`Verify at ${verificationUrl}`, 185, height - 124);
+
+    doc.end();
+    return doc;
+};
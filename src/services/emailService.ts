@@ -1,6 +1,6 @@
 import crypto from "crypto";
 import UserToken from "../models/UserToken";
-import sendEmail from "../utils/sendEmail";
+import sendEmail, { MailTransport } from "../utils/sendEmail";
 import asyncWrapper from "../utils/asyncWrapper";
 
 const generateToken = () => crypto.randomBytes(32).toString("hex");
@@ -56,3 +56,75 @@ export const sendResetPasswordEmail = async (userId: string, email: string) => {
 
     console.log("Password reset email sent successfully");
 };
+
+export const sendEventCancelledEmail = async (email: string, eventName: string, reason: string, needsRefund: boolean) => {
+    const emailSubject = `${eventName} has been cancelled`;
+    const refundText = needsRefund ? " Your payment will be refunded, we will contact you with the details." : "";
+    const emailText = `We're sorry to let you know that ${eventName} has been cancelled. Reason: ${reason}.${refundText}`;
+
+    await sendEmail(email, emailSubject, emailText);
+};
+
+export const sendEventRescheduledEmail = async (email: string, eventId: string, eventName: string, startDate: string, reason: string) => {
+    const eventLink = `${process.env.BASE_URL_FRONTEND}/events/${eventId}`;
+
+    const emailSubject = `${eventName} has been rescheduled`;
+    const emailText = `${eventName} has been rescheduled to ${startDate}. Reason: ${reason}. `
+        + `Please confirm that you will still attend, or withdraw your registration, on the following link: ${eventLink}`;
+
+    await sendEmail(email, emailSubject, emailText);
+};
+
+export const sendEventReminderEmail = async (
+    email: string,
+    firstName: string,
+    eventName: string,
+    details: string[],
+    ticket: string,
+    qrCode: string,
+    transport?: MailTransport,
+) => {
+    const emailSubject = `Reminder: ${eventName}`;
+    const emailText = [
+        `Hi ${firstName}, this is a reminder that you are attending ${eventName}.`,
+        "",
+        ...details,
+        "",
+        "Show the attached QR code at the entrance, or use your ticket code:",
+        ticket,
+    ].join("\n");
+
+    await sendEmail(email, emailSubject, emailText, [{ filename: "ticket.png", path: qrCode }], transport);
+};
+
+export const sendRegistrationRejectedEmail = async (email: string, eventId: string, eventName: string, reason: string | null) => {
+    const eventLink = `${process.env.BASE_URL_FRONTEND}/events/${eventId}`;
+
+    const emailSubject = `Your registration to ${eventName} was rejected`;
+    const emailText = `Your registration to ${eventName} was rejected. Reason: ${reason ?? "no reason was given"}. `
+        + `If your payment receipt was the problem, you can upload a corrected one on the following link: ${eventLink}`;
+
+    await sendEmail(email, emailSubject, emailText);
+};
+
+export const sendWaitlistPaymentEmail = async (email: string, eventId: string, eventName: string) => {
+    const eventLink = `${process.env.BASE_URL_FRONTEND}/events/${eventId}`;
+
+    const emailSubject = `A seat at ${eventName} is yours`;
+    const emailText = `A seat at ${eventName} freed up and you were moved off the waitlist. `
+        + `Your registration is approved once you pay for it on the following link: ${eventLink}`;
+
+    await sendEmail(email, emailSubject, emailText);
+};
+
+export const sendEventInvitationEmail = async (email: string, eventName: string, token: string, hasAccount: boolean) => {
+    const invitationLink = `${process.env.BASE_URL_FRONTEND}/invitations/${token}`;
+
+    const emailSubject = `You're invited to ${eventName}`;
+    const emailText = hasAccount
+        ? `You have been invited to ${eventName}, a private event. See the details and register on the following link: ${invitationLink}`
+        : `You have been invited to ${eventName}, a private event. Please register an account with this email and verify it first, `
+            + `then see the event details and register on the following link: ${process.env.BASE_URL_FRONTEND}/register?invitation=${token}`;
+
+    await sendEmail(email, emailSubject, emailText);
+};
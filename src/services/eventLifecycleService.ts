@@ -0,0 +1,61 @@
+import { Types } from "mongoose";
+import Event, { EventStatus } from "../models/Event";
+import EventAttendee, { ReviewStatus } from "../models/EventAttendee";
+
+const PUBLISHING_INTERVAL_MS = 60 * 1000;
+
+// events created before the lifecycle was introduced have no status stored, they were all public
+export const backfillEventStatus = async () => {
+    const result = await Event.updateMany({ status: { $exists: false } }, { status: EventStatus.Published });
+    return result.modifiedCount;
+};
+
+// seats taken before attendeesCount existed were never counted, every registration off the waitlist holds one
+export const backfillAttendeesCount = async () => {
+    const events = await Event.find({}, "attendeesCount");
+    const counts = await EventAttendee.aggregate<{ eventId: Types.ObjectId, count: number }>([
+        { $match: { isWaitlisted: { $ne: true }, reviewStatus: { $ne: ReviewStatus.Rejected } } },
+        { $group: { _id: "$eventId", count: { $sum: 1 } } },
+        { $project: { eventId: "$_id", count: 1 } },
+    ]);
+    const countByEvent = new Map(counts.map(({ eventId, count }) => [String(eventId), count]));
+
+    const updates = events
+        .filter((event) => event.attendeesCount !== (countByEvent.get(event.id) ?? 0))
+        .map((event) => ({
+            updateOne: { filter: { _id: event.id }, update: { attendeesCount: countByEvent.get(event.id) ?? 0 } },
+        }));
+
+    if (!updates.length) {
+        return 0;
+    }
+
+    const result = await Event.bulkWrite(updates);
+    return result.modifiedCount;
+};
+
+// updateMany skips the save hook, so the calendar SEQUENCE is bumped here
+export const publishDueEvents = async (now: Date = new Date()) => {
+    const result = await Event.updateMany(
+        { status: EventStatus.Scheduled, publishAt: { $lte: now } },
+        { status: EventStatus.Published, $inc: { sequence: 1 } },
+    );
+    return result.modifiedCount;
+};
+
+export const startEventPublishingJob = async () => {
+    await backfillEventStatus();
+
+    const publish = () => publishDueEvents()
+        .then((count) => {
+            if (count) {
+                console.log(`Published ${count} scheduled event(s)`);
+            }
+        })
+        .catch((err) => {
+            console.error("Couldn't publish scheduled events:", err);
+        });
+
+    await publish();
+    return setInterval(publish, PUBLISHING_INTERVAL_MS);
+};
@@ -0,0 +1,89 @@
+import Event, { EventStatus, ScheduleChangeKind } from "../models/Event";
+import EventAttendee, { RescheduleResponse } from "../models/EventAttendee";
+import User from "../models/User";
+import { requestEventRefunds } from "./refundService";
+import { shiftEventSessions } from "./sessionService";
+import { sendEventCancelledEmail, sendEventRescheduledEmail } from "./emailService";
+import { formatInTimeZone } from "../utils/timezone";
+
+type EventDocument = InstanceType<typeof Event>;
+
+// a failed email shouldn't undo the change, so failures are only counted
+const emailEventAttendees = async (eventId: string, send: (email: string, needsRefund: boolean) => Promise<void>) => {
+    const attendees = await EventAttendee.find({ eventId });
+    const users = await User.find({ _id: { $in: attendees.map((attendee) => attendee.userId) } }, "email");
+    const emails = new Map(users.map((user) => [user.id, user.email]));
+
+    const results = await Promise.allSettled(attendees.flatMap((attendee) => {
+        const email = emails.get(attendee.userId.toString());
+        return email ? [send(email, attendee.needsRefund)] : [];
+    }));
+
+    return {
+        sent: results.filter((result) => result.status === "fulfilled").length,
+        failed: results.filter((result) => result.status === "rejected").length,
+    };
+};
+
+export const cancelEvent = async (event: EventDocument, reason: string, changedBy: string) => {
+    event.scheduleChanges.push({
+        kind: ScheduleChangeKind.Cancellation,
+        reason,
+        previousStartDate: event.startDate,
+        previousDuration: event.duration,
+        startDate: null,
+        duration: null,
+        changedBy,
+        changedAt: new Date(),
+    });
+    event.status = EventStatus.Cancelled;
+    const cancelledEvent = await event.save();
+
+    // every registration that paid, or uploaded a receipt, gets a refund request to review
+    const refunds = await requestEventRefunds(event.id, event);
+
+    const notifications = await emailEventAttendees(event.id, (email, needsRefund) => sendEventCancelledEmail(
+        email,
+        event.name,
+        reason,
+        needsRefund,
+    ));
+
+    return { event: cancelledEvent, refunds, notifications };
+};
+
+// the agenda moves along with the event, the caller makes sure it still fits the new duration
+export const rescheduleEvent = async (event: EventDocument, startDate: Date, duration: number, reason: string, changedBy: string) => {
+    const shiftMs = startDate.getTime() - event.startDate.getTime();
+
+    event.scheduleChanges.push({
+        kind: ScheduleChangeKind.Reschedule,
+        reason,
+        previousStartDate: event.startDate,
+        previousDuration: event.duration,
+        startDate,
+        duration,
+        changedBy,
+        changedAt: new Date(),
+    });
+    event.startDate = startDate;
+    event.duration = duration;
+    const rescheduledEvent = await event.save();
+
+    if (shiftMs) {
+        await shiftEventSessions(event.id, shiftMs);
+    }
+
+    // reminders are due again relative to the new start date
+    await EventAttendee.updateMany({ eventId: event.id }, { rescheduleResponse: RescheduleResponse.Pending, remindersSent: [] });
+
+    const notifications = await emailEventAttendees(event.id, (email) => sendEventRescheduledEmail(
+        email,
+        event.id,
+        event.name,
+        formatInTimeZone(startDate, event.timezone),
+        reason,
+    ));
+
+    return { event: rescheduledEvent, notifications };
+};
@@ -0,0 +1,136 @@
+import Event, { EVENT_STATUS_TRANSITIONS, EventStatus } from "../models/Event";
+import EventSeries from "../models/EventSeries";
+import RecurrenceRule from "../types/Recurrence";
+import { promoteWaitlistedAttendees } from "./eventService";
+import { cancelEvent } from "./eventScheduleService";
+import {
+    applyEventUpdate, getBookedStartDates, parseZonedDates, toVenueBooking,
+} from "./eventUpdateService";
+import { checkVenueBooking } from "./venueService";
+import Errors from "../types/Errors";
+import { TIER_DATE_FIELDS } from "../utils/ticketTiers";
+
+const shiftDates = (data: { [key: string]: unknown }, fields: string[], shiftMs: number) => {
+    const shifted: { [key: string]: Date } = {};
+    fields.forEach((field) => {
+        const value = data[field];
+        if (value instanceof Date) {
+            shifted[field] = new Date(value.getTime() + shiftMs);
+        }
+    });
+    return shifted;
+};
+
+// every occurrence opens and closes registration, and ticket sales, at the same distance from its own start
+const shiftRegistrationWindow = (eventData: { [key: string]: unknown }, shiftMs: number) => ({
+    ...shiftDates(eventData, ["registrationOpensAt", "registrationClosesAt"], shiftMs),
+    ...(Array.isArray(eventData.ticketTiers) && {
+        ticketTiers: eventData.ticketTiers.map((tier) => ({ ...tier, ...shiftDates(tier, TIER_DATE_FIELDS, shiftMs) })),
+    }),
+});
+
+export const createEventSeries = async (eventData: { [key: string]: unknown }, recurrence: RecurrenceRule, startDates: Date[]) => {
+    const series = await EventSeries.create({ name: eventData.name, recurrence });
+
+    try {
+        const firstStart = startDates[0].getTime();
+        const events = await Event.create(startDates.map((startDate) => ({
+            ...eventData,
+            ...shiftRegistrationWindow(eventData, startDate.getTime() - firstStart),
+            startDate,
+            series: series.id,
+        })));
+        return { series, events };
+    } catch (err) {
+        await Event.deleteMany({ series: series.id });
+        await EventSeries.deleteOne({ _id: series.id });
+        throw err;
+    }
+};
+
+export const getEventSeries = async (seriesId: string) => {
+    const series = await EventSeries.findById(seriesId);
+    return series;
+};
+
+export const getSeriesOccurrences = async (seriesId: string) => {
+    const events = await Event.find({ series: seriesId }).sort({ startDate: 1 }).populate("category");
+    return events;
+};
+
+// occurrences that series wide edits still apply to
+export const getUpcomingOccurrences = async (seriesId: string) => {
+    const events = await Event.find({ series: seriesId, isSeriesException: false, startDate: { $gt: new Date() } }).sort({ startDate: 1 });
+    return events;
+};
+
+/**
+ * Applies the changes to every upcoming occurrence with the same checks as a single event update. Dates are
+ * meant for the first upcoming occurrence, the registration window and ticket sales move along for the later ones.
+ * Nothing is saved when an occurrence refuses the changes.
+ */
+export const updateUpcomingOccurrences = async (
+    seriesId: string,
+    changes: { [key: string]: unknown },
+): Promise<{ errors: Errors } | { events: InstanceType<typeof Event>[], warnings: string[] }> => {
+    const events = await getUpcomingOccurrences(seriesId);
+    const firstStart = events[0]?.startDate.getTime();
+
+    const updateErrors = await Promise.all(events.map((event) => {
+        const occurrenceChanges = {
+            ...changes,
+            ...(Array.isArray(changes.ticketTiers) && { ticketTiers: changes.ticketTiers.map((tier) => ({ ...tier })) }),
+        };
+        parseZonedDates(occurrenceChanges, (changes.timezone as string | undefined) ?? event.timezone);
+        Object.assign(occurrenceChanges, shiftRegistrationWindow(occurrenceChanges, event.startDate.getTime() - firstStart));
+
+        return applyEventUpdate(event, occurrenceChanges);
+    }));
+
+    const errors = updateErrors.find(Boolean);
+
+    if (errors) {
+        return { errors };
+    }
+
+    const occurrenceIds = events.map((event) => event.id);
+    const bookings = await Promise.all(events.map((event) => checkVenueBooking(
+        toVenueBooking(event, getBookedStartDates(event)),
+        occurrenceIds,
+    )));
+    const bookingErrors = bookings.find((booking) => booking.errors)?.errors;
+
+    if (bookingErrors) {
+        return { errors: bookingErrors };
+    }
+
+    const updatedEvents = await Promise.all(events.map((event) => event.save()));
+
+    if (changes.capacity !== undefined) {
+        await Promise.all(updatedEvents.map((event) => promoteWaitlistedAttendees(event.id)));
+    }
+
+    if (typeof changes.name === "string") {
+        await EventSeries.updateOne({ _id: seriesId }, { name: changes.name });
+    }
+
+    return { events: updatedEvents, warnings: [...new Set(bookings.flatMap((booking) => booking.warnings))] };
+};
+
+const CANCELLABLE_STATUSES = Object.values(EventStatus).filter((status) => EVENT_STATUS_TRANSITIONS[status].includes(EventStatus.Cancelled));
+
+// each occurrence is cancelled like a single event, its attendees are emailed and paid registrations get refund requests
+export const cancelUpcomingOccurrences = async (seriesId: string, reason: string, changedBy: string) => {
+    const events = await Event.find({ series: seriesId, status: { $in: CANCELLABLE_STATUSES }, startDate: { $gt: new Date() } });
+
+    const results = await Promise.all(events.map((event) => cancelEvent(event, reason, changedBy)));
+
+    return {
+        events: results.map((result) => result.event),
+        refunds: results.reduce((sum, result) => sum + result.refunds, 0),
+        notifications: {
+            sent: results.reduce((sum, result) => sum + result.notifications.sent, 0),
+            failed: results.reduce((sum, result) => sum + result.notifications.failed, 0),
+        },
+    };
+};
@@ -1,14 +1,142 @@
-import { isValidObjectId } from "mongoose";
-import EventAttendee from "../models/EventAttendee";
-import Event from "../models/Event";
+import { FilterQuery, isValidObjectId, SortOrder } from "mongoose";
+import EventAttendee, { PaymentMethod, ReviewStatus } from "../models/EventAttendee";
+import Event, {
+    EligibleUser, EventStatus, EventVisibility, getEmailDomains, isMeetingWindowOpen, MeetingWindow,
+} from "../models/Event";
+import User, { UserRole } from "../models/User";
 import Receipt from "../types/Receipt";
+import IEventAttendee from "../types/EventAttendee";
+import EventSearchFilters from "../types/EventSearch";
 import { deleteImageFromCloud } from "../utils/cloudinary";
+import { AttendeeTicket, releaseTicket } from "./pricingService";
+import { removeTeamMember } from "./teamService";
+import { sendWaitlistPaymentEmail } from "./emailService";
+import { hasEventInvitation } from "./invitationService";
+import { organizesEvent } from "./organizerService";
+
+export const publishedEventFilter = (now: Date = new Date()) => ({
+    $or: [
+        { status: EventStatus.Published },
+        { status: EventStatus.Scheduled, publishAt: { $lte: now } },
+    ],
+});
+
+type EventPublication = { status: EventStatus, publishAt: Date | null };
+
+// scheduled events count as published once their publish time passes, even before the publishing job flips their status
+export const isEventPublished = (event: EventPublication, now: Date = new Date()) => event.status === EventStatus.Published
+    || (event.status === EventStatus.Scheduled && event.publishAt !== null && event.publishAt <= now);
+
+// unpublished events are hidden from non admins, cancelled and archived events are still reachable by id
+export const isEventVisible = (event: EventPublication) => ![EventStatus.Draft, EventStatus.Scheduled].includes(event.status)
+    || isEventPublished(event);
+
+// the query counterpart of evaluateEligibility, events without rules also match
+export const eligibleEventFilter = (user: EligibleUser) => {
+    const conditions: FilterQuery<typeof Event>[] = [
+        { "eligibility.deniedUsers": { $ne: user.id } },
+        {
+            $or: [
+                { "eligibility.allowedUsers": user.id },
+                {
+                    "eligibility.allowedRoles": { $in: [null, [], user.role] },
+                    "eligibility.emailDomains": { $in: [null, [], ...getEmailDomains(user.email)] },
+                },
+            ],
+        },
+    ];
+
+    if (!user.emailVerified) {
+        conditions.push({ "eligibility.requireVerifiedEmail": { $ne: true } });
+    }
+
+    return { $and: conditions };
+};
+
+// private events are only reachable through invitations, they are left out of every public listing
+export const publicEventFilter = () => ({ visibility: { $ne: EventVisibility.Private } });
+
+// besides private events, admins and anonymous visitors see every listed event, other users only the ones they can register in
+const listingFilter = (user?: EligibleUser) => ({
+    ...publicEventFilter(),
+    ...(user && user.role !== UserRole.Admin && eligibleEventFilter(user)),
+});
 
 export const getAllEventsService = async (isActive: boolean | undefined = undefined) => {
     const events = await Event.find(isActive !== undefined ? { isActive } : {}).sort({ startDate: 1 }).populate("category");
     return events;
 };
 
+export const getListedActiveEvents = async (user?: EligibleUser) => {
+    const events = await Event.find({ isActive: true, ...publishedEventFilter(), ...listingFilter(user) }).sort({ startDate: 1 }).populate("category");
+    return events;
+};
+
+export const searchEventsService = async (filters: EventSearchFilters, user?: EligibleUser) => {
+    const now = new Date();
+    const timingConditions = {
+        upcoming: { startDate: { $gt: now } },
+        happening: { startDate: { $lte: now }, endDate: { $gte: now } },
+        finished: { endDate: { $lt: now } },
+    };
+    const conditions: FilterQuery<typeof Event>[] = [{ isActive: true }, publishedEventFilter(now), listingFilter(user)];
+
+    if (filters.q) {
+        conditions.push({ $text: { $search: filters.q } });
+    }
+    if (filters.category) {
+        conditions.push({ category: filters.category });
+    }
+    if (filters.timing) {
+        conditions.push(timingConditions[filters.timing]);
+    }
+    if (filters.from) {
+        conditions.push({ startDate: { $gte: filters.from } });
+    }
+    if (filters.to) {
+        conditions.push({ startDate: { $lte: filters.to } });
+    }
+    if (filters.isPaid !== undefined) {
+        conditions.push({ isPaid: filters.isPaid });
+    }
+    if (filters.minPrice !== undefined) {
+        conditions.push({ price: { $gte: filters.minPrice } });
+    }
+    if (filters.maxPrice !== undefined) {
+        conditions.push({ price: { $lte: filters.maxPrice } });
+    }
+    if (filters.age !== undefined) {
+        conditions.push({ minAge: { $lte: filters.age }, maxAge: { $gte: filters.age } });
+    }
+
+    const query = { $and: conditions };
+    const sort: { [key: string]: SortOrder | { $meta: "textScore" } } = filters.sort === "relevance"
+        ? { score: { $meta: "textScore" } }
+        : { [filters.sort.replace(/^-/, "")]: filters.sort.startsWith("-") ? -1 : 1 };
+    if (!sort.startDate) {
+        sort.startDate = 1;
+    }
+
+    const [events, total] = await Promise.all([
+        Event.find(query)
+            .sort(sort)
+            .skip((filters.page - 1) * filters.limit)
+            .limit(filters.limit)
+            .populate("category"),
+        Event.countDocuments(query),
+    ]);
+
+    return {
+        events,
+        pagination: {
+            page: filters.page,
+            limit: filters.limit,
+            total,
+            totalPages: Math.ceil(total / filters.limit),
+        },
+    };
+};
+
 export const getEvent = async (eventId:string) => {
     if (!isValidObjectId(eventId)) {
         return null;
@@ -22,17 +150,23 @@ export const getEvent = async (eventId:string) => {
     return null;
 };
 
-export const getActiveEventsAtDate = async (currDate: Date) => {
-    const events = await Event.find({ startDate: { $lte: currDate }, endDate: { $gte: currDate }, isActive: true }).sort({ startDate: 1 }).populate("category");
+export const getActiveEventsAtDate = async (currDate: Date, user?: EligibleUser) => {
+    const events = await Event.find({
+        startDate: { $lte: currDate }, endDate: { $gte: currDate }, isActive: true, ...publishedEventFilter(), ...listingFilter(user),
+    }).sort({ startDate: 1 }).populate("category");
     return events;
 };
-export const getActiveEventsStartsAfterDate = async (currDate: Date) => {
-    const events = await Event.find({ startDate: { $gt: currDate }, isActive: true }).sort({ startDate: 1 }).populate("category");
+export const getActiveEventsStartsAfterDate = async (currDate: Date, user?: EligibleUser) => {
+    const events = await Event.find({
+        startDate: { $gt: currDate }, isActive: true, ...publishedEventFilter(), ...listingFilter(user),
+    }).sort({ startDate: 1 }).populate("category");
     return events;
 };
 
 export const getActiveEndedBeforeDate = async (currDate: Date) => {
-    const events = await Event.find({ endDate: { $lt: currDate }, isActive: true }).sort({ startDate: 1 }).populate("category");
+    const events = await Event.find({
+        endDate: { $lt: currDate }, isActive: true, ...publishedEventFilter(), ...publicEventFilter(),
+    }).sort({ startDate: 1 }).populate("category");
     return events;
 };
 
@@ -44,14 +178,136 @@ export const isUserRegisteredInEvent = async (userId:string, eventId: string) =>
     return false;
 };
 
-export const registerUserInEvent = async (userId: string, eventId: string, isPaid: boolean = false, receipt: Receipt = { imageUrl: null, cloudinaryPublicId: null }) => {
+type EventDocument = InstanceType<typeof Event>;
+
+/**
+ * Admins and the organizers of the event see it whatever its state, others only once it's visible.
+ * Private events are only shown to invited and registered users and visitors holding an invite link.
+ */
+export const canViewEvent = async (event: EventDocument, user?: EligibleUser, inviteToken?: string) => {
+    if (user && (user.role === UserRole.Admin || await organizesEvent(user.id, event.id, event.category))) {
+        return true;
+    }
+    if (!isEventVisible(event)) {
+        return false;
+    }
+    if (event.visibility !== EventVisibility.Private) {
+        return true;
+    }
+
+    const access = await Promise.all([
+        hasEventInvitation(event.id, user, inviteToken),
+        user ? isUserRegisteredInEvent(user.id, event.id) : false,
+    ]);
+    return access.some(Boolean);
+};
+
+export const reserveEventSeat = async (eventId: string) => {
+    const event = await Event.findOneAndUpdate(
+        { _id: eventId, $expr: { $lt: ["$attendeesCount", "$capacity"] } },
+        { $inc: { attendeesCount: 1 } },
+        { new: true },
+    );
+    return event !== null;
+};
+
+export const releaseEventSeat = async (eventId: string) => {
+    await Event.updateOne({ _id: eventId, attendeesCount: { $gt: 0 } }, { $inc: { attendeesCount: -1 } });
+};
+
+const promoteNextAttendees = async (eventId: string): Promise<IEventAttendee[]> => {
+    const hasSeat = await reserveEventSeat(eventId);
+    if (!hasSeat) {
+        return [];
+    }
+
+    const attendee = await EventAttendee.findOneAndUpdate(
+        { eventId, isWaitlisted: true, reviewStatus: { $ne: ReviewStatus.Rejected } },
+        { isWaitlisted: false, promotedAt: new Date() },
+        { sort: { createdAt: 1 }, new: true },
+    );
+
+    if (!attendee) {
+        await releaseEventSeat(eventId);
+        return [];
+    }
+
+    return [attendee, ...(await promoteNextAttendees(eventId))];
+};
+
+// online payers can't pay while waitlisted, once promoted they are emailed to start the checkout
+export const promoteWaitlistedAttendees = async (eventId: string) => {
+    const promoted = await promoteNextAttendees(eventId);
+    const payers = promoted.filter((attendee) => attendee.paymentMethod === PaymentMethod.Online && !attendee.isApproved);
+
+    if (payers.length) {
+        const event = await Event.findById(eventId, "name");
+        const users = await User.find({ _id: { $in: payers.map((attendee) => attendee.userId) } }, "email");
+        await Promise.allSettled(users.map((user) => sendWaitlistPaymentEmail(user.email, eventId, event?.name ?? "the event")));
+    }
+
+    return promoted;
+};
+
+// rejected registrations don't hold a seat, their seat went to the next in line when they were rejected
+export const freeAttendeeSeat = async (attendee: IEventAttendee) => {
+    if (attendee.isWaitlisted || attendee.reviewStatus === ReviewStatus.Rejected) {
+        return [];
+    }
+
+    const eventId = attendee.eventId.toString();
+    await releaseEventSeat(eventId);
+    return promoteWaitlistedAttendees(eventId);
+};
+
+// a rejected registration brought back takes a seat again, or joins the waitlist when the event is full
+export const reclaimAttendeeSeat = async (attendee: IEventAttendee) => {
+    if (attendee.isWaitlisted || attendee.reviewStatus !== ReviewStatus.Rejected) {
+        return attendee.isWaitlisted;
+    }
+
+    const hasSeat = await reserveEventSeat(attendee.eventId.toString());
+    if (!hasSeat) {
+        await EventAttendee.updateOne({ _id: attendee.id }, { isWaitlisted: true });
+    }
+    return !hasSeat;
+};
+
+export const registerUserInEvent = async (
+    userId: string,
+    eventId: string,
+    isPaid: boolean = false,
+    receipt: Receipt = { imageUrl: null, cloudinaryPublicId: null },
+    answers: { [key: string]: unknown } = {},
+    paymentMethod: PaymentMethod | null = null,
+    ticket: AttendeeTicket | null = null,
+) => {
+    const hasSeat = await reserveEventSeat(eventId);
     const newEventAttendee = new EventAttendee({
-        userId, eventId, isApproved: !isPaid, receipt,
+        userId,
+        eventId,
+        isApproved: !isPaid,
+        reviewStatus: isPaid ? ReviewStatus.Pending : ReviewStatus.Approved,
+        paymentMethod: isPaid ? paymentMethod : null,
+        ticketTier: ticket?.tier ?? null,
+        promoCode: ticket?.promoCode ?? null,
+        price: ticket?.price ?? null,
+        isWaitlisted: !hasSeat,
+        receipt,
+        answers,
     });
-    const savedEvent = await newEventAttendee.save();
-    await savedEvent.populate("user");
-    await savedEvent.populate("event");
-    return savedEvent;
+
+    try {
+        const savedEvent = await newEventAttendee.save();
+        await savedEvent.populate("user");
+        await savedEvent.populate("event");
+        return savedEvent;
+    } catch (err) {
+        if (hasSeat) {
+            await releaseEventSeat(eventId);
+        }
+        throw err;
+    }
 };
 
 export const getEventAttendee = async (userId: string, eventId: string) => {
@@ -59,15 +315,64 @@ export const getEventAttendee = async (userId: string, eventId: string) => {
     return form;
 };
 
-export const deleteEventAttendee = async (userId: string, eventId:string) => {
+// admins always see the join details, attendees only once approved and while the meeting window is open
+export const getMeetingDetailsForUser = async (event: MeetingWindow & { id?: string }, user?: { id: string, role: UserRole }) => {
+    if (!event.meeting || !user) {
+        return null;
+    }
+
+    if (user.role === UserRole.Admin) {
+        return event.meeting;
+    }
+
+    if (!isMeetingWindowOpen(event)) {
+        return null;
+    }
+
+    const attendee = await getEventAttendee(user.id, String(event.id));
+    return attendee?.isApproved && !attendee.isWaitlisted ? event.meeting : null;
+};
+
+// a receipt behind a refund request is kept so finance can check it
+export const deleteEventAttendee = async (userId: string, eventId:string, keepReceipt: boolean = false) => {
     const deletedForm = await EventAttendee.findOneAndDelete({ userId, eventId });
-    if (deletedForm?.receipt.cloudinaryPublicId) {
+    if (deletedForm?.receipt.cloudinaryPublicId && !keepReceipt) {
         await deleteImageFromCloud(deletedForm.receipt.cloudinaryPublicId);
     }
+    if (deletedForm) {
+        await releaseTicket(eventId, { tier: deletedForm.ticketTier, promoCode: deletedForm.promoCode });
+        await removeTeamMember(eventId, userId);
+        await freeAttendeeSeat(deletedForm);
+    }
     return deletedForm;
 };
 
+// removes every registration of a deleted event along with the uploaded receipts
+export const deleteAllEventAttendees = async (eventId: string) => {
+    const attendees = await EventAttendee.find({ eventId, "receipt.cloudinaryPublicId": { $ne: null } });
+    await Promise.all(attendees.map((attendee) => deleteImageFromCloud(attendee.receipt.cloudinaryPublicId as string)));
+    await EventAttendee.deleteMany({ eventId });
+};
+
 export const getEventAttendees = async (eventId: string) => {
     const attendees = await EventAttendee.find({ eventId }).populate("user").populate("event");
     return attendees;
 };
+
+export const getWaitlistPosition = async (attendee: IEventAttendee) => {
+    if (!attendee.isWaitlisted) {
+        return null;
+    }
+
+    const ahead = await EventAttendee.countDocuments({
+        eventId: attendee.eventId,
+        isWaitlisted: true,
+        createdAt: { $lt: attendee.createdAt },
+    });
+    return ahead + 1;
+};
+
+export const getEventWaitlist = async (eventId: string) => {
+    const attendees = await EventAttendee.find({ eventId, isWaitlisted: true }).sort({ createdAt: 1 }).populate("user");
+    return attendees;
+};
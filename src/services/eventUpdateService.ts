@@ -0,0 +1,97 @@
+import Event, { AttendanceMode, EVENT_STATUS_TRANSITIONS, EventStatus } from "../models/Event";
+import Errors from "../types/Errors";
+import { isEventPublished } from "./eventService";
+import { getTicketTiersUpdateErrors } from "./pricingService";
+import { getTeamSizeUpdateErrors } from "./teamService";
+import { VenueBooking } from "./venueService";
+import { parseDateInTimeZone } from "../utils/timezone";
+import { TIER_DATE_FIELDS } from "../utils/ticketTiers";
+
+type EventDocument = InstanceType<typeof Event>;
+
+const ZONED_DATE_FIELDS = ["startDate", "publishAt", "registrationOpensAt", "registrationClosesAt"];
+
+// dates sent without a UTC offset are wall-clock times in the event timezone
+const parseDateFields = (data: { [field: string]: unknown }, fields: string[], timezone: string) => {
+    fields.forEach((field) => {
+        const value = data[field];
+        if (typeof value === "string") {
+            data[field] = parseDateInTimeZone(value, timezone);
+        }
+    });
+};
+
+export const parseZonedDates = (data: { [field: string]: unknown }, timezone: string) => {
+    parseDateFields(data, ZONED_DATE_FIELDS, timezone);
+
+    if (Array.isArray(data.ticketTiers)) {
+        data.ticketTiers.forEach((tier) => parseDateFields(tier, TIER_DATE_FIELDS, timezone));
+    }
+};
+
+export const toVenueBooking = (event: EventDocument, startDates: Date[]): VenueBooking => ({
+    venue: event.venue ? String(event.venue) : null,
+    room: event.room,
+    capacity: event.capacity,
+    duration: event.duration,
+    startDates,
+});
+
+// inactive or cancelled events give their room back, so they can't clash with other bookings
+export const getBookedStartDates = (event: EventDocument) => (
+    event.isActive && event.status !== EventStatus.Cancelled ? [event.startDate] : []
+);
+
+/**
+ * Checks an update against the current state of the event and applies it in memory, saving is left to the caller.
+ * Dates in the changes must already be parsed. Returns the validation errors when the update isn't allowed,
+ * the event may be partly changed then and must not be saved.
+ */
+export const applyEventUpdate = async (event: EventDocument, changes: { [field: string]: unknown }): Promise<Errors | null> => {
+    const status = changes.status as EventStatus | undefined;
+
+    if (status === EventStatus.Cancelled && event.status !== EventStatus.Cancelled) {
+        return { status: "Use POST /events/{id}/cancel to cancel an event" };
+    }
+
+    if (status && status !== event.status && !EVENT_STATUS_TRANSITIONS[event.status].includes(status)) {
+        return { status: `Event can't move from ${event.status} to ${status}` };
+    }
+
+    // attendees of a published event are notified and asked to confirm when it moves, which only the reschedule does
+    if (isEventPublished(event)) {
+        if (changes.startDate !== undefined && new Date(changes.startDate as Date).getTime() !== event.startDate.getTime()) {
+            return { startDate: "Use POST /events/{id}/reschedule to move a published event" };
+        }
+        if (changes.duration !== undefined && changes.duration !== event.duration) {
+            return { duration: "Use POST /events/{id}/reschedule to change the duration of a published event" };
+        }
+    }
+
+    const tierErrors = Array.isArray(changes.ticketTiers) && getTicketTiersUpdateErrors(event, changes.ticketTiers);
+
+    if (tierErrors) {
+        return tierErrors;
+    }
+
+    const teamSizeErrors = await getTeamSizeUpdateErrors(event.id, event, {
+        minTeamSize: changes.minTeamSize as number | null | undefined,
+        maxTeamSize: changes.maxTeamSize as number | null | undefined,
+    });
+
+    if (teamSizeErrors) {
+        return teamSizeErrors;
+    }
+
+    Object.assign(event, changes);
+
+    if (event.status === EventStatus.Scheduled && !event.publishAt) {
+        return { publishAt: "publishAt is required for scheduled events" };
+    }
+
+    if (event.attendanceMode !== AttendanceMode.InPerson && !event.meeting) {
+        return { meeting: `meeting details are required for ${event.attendanceMode} events` };
+    }
+
+    return null;
+};
@@ -0,0 +1,90 @@
+import { Types } from "mongoose";
+import EventFeedback, { IEventFeedback } from "../models/EventFeedback";
+import EventAttendee from "../models/EventAttendee";
+import Event from "../models/Event";
+import RegistrationQuestion from "../types/RegistrationQuestion";
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const getUserFeedback = async (userId: string, eventId: string) => {
+    const feedback = await EventFeedback.findOne({ userId, eventId });
+    return feedback;
+};
+
+export const getEventFeedbacks = async (eventId: string) => {
+    const feedbacks = await EventFeedback.find({ eventId }).sort({ createdAt: -1 });
+    return feedbacks;
+};
+
+export const deleteEventFeedbacks = async (eventId: string) => {
+    await EventFeedback.deleteMany({ eventId });
+};
+
+// rating statistics over one or more events, the response rate is out of their approved attendees
+export const summarizeFeedback = async (eventIds: string[]) => {
+    const ids = eventIds.map((id) => new Types.ObjectId(id));
+
+    const [ratings, attendees] = await Promise.all([
+        EventFeedback.aggregate<{ _id: number, count: number }>([
+            { $match: { eventId: { $in: ids } } },
+            { $group: { _id: "$rating", count: { $sum: 1 } } },
+        ]),
+        EventAttendee.countDocuments({ eventId: { $in: ids }, isApproved: true, isWaitlisted: false }),
+    ]);
+
+    const distribution: { [rating: number]: number } = Object.fromEntries(RATINGS.map((rating) => [rating, 0]));
+    ratings.forEach(({ _id: rating, count }) => {
+        distribution[rating] = count;
+    });
+
+    const responses = ratings.reduce((total, { count }) => total + count, 0);
+    const ratingsTotal = ratings.reduce((total, { _id: rating, count }) => total + rating * count, 0);
+
+    return {
+        responses,
+        attendees,
+        responseRate: attendees ? round(responses / attendees) : 0,
+        averageRating: responses ? round(ratingsTotal / responses) : null,
+        distribution,
+    };
+};
+
+// per question results: option counts for choice questions, the average for number questions
+export const summarizeFeedbackAnswers = (questions: RegistrationQuestion[], feedbacks: IEventFeedback[]) => questions.map((question) => {
+    const answers = feedbacks
+        .map((feedback) => feedback.answers[question.key])
+        .filter((answer) => answer !== undefined && answer !== null && answer !== "");
+    const summary: { key: string, label: string, type: string, responses: number, [result: string]: unknown } = {
+        key: question.key,
+        label: question.label,
+        type: question.type,
+        responses: answers.length,
+    };
+
+    if (question.type === "number") {
+        const numbers = answers as number[];
+        summary.average = numbers.length ? round(numbers.reduce((total, answer) => total + answer, 0) / numbers.length) : null;
+    } else if (question.type === "single_choice" || question.type === "multi_choice") {
+        const chosen = answers.flat() as string[];
+        summary.options = Object.fromEntries(question.options.map((option) => [
+            option,
+            chosen.filter((answer) => answer === option).length,
+        ]));
+    }
+
+    return summary;
+});
+
+export const getCategoryFeedbackSummary = async (categoryId: string) => {
+    const events = await Event.find({ category: categoryId, endDate: { $lte: new Date() } }, "name startDate endDate")
+        .sort({ startDate: -1 });
+
+    const [summary, eventSummaries] = await Promise.all([
+        summarizeFeedback(events.map((event) => event.id)),
+        Promise.all(events.map(async (event) => ({ event, summary: await summarizeFeedback([event.id]) }))),
+    ]);
+
+    return { summary, events: eventSummaries };
+};
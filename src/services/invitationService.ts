@@ -0,0 +1,210 @@
+import crypto from "crypto";
+import EventInvitation, { InvitationStatus } from "../models/EventInvitation";
+import InviteLink from "../models/InviteLink";
+import User from "../models/User";
+import { sendEventInvitationEmail } from "./emailService";
+
+type InvitedEvent = { id: string, name: string };
+type InvitedUser = { id: string, email: string, emailVerified: boolean };
+
+const generateInviteToken = () => crypto.randomBytes(32).toString("hex");
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Invites every email to the event and emails them the invitation, emails without an account are asked to register
+ * first. Inviting an email again sends it a fresh invitation, even after it was declined, accepted invitations are
+ * left alone.
+ */
+export const inviteByEmail = async (event: InvitedEvent, emails: string[], invitedBy: string) => {
+    const uniqueEmails = [...new Set(emails.map(normalizeEmail))];
+    const users = await User.find({ email: { $in: uniqueEmails } }, "email");
+    const userIds = new Map(users.map((user) => [normalizeEmail(user.email), user.id as string]));
+
+    const results = await Promise.allSettled(uniqueEmails.map(async (email) => {
+        let invitation;
+        try {
+            invitation = await EventInvitation.findOneAndUpdate(
+                { eventId: event.id, email, status: { $ne: InvitationStatus.Accepted } },
+                {
+                    userId: userIds.get(email) ?? null,
+                    token: generateInviteToken(),
+                    status: InvitationStatus.Sent,
+                    invitedBy,
+                    sentAt: new Date(),
+                    openedAt: null,
+                    respondedAt: null,
+                },
+                { upsert: true, new: true },
+            );
+        } catch (err) {
+            // the upsert hits the unique index when the email already accepted, there is nothing to send then
+            if ((err as { code?: number }).code === 11000) {
+                return null;
+            }
+            throw err;
+        }
+
+        if (invitation) {
+            await sendEventInvitationEmail(email, event.name, invitation.token, userIds.has(email));
+        }
+        return invitation;
+    }));
+
+    return {
+        invitations: results.flatMap((result) => (result.status === "fulfilled" && result.value ? [result.value] : [])),
+        alreadyAccepted: uniqueEmails.filter((email, index) => {
+            const result = results[index];
+            return result.status === "fulfilled" && !result.value;
+        }),
+        failed: uniqueEmails.filter((email, index) => results[index].status === "rejected"),
+    };
+};
+
+export const getEventInvitations = async (eventId: string, status?: InvitationStatus) => {
+    const invitations = await EventInvitation.find({ eventId, ...(status && { status }) }).sort({ sentAt: -1 });
+    return invitations;
+};
+
+export const deleteEventInvitation = async (eventId: string, invitationId: string) => {
+    const invitation = await EventInvitation.findOneAndDelete({ _id: invitationId, eventId });
+    return invitation;
+};
+
+export const deleteEventInvitations = async (eventId: string) => {
+    await Promise.all([EventInvitation.deleteMany({ eventId }), InviteLink.deleteMany({ eventId })]);
+};
+
+// visiting the invitation link marks it opened, later visits keep the first time
+export const openInvitation = async (token: string) => {
+    const invitation = await EventInvitation.findOneAndUpdate(
+        { token, status: InvitationStatus.Sent },
+        { status: InvitationStatus.Opened, openedAt: new Date() },
+        { new: true },
+    );
+    return invitation ?? EventInvitation.findOne({ token });
+};
+
+export const getInvitationByToken = async (token: string) => {
+    const invitation = await EventInvitation.findOne({ token });
+    return invitation;
+};
+
+// like invitedUserFilter, the invited email only counts once the user verified it
+export const isInvitationFor = (invitation: { email: string, userId: unknown }, user: InvitedUser) => (
+    (user.emailVerified && invitation.email === normalizeEmail(user.email))
+    || (invitation.userId !== null && String(invitation.userId) === String(user.id))
+);
+
+export const declineInvitation = async (invitationId: string) => {
+    const invitation = await EventInvitation.findOneAndUpdate(
+        { _id: invitationId, status: { $in: [InvitationStatus.Sent, InvitationStatus.Opened] } },
+        { status: InvitationStatus.Declined, respondedAt: new Date() },
+        { new: true },
+    );
+    return invitation;
+};
+
+// anyone can sign up with an invited email, it only vouches for the user once verified
+const invitedUserFilter = (user: InvitedUser) => ({
+    $or: [{ userId: user.id }, ...(user.emailVerified ? [{ email: normalizeEmail(user.email) }] : [])],
+});
+
+// the personal invitation of the user, declined invitations don't count until the user is invited again
+export const findUserInvitation = async (eventId: string, user: InvitedUser) => {
+    const invitation = await EventInvitation.findOne({
+        eventId,
+        status: { $ne: InvitationStatus.Declined },
+        ...invitedUserFilter(user),
+    });
+    return invitation;
+};
+
+// whether the user was invited to the event or the token belongs to one of its active invite links
+export const hasEventInvitation = async (eventId: string, user?: InvitedUser, inviteToken?: string) => {
+    if (inviteToken && await InviteLink.exists({ eventId, token: inviteToken, isActive: true })) {
+        return true;
+    }
+    if (!user) {
+        return false;
+    }
+
+    const invitation = await EventInvitation.exists({ eventId, ...invitedUserFilter(user) });
+    return Boolean(invitation);
+};
+
+export const acceptInvitation = async (invitationId: string, userId: string) => {
+    await EventInvitation.updateOne(
+        { _id: invitationId },
+        { status: InvitationStatus.Accepted, userId, respondedAt: new Date() },
+    );
+};
+
+export const createInviteLink = async (eventId: string, createdBy: string, maxUses: number | null, expiresAt: Date | null) => {
+    const inviteLink = await InviteLink.create({
+        eventId,
+        token: generateInviteToken(),
+        maxUses,
+        expiresAt,
+        createdBy,
+    });
+    return inviteLink;
+};
+
+export const getInviteLinks = async (eventId: string) => {
+    const inviteLinks = await InviteLink.find({ eventId }).sort({ createdAt: -1 });
+    return inviteLinks;
+};
+
+export const revokeInviteLink = async (eventId: string, linkId: string) => {
+    const inviteLink = await InviteLink.findOneAndUpdate({ _id: linkId, eventId }, { isActive: false }, { new: true });
+    return inviteLink;
+};
+
+export const getInviteLinkByToken = async (token: string) => {
+    const inviteLink = await InviteLink.findOne({ token });
+    return inviteLink;
+};
+
+export const getInviteLinkError = (inviteLink: { isActive: boolean, expiresAt: Date | null, maxUses: number | null, usesCount: number } | null, now: Date = new Date()) => {
+    if (!inviteLink || !inviteLink.isActive) {
+        return "invite link is not valid";
+    }
+    if (inviteLink.expiresAt && now >= inviteLink.expiresAt) {
+        return "invite link has expired";
+    }
+    if (inviteLink.maxUses !== null && inviteLink.usesCount >= inviteLink.maxUses) {
+        return "invite link has reached its usage limit";
+    }
+    return null;
+};
+
+/**
+ * Takes a use of the invite link for a registration in the event. Returns why the link can't be used, or null once
+ * the use is taken.
+ */
+export const redeemInviteLink = async (eventId: string, token: string, now: Date = new Date()) => {
+    const inviteLink = await InviteLink.findOneAndUpdate(
+        {
+            eventId,
+            token,
+            isActive: true,
+            $and: [
+                { $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+                { $or: [{ maxUses: null }, { $expr: { $lt: ["$usesCount", "$maxUses"] } }] },
+            ],
+        },
+        { $inc: { usesCount: 1 } },
+    );
+
+    if (inviteLink) {
+        return null;
+    }
+
+    const existing = await InviteLink.findOne({ eventId, token });
+    return getInviteLinkError(existing, now) ?? "invite link is not valid";
+};
+
+export const releaseInviteLink = async (eventId: string, token: string) => {
+    await InviteLink.updateOne({ eventId, token, usesCount: { $gt: 0 } }, { $inc: { usesCount: -1 } });
+};
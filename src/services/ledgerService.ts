@@ -0,0 +1,145 @@
+import { FilterQuery, Types } from "mongoose";
+import LedgerEntry, { ILedgerEntry, LedgerEntryKind } from "../models/LedgerEntry";
+import { PaymentMethod } from "../models/EventAttendee";
+import IEventAttendee from "../types/EventAttendee";
+import { getPaymentCurrency } from "./paymentService";
+
+type LedgerAttendee = Pick<IEventAttendee, "id" | "eventId" | "userId">;
+
+interface PaymentRecord {
+    amount: number;
+    method: PaymentMethod;
+    paymentId?: string | null;
+    currency?: string;
+    recordedBy?: string | null;
+}
+
+const isDuplicateKeyError = (err: unknown) => (err as { code?: number })?.code === 11000;
+
+// booking the same payment twice is dropped, the first row stands
+export const recordPayment = async (attendee: LedgerAttendee, payment: PaymentRecord) => {
+    try {
+        const entry = await LedgerEntry.create({
+            kind: LedgerEntryKind.Payment,
+            eventId: attendee.eventId,
+            attendeeId: attendee.id,
+            userId: attendee.userId,
+            amount: payment.amount,
+            currency: payment.currency ?? getPaymentCurrency(),
+            method: payment.method,
+            paymentId: payment.paymentId ?? null,
+            recordedBy: payment.recordedBy ?? null,
+        });
+        return entry;
+    } catch (err) {
+        if (isDuplicateKeyError(err)) {
+            return null;
+        }
+        throw err;
+    }
+};
+
+export const recordRefund = async (refund: {
+    eventId: unknown,
+    attendeeId: unknown,
+    userId: unknown,
+    refundRequestId: string,
+    amount: number,
+    currency: string,
+    note: string | null,
+    recordedBy: string,
+}) => {
+    const entry = await LedgerEntry.create({
+        ...refund,
+        kind: LedgerEntryKind.Refund,
+        amount: -refund.amount,
+    });
+    return entry;
+};
+
+export const recordAdjustment = async (adjustment: {
+    eventId: string,
+    attendeeId: string | null,
+    userId: unknown,
+    amount: number,
+    note: string,
+    recordedBy: string,
+}) => {
+    const entry = await LedgerEntry.create({
+        ...adjustment,
+        kind: LedgerEntryKind.Adjustment,
+        currency: getPaymentCurrency(),
+    });
+    return entry;
+};
+
+// what the attendee has paid and not got back yet
+export const getNetPaid = async (attendeeId: string) => {
+    const [result] = await LedgerEntry.aggregate<{ net: number }>([
+        { $match: { attendeeId: new Types.ObjectId(attendeeId) } },
+        { $group: { _id: null, net: { $sum: "$amount" } } },
+    ]);
+    return result?.net ?? 0;
+};
+
+export const getLedgerEntries = async (filter: FilterQuery<ILedgerEntry>) => {
+    const entries = await LedgerEntry.find(filter).sort({ createdAt: 1 });
+    return entries;
+};
+
+const sumOf = (kind: LedgerEntryKind) => ({ $sum: { $cond: [{ $eq: ["$kind", kind] }, "$amount", 0] } });
+const countOf = (kind: LedgerEntryKind) => ({ $sum: { $cond: [{ $eq: ["$kind", kind] }, 1, 0] } });
+
+/**
+ * Revenue per event and currency over the ledger rows recorded in the given range.
+ */
+export const getRevenueReport = async (filters: { eventId?: string, from?: Date, to?: Date }) => {
+    const match: FilterQuery<ILedgerEntry> = {};
+
+    if (filters.eventId) {
+        match.eventId = new Types.ObjectId(filters.eventId);
+    }
+    if (filters.from || filters.to) {
+        match.createdAt = {
+            ...(filters.from && { $gte: filters.from }),
+            ...(filters.to && { $lte: filters.to }),
+        };
+    }
+
+    const report = await LedgerEntry.aggregate([
+        { $match: match },
+        {
+            $group: {
+                _id: { eventId: "$eventId", currency: "$currency" },
+                payments: sumOf(LedgerEntryKind.Payment),
+                paymentsCount: countOf(LedgerEntryKind.Payment),
+                refunds: sumOf(LedgerEntryKind.Refund),
+                refundsCount: countOf(LedgerEntryKind.Refund),
+                adjustments: sumOf(LedgerEntryKind.Adjustment),
+                net: { $sum: "$amount" },
+            },
+        },
+        {
+            $lookup: {
+                from: "events", localField: "_id.eventId", foreignField: "_id", as: "event",
+            },
+        },
+        {
+            $project: {
+                _id: 0,
+                eventId: "$_id.eventId",
+                eventName: { $ifNull: [{ $first: "$event.name" }, null] },
+                currency: "$_id.currency",
+                payments: 1,
+                paymentsCount: 1,
+                refunds: { $abs: "$refunds" },
+                refundsCount: 1,
+                adjustments: 1,
+                net: 1,
+            },
+        },
+        { $sort: { net: -1 } },
+    ]);
+
+    return report;
+};
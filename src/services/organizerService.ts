@@ -0,0 +1,77 @@
+import { FilterQuery } from "mongoose";
+import OrganizerAssignment, { IOrganizerAssignment } from "../models/OrganizerAssignment";
+import Event from "../models/Event";
+
+export type OrganizerScope = { eventId: string, categoryId?: undefined } | { categoryId: string, eventId?: undefined };
+
+// assigning the same scope twice keeps the first assignment
+export const assignOrganizer = async (userId: string, scope: OrganizerScope, assignedBy: string) => {
+    const assignment = await OrganizerAssignment.findOneAndUpdate(
+        { userId, eventId: scope.eventId ?? null, categoryId: scope.categoryId ?? null },
+        { $setOnInsert: { assignedBy } },
+        { upsert: true, new: true },
+    );
+    return assignment;
+};
+
+export const getOrganizerAssignments = async (filter: FilterQuery<IOrganizerAssignment>) => {
+    const assignments = await OrganizerAssignment.find(filter)
+        .sort({ createdAt: -1 })
+        .populate("user", "firstName lastName email");
+    return assignments;
+};
+
+export const deleteOrganizerAssignment = async (assignmentId: string) => {
+    const assignment = await OrganizerAssignment.findByIdAndDelete(assignmentId);
+    return assignment;
+};
+
+export const deleteEventOrganizers = async (eventId: string) => {
+    await OrganizerAssignment.deleteMany({ eventId });
+};
+
+export const deleteCategoryOrganizers = async (categoryId: string) => {
+    await OrganizerAssignment.deleteMany({ categoryId });
+};
+
+export const isOrganizer = async (userId: string) => {
+    const assignment = await OrganizerAssignment.exists({ userId });
+    return Boolean(assignment);
+};
+
+export const organizesCategory = async (userId: string, categoryId: string) => {
+    const assignment = await OrganizerAssignment.exists({ userId, categoryId });
+    return Boolean(assignment);
+};
+
+// the category may be populated or only its id
+export const organizesEvent = async (userId: string, eventId: string, category: unknown) => {
+    const categoryId = (category as { id?: string } | null)?.id ?? category;
+    const assignment = await OrganizerAssignment.exists({
+        userId,
+        $or: [{ eventId }, ...(categoryId ? [{ categoryId }] : [])],
+    });
+    return Boolean(assignment);
+};
+
+// the events assigned to the user directly and the events of the categories assigned to them
+export const organizedEventFilter = async (userId: string) => {
+    const assignments = await OrganizerAssignment.find({ userId });
+
+    return {
+        $or: [
+            { _id: { $in: assignments.flatMap((assignment) => (assignment.eventId ? [assignment.eventId] : [])) } },
+            { category: { $in: assignments.flatMap((assignment) => (assignment.categoryId ? [assignment.categoryId] : [])) } },
+        ],
+    };
+};
+
+export const getOrganizedEventIds = async (userId: string) => {
+    const eventIds = await Event.distinct("_id", await organizedEventFilter(userId));
+    return eventIds.map(String);
+};
+
+export const getOrganizedEvents = async (userId: string) => {
+    const events = await Event.find(await organizedEventFilter(userId)).sort({ startDate: 1 }).populate("category");
+    return events;
+};
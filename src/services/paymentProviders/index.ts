@@ -0,0 +1,43 @@
+import PaymentProvider from "../../types/PaymentProvider";
+import createMockPaymentProvider from "./mockPaymentProvider";
+import ServiceUnavailableError from "../../errors/ServiceUnavailableError";
+
+type PaymentProviderFactory = () => PaymentProvider;
+
+const createMockProvider = () => {
+    const { PAYMENT_WEBHOOK_SECRET, BASE_URL } = process.env;
+
+    if (!PAYMENT_WEBHOOK_SECRET) {
+        throw new ServiceUnavailableError("Online payments are not configured, PAYMENT_WEBHOOK_SECRET is missing");
+    }
+    return createMockPaymentProvider(PAYMENT_WEBHOOK_SECRET, BASE_URL || "");
+};
+
+const factories = new Map<string, PaymentProviderFactory>([["mock", createMockProvider]]);
+
+let provider: PaymentProvider | null = null;
+
+// real gateways plug in here, PAYMENT_PROVIDER picks which one handles checkouts, "mock" has to be picked explicitly.
+// The provider is only resolved by the first online payment, deployments without online payments don't configure one.
+export const registerPaymentProvider = (name: string, factory: PaymentProviderFactory) => {
+    factories.set(name, factory);
+    provider = null;
+};
+
+export const getPaymentProvider = () => {
+    if (!provider) {
+        const name = process.env.PAYMENT_PROVIDER;
+
+        if (!name) {
+            throw new ServiceUnavailableError("Online payments are not configured");
+        }
+
+        const factory = factories.get(name);
+
+        if (!factory) {
+            throw new ServiceUnavailableError(`Online payments are not configured, unknown payment provider [${name}]`);
+        }
+        provider = factory();
+    }
+    return provider;
+};
@@ -0,0 +1,57 @@
+import crypto from "crypto";
+import { IncomingHttpHeaders } from "http";
+import PaymentProvider, { PaymentOutcome, PaymentWebhookEvent } from "../../types/PaymentProvider";
+
+export const MOCK_SIGNATURE_HEADER = "x-mock-signature";
+
+const CHECKOUT_TTL_MS = 30 * 60 * 1000;
+
+const sign = (payload: string, secret: string) => crypto.createHmac("sha256", secret).update(payload)
+    .digest("hex");
+
+// mirrors what a real gateway would post to the webhook once the customer finishes the checkout page
+export const buildMockWebhook = (event: PaymentWebhookEvent, secret: string) => {
+    const body = JSON.stringify(event);
+    return { body, signature: sign(body, secret) };
+};
+
+/**
+ * A local stand-in for a payment gateway, for development and tests. Its checkout page is served by this API
+ * and lets the caller pick the outcome, the webhooks it sends are signed with an HMAC like a real gateway's.
+ */
+const createMockPaymentProvider = (secret: string, baseUrl: string): PaymentProvider => ({
+    name: "mock",
+
+    createCheckoutSession: async () => {
+        const sessionId = `mock_cs_${crypto.randomBytes(12).toString("hex")}`;
+        return {
+            sessionId,
+            checkoutUrl: `${baseUrl}/payments/mock/checkout/${sessionId}`,
+            expiresAt: new Date(Date.now() + CHECKOUT_TTL_MS),
+        };
+    },
+
+    parseWebhook: (rawBody: Buffer, headers: IncomingHttpHeaders) => {
+        const signature = headers[MOCK_SIGNATURE_HEADER];
+        const expected = sign(rawBody.toString("utf8"), secret);
+
+        if (typeof signature !== "string" || signature.length !== expected.length
+            || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+            throw new Error("Invalid webhook signature");
+        }
+
+        const event = JSON.parse(rawBody.toString("utf8"));
+        const outcome: PaymentOutcome = event.outcome === "succeeded" ? "succeeded" : "failed";
+
+        return {
+            sessionId: String(event.sessionId),
+            outcome,
+            amount: Number(event.amount),
+            currency: String(event.currency),
+            providerPaymentId: event.providerPaymentId ?? null,
+            failureReason: event.failureReason ?? null,
+        };
+    },
+});
+
+export default createMockPaymentProvider;
@@ -0,0 +1,141 @@
+import { IncomingHttpHeaders } from "http";
+import Payment, { PaymentStatus } from "../models/Payment";
+import EventAttendee, { PaymentMethod, ReviewStatus } from "../models/EventAttendee";
+import IEventAttendee from "../types/EventAttendee";
+import { PaymentWebhookEvent } from "../types/PaymentProvider";
+import { getPaymentProvider } from "./paymentProviders";
+import { recordPayment } from "./ledgerService";
+import { reclaimAttendeeSeat } from "./eventService";
+
+export const getPaymentCurrency = () => process.env.PAYMENT_CURRENCY || "EGP";
+
+type CheckoutEvent = { id?: string, name: string, price: number };
+
+// the amount is what the registration was priced at, or the event price for older ones, never from the client
+export const startCheckout = async (attendee: IEventAttendee, event: CheckoutEvent, customerEmail: string) => {
+    const provider = getPaymentProvider();
+    const currency = getPaymentCurrency();
+    const eventId = String(event.id);
+    const amount = attendee.price ?? event.price;
+    const eventLink = `${process.env.BASE_URL_FRONTEND}/events/${eventId}`;
+
+    const session = await provider.createCheckoutSession({
+        reference: attendee.id,
+        amount,
+        currency,
+        description: event.name,
+        customerEmail,
+        successUrl: `${eventLink}?payment=success`,
+        cancelUrl: `${eventLink}?payment=cancelled`,
+    });
+
+    const payment = await Payment.create({
+        attendeeId: attendee.id,
+        eventId,
+        userId: attendee.userId,
+        provider: provider.name,
+        sessionId: session.sessionId,
+        checkoutUrl: session.checkoutUrl,
+        amount,
+        currency,
+        expiresAt: session.expiresAt,
+    });
+
+    await EventAttendee.updateOne({ _id: attendee.id }, { paymentMethod: PaymentMethod.Online });
+
+    return payment;
+};
+
+export const getPaymentBySession = async (sessionId: string) => {
+    const payment = await Payment.findOne({ provider: getPaymentProvider().name, sessionId });
+    return payment;
+};
+
+// the succeeded payment of the attendee, else the checkout session they can still pay through
+export const getOpenPayment = async (attendeeId: string) => {
+    const succeededPayment = await Payment.findOne({ attendeeId, status: PaymentStatus.Succeeded });
+
+    if (succeededPayment) {
+        return succeededPayment;
+    }
+
+    const pendingPayment = await Payment.findOne({
+        attendeeId,
+        status: PaymentStatus.Pending,
+        $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+    }).sort({ createdAt: -1 });
+    return pendingPayment;
+};
+
+export const getAttendeePayments = async (attendeeId: string) => {
+    const payments = await Payment.find({ attendeeId }).sort({ createdAt: -1 });
+    return payments;
+};
+
+const approvePaidAttendee = async (attendeeId: string) => {
+    const previousAttendee = await EventAttendee.findByIdAndUpdate(attendeeId, {
+        isApproved: true,
+        reviewStatus: ReviewStatus.Approved,
+        reviewedBy: null,
+        reviewedAt: new Date(),
+        rejectionReason: null,
+        paymentMethod: PaymentMethod.Online,
+    });
+
+    if (previousAttendee) {
+        await reclaimAttendeeSeat(previousAttendee);
+    }
+};
+
+const settlePayment = async (event: PaymentWebhookEvent, provider: string) => {
+    const payment = await Payment.findOne({ provider, sessionId: event.sessionId });
+
+    if (!payment || payment.status !== PaymentStatus.Pending) {
+        return payment;
+    }
+
+    const amountMatches = event.amount === payment.amount && event.currency === payment.currency;
+    const succeeded = event.outcome === "succeeded" && amountMatches;
+
+    let failureReason: string | null = null;
+    if (!succeeded) {
+        failureReason = event.outcome === "succeeded" ? "Paid amount doesn't match the checkout amount" : event.failureReason;
+    }
+
+    // gateways retry webhooks, only the first delivery moves the payment out of pending
+    const settledPayment = await Payment.findOneAndUpdate(
+        { _id: payment.id, status: PaymentStatus.Pending },
+        {
+            status: succeeded ? PaymentStatus.Succeeded : PaymentStatus.Failed,
+            providerPaymentId: event.providerPaymentId,
+            failureReason,
+            completedAt: new Date(),
+        },
+        { new: true },
+    );
+
+    if (settledPayment && succeeded) {
+        await approvePaidAttendee(settledPayment.attendeeId.toString());
+        await recordPayment(
+            { id: settledPayment.attendeeId, eventId: settledPayment.eventId, userId: settledPayment.userId },
+            {
+                amount: settledPayment.amount,
+                currency: settledPayment.currency,
+                method: PaymentMethod.Online,
+                paymentId: settledPayment.id,
+            },
+        );
+    }
+
+    return settledPayment ?? payment;
+};
+
+/**
+ * Verifies and applies a gateway webhook. Throws when the signature is invalid, returns null for unknown sessions.
+ */
+export const handlePaymentWebhook = async (rawBody: Buffer, headers: IncomingHttpHeaders) => {
+    const provider = getPaymentProvider();
+    const event = provider.parseWebhook(rawBody, headers);
+
+    return settlePayment(event, provider.name);
+};
@@ -0,0 +1,224 @@
+import { FilterQuery } from "mongoose";
+import Event, { TicketTier } from "../models/Event";
+import PromoCode, { DiscountType, IPromoCode } from "../models/PromoCode";
+import Errors from "../types/Errors";
+
+export interface TicketQuote {
+    tier: string | null;
+    basePrice: number;
+    earlyBird: boolean;
+    price: number;
+    promoCode: string | null;
+    discount: number;
+    finalPrice: number;
+}
+
+export interface AttendeeTicket {
+    tier: string | null;
+    promoCode: string | null;
+    price: number;
+}
+
+type PricedEvent = {
+    id?: string,
+    isPaid: boolean,
+    price: number,
+    ticketTiers: TicketTier[],
+    ticketSales: Map<string, number>,
+};
+
+const roundPrice = (amount: number) => Math.round(amount * 100) / 100;
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+const getTierError = (event: PricedEvent, tier: TicketTier, now: Date) => {
+    if (tier.salesStartAt && now < tier.salesStartAt) {
+        return `Sales of the ${tier.name} tier start at ${tier.salesStartAt.toISOString()}`;
+    }
+    if (tier.salesEndAt && now > tier.salesEndAt) {
+        return `Sales of the ${tier.name} tier ended at ${tier.salesEndAt.toISOString()}`;
+    }
+    if (tier.capacity !== null && (event.ticketSales.get(tier.key) ?? 0) >= tier.capacity) {
+        return `The ${tier.name} tier is sold out`;
+    }
+    return null;
+};
+
+const getPromoCodeError = (promo: IPromoCode | null, eventId: string, tierKey: string | null, now: Date) => {
+    if (!promo || !promo.isActive) {
+        return "promo code is not valid";
+    }
+    if (promo.eventId && promo.eventId.toString() !== eventId) {
+        return "promo code doesn't apply to this event";
+    }
+    if (promo.tierKeys.length && (!tierKey || !promo.tierKeys.includes(tierKey))) {
+        return `promo code only applies to the ${promo.tierKeys.join(", ")} tickets`;
+    }
+    if (promo.expiresAt && now >= promo.expiresAt) {
+        return "promo code has expired";
+    }
+    if (promo.maxUses !== null && promo.usesCount >= promo.maxUses) {
+        return "promo code has reached its usage limit";
+    }
+    return null;
+};
+
+const computeDiscount = (promo: IPromoCode, price: number) => {
+    const discount = promo.discountType === DiscountType.Percent ? (price * promo.discountValue) / 100 : promo.discountValue;
+    return roundPrice(Math.min(discount, price));
+};
+
+/**
+ * Works out what a registration costs: the tier price, or the event price without tiers, the early-bird price
+ * while it lasts, then the promo code. Returns field errors when the tier or the code can't be used.
+ */
+export const quoteTicket = async (
+    event: PricedEvent,
+    tierKey?: string,
+    code?: string,
+    now: Date = new Date(),
+): Promise<{ quote?: TicketQuote, errors?: Errors }> => {
+    if (!event.isPaid) {
+        if (tierKey || code) {
+            return { errors: { [tierKey ? "ticketTier" : "promoCode"]: "This event is free" } };
+        }
+        return {
+            quote: {
+                tier: null, basePrice: 0, earlyBird: false, price: 0, promoCode: null, discount: 0, finalPrice: 0,
+            },
+        };
+    }
+
+    let tier: TicketTier | null = null;
+
+    if (event.ticketTiers.length) {
+        const tierKeys = event.ticketTiers.map(({ key }) => key).join(", ");
+        tier = event.ticketTiers.find(({ key }) => key === tierKey) ?? null;
+
+        if (!tier) {
+            return { errors: { ticketTier: tierKey ? `ticketTier must be one of ${tierKeys}` : `ticketTier is required, choose one of ${tierKeys}` } };
+        }
+
+        const tierError = getTierError(event, tier, now);
+        if (tierError) {
+            return { errors: { ticketTier: tierError } };
+        }
+    } else if (tierKey) {
+        return { errors: { ticketTier: "This event has no ticket tiers" } };
+    }
+
+    const basePrice = tier ? tier.price : event.price;
+    const earlyBird = !!tier && tier.earlyBirdPrice !== null && !!tier.earlyBirdEndsAt && now < tier.earlyBirdEndsAt;
+    const price = earlyBird && tier ? tier.earlyBirdPrice as number : basePrice;
+
+    let promo: IPromoCode | null = null;
+    if (code) {
+        promo = await PromoCode.findOne({ code: normalizePromoCode(code) });
+        const promoError = getPromoCodeError(promo, String(event.id), tier?.key ?? null, now);
+        if (promoError) {
+            return { errors: { promoCode: promoError } };
+        }
+    }
+
+    const discount = promo ? computeDiscount(promo, price) : 0;
+
+    return {
+        quote: {
+            tier: tier?.key ?? null,
+            basePrice,
+            earlyBird,
+            price,
+            promoCode: promo?.code ?? null,
+            discount,
+            finalPrice: roundPrice(price - discount),
+        },
+    };
+};
+
+// the tier must still exist and have tickets left, checked against the stored document so two registrations can't take the last ticket
+const tierHasTicketsLeft = (tierKey: string) => ({
+    $let: {
+        vars: { tier: { $first: { $filter: { input: "$ticketTiers", cond: { $eq: ["$$this.key", tierKey] } } } } },
+        in: {
+            $and: [
+                { $ne: [{ $type: "$$tier" }, "missing"] },
+                {
+                    $or: [
+                        { $eq: [{ $ifNull: ["$$tier.capacity", null] }, null] },
+                        { $lt: [{ $ifNull: [`$ticketSales.${tierKey}`, 0] }, "$$tier.capacity"] },
+                    ],
+                },
+            ],
+        },
+    },
+});
+
+const redeemablePromoCode = (code: string, eventId: string, tierKey: string | null, now: Date): FilterQuery<IPromoCode> => ({
+    code,
+    isActive: true,
+    $and: [
+        { $or: [{ eventId: null }, { eventId }] },
+        { $or: [{ tierKeys: { $size: 0 } }, { tierKeys: tierKey }] },
+        { $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+        { $or: [{ maxUses: null }, { $expr: { $lt: ["$usesCount", "$maxUses"] } }] },
+    ],
+});
+
+export const releaseTicket = async (eventId: string, ticket: Pick<AttendeeTicket, "tier" | "promoCode">) => {
+    if (ticket.tier) {
+        await Event.updateOne(
+            { _id: eventId, [`ticketSales.${ticket.tier}`]: { $gt: 0 } },
+            { $inc: { [`ticketSales.${ticket.tier}`]: -1 } },
+        );
+    }
+    if (ticket.promoCode) {
+        await PromoCode.updateOne({ code: ticket.promoCode, usesCount: { $gt: 0 } }, { $inc: { usesCount: -1 } });
+    }
+};
+
+/**
+ * Takes a ticket of the quoted tier and a use of the quoted promo code. Returns field errors, and gives back
+ * what it took, when either ran out since the quote.
+ */
+export const reserveTicket = async (eventId: string, quote: TicketQuote, now: Date = new Date()): Promise<Errors | null> => {
+    if (quote.tier) {
+        const { modifiedCount } = await Event.updateOne(
+            { _id: eventId, $expr: tierHasTicketsLeft(quote.tier) },
+            { $inc: { [`ticketSales.${quote.tier}`]: 1 } },
+        );
+
+        if (!modifiedCount) {
+            return { ticketTier: "This tier just sold out" };
+        }
+    }
+
+    if (quote.promoCode) {
+        const { modifiedCount } = await PromoCode.updateOne(
+            redeemablePromoCode(quote.promoCode, eventId, quote.tier, now),
+            { $inc: { usesCount: 1 } },
+        );
+
+        if (!modifiedCount) {
+            await releaseTicket(eventId, { tier: quote.tier, promoCode: null });
+            return { promoCode: "promo code has reached its usage limit" };
+        }
+    }
+
+    return null;
+};
+
+// tiers that already sold tickets can't be removed or shrunk below what they sold
+export const getTicketTiersUpdateErrors = (event: PricedEvent, tiers: TicketTier[]) => {
+    const errors: Errors = {};
+
+    event.ticketSales.forEach((sold, key) => {
+        const tier = tiers.find((candidate) => candidate.key === key);
+        if (sold > 0 && !tier) {
+            errors.ticketTiers = `The ${key} tier has ${sold} registrations and can't be removed`;
+        } else if (tier?.capacity && tier.capacity < sold) {
+            errors.ticketTiers = `The ${key} tier capacity can't be less than the ${sold} tickets already taken`;
+        }
+    });
+
+    return Object.keys(errors).length ? errors : null;
+};
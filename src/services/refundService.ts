@@ -0,0 +1,151 @@
+import { FilterQuery, Types } from "mongoose";
+import RefundRequest, { IRefundRequest, RefundReason, RefundStatus } from "../models/RefundRequest";
+import EventAttendee, { PaymentMethod } from "../models/EventAttendee";
+import IEventAttendee from "../types/EventAttendee";
+import { getNetPaid, recordRefund } from "./ledgerService";
+import { getPaymentCurrency } from "./paymentService";
+
+type RefundableEvent = { isPaid: boolean, price: number };
+
+/**
+ * What a registration can get back: the ledger balance, or the event price for a receipt that was uploaded but
+ * never reviewed, since the money may have been sent. Admins check those receipts before approving the refund.
+ */
+export const getRefundableAmount = async (attendee: IEventAttendee, event: RefundableEvent) => {
+    if (!event.isPaid) {
+        return 0;
+    }
+
+    const netPaid = await getNetPaid(attendee.id);
+    if (netPaid > 0) {
+        return netPaid;
+    }
+
+    const hasUnreviewedReceipt = !attendee.isApproved && !!attendee.receipt?.imageUrl
+        && attendee.paymentMethod !== PaymentMethod.Online;
+    return hasUnreviewedReceipt ? attendee.price ?? event.price : 0;
+};
+
+// returns null when there is nothing to refund or the registration already has a request
+export const requestRefund = async (attendee: IEventAttendee, event: RefundableEvent, reason: RefundReason) => {
+    const amount = await getRefundableAmount(attendee, event);
+
+    if (amount <= 0) {
+        return null;
+    }
+
+    const refund = await RefundRequest.findOneAndUpdate(
+        { attendeeId: attendee.id },
+        {
+            $setOnInsert: {
+                eventId: attendee.eventId,
+                userId: attendee.userId,
+                reason,
+                amount,
+                currency: getPaymentCurrency(),
+                receiptUrl: attendee.receipt?.imageUrl ?? null,
+            },
+        },
+        { upsert: true, new: true, includeResultMetadata: true },
+    );
+
+    return refund.lastErrorObject?.updatedExisting ? null : refund.value;
+};
+
+export const requestEventRefunds = async (eventId: string, event: RefundableEvent) => {
+    if (!event.isPaid) {
+        return 0;
+    }
+
+    const attendees = await EventAttendee.find({ eventId });
+    const refunds = await Promise.all(attendees.map((attendee) => requestRefund(attendee, event, RefundReason.EventCancelled)));
+    const refundedAttendeeIds = attendees.filter((attendee, i) => refunds[i]).map((attendee) => attendee.id);
+
+    await EventAttendee.updateMany({ _id: { $in: refundedAttendeeIds } }, { needsRefund: true });
+
+    return refundedAttendeeIds.length;
+};
+
+export const getRefundRequests = async (filter: FilterQuery<IRefundRequest>) => {
+    const refunds = await RefundRequest.find(filter)
+        .sort({ createdAt: 1 })
+        .populate("user", "firstName lastName email")
+        .populate("event", "name");
+    return refunds;
+};
+
+export const getRefundRequestById = async (refundId: string) => {
+    const refund = await RefundRequest.findById(refundId);
+    return refund;
+};
+
+/**
+ * Moves a requested refund to its final state. Returns null when someone else reviewed it first.
+ * Approving writes the refund row to the ledger.
+ */
+export const reviewRefundRequest = async (
+    refundId: string,
+    decision: RefundStatus.Approved | RefundStatus.Rejected,
+    reviewerId: string,
+    note: string | null,
+    refundedAmount: number | null = null,
+) => {
+    const refund = await RefundRequest.findOneAndUpdate(
+        { _id: refundId, status: RefundStatus.Requested },
+        {
+            status: decision,
+            refundedAmount: decision === RefundStatus.Approved ? refundedAmount : null,
+            reviewedBy: reviewerId,
+            reviewedAt: new Date(),
+            reviewNote: note,
+        },
+        { new: true },
+    );
+
+    if (refund && decision === RefundStatus.Approved) {
+        await recordRefund({
+            eventId: refund.eventId,
+            attendeeId: refund.attendeeId,
+            userId: refund.userId,
+            refundRequestId: refund.id,
+            amount: refund.refundedAmount ?? refund.amount,
+            currency: refund.currency,
+            note,
+            recordedBy: reviewerId,
+        });
+        await EventAttendee.updateOne({ _id: refund.attendeeId }, { needsRefund: false });
+    }
+
+    return refund;
+};
+
+export const getOutstandingRefundsReport = async (eventId?: string) => {
+    const report = await RefundRequest.aggregate([
+        { $match: { status: RefundStatus.Requested, ...(eventId && { eventId: new Types.ObjectId(eventId) }) } },
+        {
+            $group: {
+                _id: { eventId: "$eventId", currency: "$currency" },
+                count: { $sum: 1 },
+                amount: { $sum: "$amount" },
+            },
+        },
+        {
+            $lookup: {
+                from: "events", localField: "_id.eventId", foreignField: "_id", as: "event",
+            },
+        },
+        {
+            $project: {
+                _id: 0,
+                eventId: "$_id.eventId",
+                eventName: { $ifNull: [{ $first: "$event.name" }, null] },
+                currency: "$_id.currency",
+                count: 1,
+                amount: 1,
+            },
+        },
+        { $sort: { amount: -1 } },
+    ]);
+
+    return report;
+};
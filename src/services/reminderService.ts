@@ -0,0 +1,149 @@
+import Event, { AttendanceMode } from "../models/Event";
+import EventAttendee from "../models/EventAttendee";
+import User from "../models/User";
+import { IVenue } from "../models/Venue";
+import IEventAttendee from "../types/EventAttendee";
+import { publishedEventFilter } from "./eventService";
+import { generateTicketQRCode, generateTicketToken } from "./ticketService";
+import { sendEventReminderEmail } from "./emailService";
+import { createMailTransport, MailTransport } from "../utils/sendEmail";
+import { formatInTimeZone } from "../utils/timezone";
+
+const REMINDER_INTERVAL_MS = 60 * 1000;
+const DEFAULT_REMINDER_OFFSETS_HOURS = [24, 1];
+const HOUR = 60 * 60 * 1000;
+
+type EventDocument = InstanceType<typeof Event>;
+
+export interface ReminderOptions {
+    clock?: () => Date;
+    transport?: MailTransport;
+    offsetsHours?: number[];
+}
+
+// e.g. REMINDER_OFFSETS_HOURS=24,1 sends a reminder a day and an hour before every event
+export const parseReminderOffsets = (value: string | undefined = process.env.REMINDER_OFFSETS_HOURS) => {
+    const offsets = (value ?? "")
+        .split(",")
+        .map((offset) => Number(offset.trim()))
+        .filter((offset) => offset > 0);
+
+    return offsets.length ? [...new Set(offsets)] : DEFAULT_REMINDER_OFFSETS_HOURS;
+};
+
+// used when the start date moves so reminders go out again relative to the new date
+export const resetEventReminders = async (eventId: string) => {
+    await EventAttendee.updateMany({ eventId }, { remindersSent: [] });
+};
+
+const describeEvent = (event: EventDocument) => {
+    const details = [
+        `Starts: ${formatInTimeZone(event.startDate, event.timezone)} (${event.timezone})`,
+        `Ends: ${formatInTimeZone(event.endDate, event.timezone)}`,
+    ];
+
+    const venue = event.venue as IVenue | null;
+    if (venue) {
+        details.push(`Venue: ${[event.room, venue.name, venue.address].filter(Boolean).join(", ")}`);
+    }
+
+    if (event.attendanceMode !== AttendanceMode.InPerson) {
+        details.push(`Join online: the meeting details are on ${process.env.BASE_URL_FRONTEND}/events/${event.id} `
+            + `from ${event.meetingRevealMinutesBeforeStart} minutes before the start`);
+    }
+
+    return details;
+};
+
+/**
+ * Claims the due offsets for the attendee before emailing, so a restart or a second server never sends the same
+ * reminder twice. The claim is given back when the email fails, to retry on the next run.
+ */
+const remindAttendee = async (event: EventDocument, attendee: IEventAttendee, dueOffsets: number[], transport: MailTransport) => {
+    const latestOffset = Math.min(...dueOffsets);
+
+    const claimed = await EventAttendee.findOneAndUpdate(
+        { _id: attendee.id, remindersSent: { $ne: latestOffset } },
+        { $addToSet: { remindersSent: { $each: dueOffsets } } },
+    );
+
+    if (!claimed) {
+        return false;
+    }
+
+    const claimedOffsets = dueOffsets.filter((offset) => !claimed.remindersSent.includes(offset));
+
+    try {
+        const user = await User.findById(attendee.userId, "email firstName");
+
+        if (!user) {
+            return false;
+        }
+
+        const ticket = generateTicketToken(attendee);
+        const qrCode = await generateTicketQRCode(ticket);
+
+        await sendEventReminderEmail(user.email, user.firstName, event.name, describeEvent(event), ticket, qrCode, transport);
+        return true;
+    } catch (err) {
+        await EventAttendee.updateOne({ _id: attendee.id }, { $pullAll: { remindersSent: claimedOffsets } });
+        throw err;
+    }
+};
+
+const remindEventAttendees = async (event: EventDocument, now: Date, offsetsHours: number[], transport: MailTransport) => {
+    // a late registration only gets the closest reminder, not one per missed offset
+    const dueOffsets = offsetsHours.filter((offset) => event.startDate.getTime() - offset * HOUR <= now.getTime());
+    const latestOffset = Math.min(...dueOffsets);
+
+    const attendees = await EventAttendee.find({
+        eventId: event.id,
+        isApproved: true,
+        isWaitlisted: false,
+        remindersSent: { $ne: latestOffset },
+    });
+
+    return Promise.allSettled(attendees.map((attendee) => remindAttendee(event, attendee, dueOffsets, transport)));
+};
+
+export const sendDueReminders = async ({
+    clock = () => new Date(),
+    transport = createMailTransport(),
+    offsetsHours = parseReminderOffsets(),
+}: ReminderOptions = {}) => {
+    const now = clock();
+
+    const events = await Event.find({
+        ...publishedEventFilter(now),
+        isActive: true,
+        startDate: { $gt: now, $lte: new Date(now.getTime() + Math.max(...offsetsHours) * HOUR) },
+    }).populate("venue");
+
+    const results = (await Promise.all(events.map((event) => remindEventAttendees(event, now, offsetsHours, transport)))).flat();
+
+    results
+        .filter((result): result is PromiseRejectedResult => result.status === "rejected")
+        .forEach(({ reason }) => console.error("Couldn't send event reminder:", reason));
+
+    return {
+        sent: results.filter((result) => result.status === "fulfilled" && result.value).length,
+        failed: results.filter((result) => result.status === "rejected").length,
+    };
+};
+
+export const startReminderJob = (options: ReminderOptions = {}) => {
+    const transport = options.transport ?? createMailTransport();
+
+    const remind = () => sendDueReminders({ ...options, transport })
+        .then(({ sent, failed }) => {
+            if (sent || failed) {
+                console.log(`Sent ${sent} event reminder(s), ${failed} failed`);
+            }
+        })
+        .catch((err) => {
+            console.error("Couldn't send event reminders:", err);
+        });
+
+    remind();
+    return setInterval(remind, REMINDER_INTERVAL_MS);
+};
@@ -0,0 +1,50 @@
+import EventSession from "../models/EventSession";
+import Speaker from "../models/Speaker";
+
+export const getEventSessions = async (eventId: string) => {
+    const sessions = await EventSession.find({ eventId }).sort({ startDate: 1, room: 1 }).populate("speakers");
+    return sessions;
+};
+
+export const getEventSession = async (eventId: string, sessionId: string) => {
+    const session = await EventSession.findOne({ _id: sessionId, eventId }).populate("speakers");
+    return session;
+};
+
+export const findRoomConflict = async (eventId: string, room: string, startDate: Date, endDate: Date, excludeSessionId?: string) => {
+    const conflict = await EventSession.findOne({
+        eventId,
+        room,
+        startDate: { $lt: endDate },
+        endDate: { $gt: startDate },
+        ...(excludeSessionId && { _id: { $ne: excludeSessionId } }),
+    });
+    return conflict;
+};
+
+// the sessions that would no longer fit the event once they move by shiftMs along with it
+export const findSessionOutsideWindow = async (eventId: string, shiftMs: number, startDate: Date, endDate: Date) => {
+    const session = await EventSession.findOne({
+        eventId,
+        $or: [
+            { startDate: { $lt: new Date(startDate.getTime() - shiftMs) } },
+            { endDate: { $gt: new Date(endDate.getTime() - shiftMs) } },
+        ],
+    }).sort({ startDate: 1 });
+    return session;
+};
+
+export const shiftEventSessions = async (eventId: string, shiftMs: number) => {
+    await EventSession.updateMany({ eventId }, [
+        { $set: { startDate: { $add: ["$startDate", shiftMs] }, endDate: { $add: ["$endDate", shiftMs] } } },
+    ]);
+};
+
+export const allSpeakersExist = async (speakerIds: string[]) => {
+    const count = await Speaker.countDocuments({ _id: { $in: speakerIds } });
+    return count === speakerIds.length;
+};
+
+export const deleteEventSessions = async (eventId: string) => {
+    await EventSession.deleteMany({ eventId });
+};
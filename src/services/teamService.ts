@@ -0,0 +1,203 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import Team, { ITeam } from "../models/Team";
+import EventAttendee from "../models/EventAttendee";
+import Errors from "../types/Errors";
+
+type TeamEvent = { minTeamSize: number | null, maxTeamSize: number | null };
+
+type TeamMember = { id: string, firstName: string, lastName: string, email: string };
+
+// 8 hex characters, short enough to share in a chat message
+const generateInviteCode = () => crypto.randomBytes(4).toString("hex").toUpperCase();
+
+const isDuplicateKeyError = (err: unknown) => (err as { code?: number })?.code === 11000;
+
+// which unique index a duplicate key error comes from
+const isDuplicateOf = (err: unknown, field: string) => Boolean((err as { keyPattern?: { [key: string]: number } }).keyPattern?.[field]);
+
+export const isTeamEvent = (event: TeamEvent) => event.maxTeamSize !== null && event.maxTeamSize !== undefined;
+
+export const getTeamStatus = (team: Pick<ITeam, "members">, event: TeamEvent) => ({
+    size: team.members.length,
+    isComplete: team.members.length >= (event.minTeamSize ?? 1),
+});
+
+export const getUserTeam = async (eventId: string, userId: string) => {
+    const team = await Team.findOne({ eventId, members: userId });
+    return team;
+};
+
+export const getTeamById = async (eventId: string, teamId: string) => {
+    const team = await Team.findOne({ _id: teamId, eventId });
+    return team;
+};
+
+/**
+ * Creates a team with the user as its captain and only member. Returns field errors when the name is taken, or
+ * a conflict when the user joined another team in the meantime.
+ */
+export const createTeam = async (eventId: string, name: string, captainId: string): Promise<{ team?: ITeam, errors?: Errors, conflict?: string }> => {
+    try {
+        const team = await Team.create({
+            eventId,
+            name,
+            captainId,
+            members: [captainId],
+            inviteCode: generateInviteCode(),
+        });
+        return { team };
+    } catch (err) {
+        if (isDuplicateKeyError(err) && isDuplicateOf(err, "name")) {
+            return { errors: { name: "A team with this name already exists in this event" } };
+        }
+        if (isDuplicateKeyError(err) && isDuplicateOf(err, "members")) {
+            return { conflict: "You are already in a team of this event" };
+        }
+        throw err;
+    }
+};
+
+/**
+ * Adds the user to the team holding the invite code as long as it has room left. Returns field errors when the code
+ * is unknown or the team is full, or a conflict when the user joined another team in the meantime.
+ */
+export const joinTeam = async (
+    eventId: string,
+    event: TeamEvent,
+    inviteCode: string,
+    userId: string,
+): Promise<{ team?: ITeam, errors?: Errors, conflict?: string }> => {
+    const code = inviteCode.trim().toUpperCase();
+
+    try {
+        const team = await Team.findOneAndUpdate(
+            { eventId, inviteCode: code, $expr: { $lt: [{ $size: "$members" }, event.maxTeamSize] } },
+            { $push: { members: userId } },
+            { new: true },
+        );
+
+        if (team) {
+            return { team };
+        }
+    } catch (err) {
+        if (isDuplicateKeyError(err) && isDuplicateOf(err, "members")) {
+            return { conflict: "You are already in a team of this event" };
+        }
+        throw err;
+    }
+
+    const exists = await Team.exists({ eventId, inviteCode: code });
+    return { errors: { inviteCode: exists ? `This team already has the maximum of ${event.maxTeamSize} members` : "invite code is not valid" } };
+};
+
+/**
+ * Takes the user out of their team in the event. The next member in joining order becomes captain when the captain
+ * leaves, and the team is deleted with its last member. Returns the team as it is left, or null when it was deleted
+ * or the user had no team.
+ */
+export const removeTeamMember = async (eventId: string, userId: string) => {
+    const lastMemberTeam = await Team.findOneAndDelete({ eventId, members: [userId] });
+
+    if (lastMemberTeam) {
+        return null;
+    }
+
+    const team = await Team.findOneAndUpdate({ eventId, members: userId }, { $pull: { members: userId } }, { new: true });
+
+    if (!team) {
+        return null;
+    }
+
+    if (!team.members.length) {
+        await Team.deleteOne({ _id: team.id, members: { $size: 0 } });
+        return null;
+    }
+
+    if (String(team.captainId) === String(userId)) {
+        [team.captainId] = team.members;
+        await team.save();
+    }
+
+    return team;
+};
+
+export const regenerateInviteCode = async (teamId: string) => {
+    const team = await Team.findByIdAndUpdate(teamId, { inviteCode: generateInviteCode() }, { new: true });
+    return team;
+};
+
+export const deleteEventTeams = async (eventId: string) => {
+    await Team.deleteMany({ eventId });
+};
+
+// the teams with their members and whether each member's registration is approved
+const withMemberDetails = async (teams: ITeam[], eventId: string, event: TeamEvent) => {
+    const userIds = teams.flatMap((team) => team.members.map((member) => (member as unknown as TeamMember).id));
+    const attendees = await EventAttendee.find({ eventId, userId: { $in: userIds } }, "userId isApproved isWaitlisted");
+    const registrations = new Map(attendees.map((attendee) => [String(attendee.userId), attendee]));
+
+    return teams.map((team) => ({
+        ...team.toJSON(),
+        ...getTeamStatus(team, event),
+        members: team.members.map((member) => {
+            const user = member as unknown as TeamMember;
+            const registration = registrations.get(user.id);
+            return {
+                id: user.id,
+                firstName: user.firstName,
+                lastName: user.lastName,
+                email: user.email,
+                isApproved: registration?.isApproved ?? false,
+                isWaitlisted: registration?.isWaitlisted ?? false,
+            };
+        }),
+    }));
+};
+
+export const getTeamDetails = async (team: ITeam, eventId: string, event: TeamEvent) => {
+    await team.populate("members", "firstName lastName email");
+    const [details] = await withMemberDetails([team], eventId, event);
+    return details;
+};
+
+export const getEventTeams = async (eventId: string, event: TeamEvent, isComplete?: boolean) => {
+    const teams = await Team.find({ eventId }).sort({ createdAt: 1 }).populate("members", "firstName lastName email");
+    const details = await withMemberDetails(teams, eventId, event);
+    return isComplete === undefined ? details : details.filter((team) => team.isComplete === isComplete);
+};
+
+// team sizes can only change while every existing team still fits
+export const getTeamSizeUpdateErrors = async (eventId: string, event: TeamEvent, update: Partial<TeamEvent>): Promise<Errors | null> => {
+    const minTeamSize = update.minTeamSize !== undefined ? update.minTeamSize : event.minTeamSize;
+    const maxTeamSize = update.maxTeamSize !== undefined ? update.maxTeamSize : event.maxTeamSize;
+
+    if (minTeamSize !== null && maxTeamSize !== null && minTeamSize > maxTeamSize) {
+        return { minTeamSize: `minTeamSize can't be more than maxTeamSize ${maxTeamSize}` };
+    }
+
+    if (minTeamSize !== null && maxTeamSize === null) {
+        return { maxTeamSize: "maxTeamSize is required when minTeamSize is set" };
+    }
+
+    if (update.maxTeamSize === undefined) {
+        return null;
+    }
+
+    const [largest] = await Team.aggregate<{ size: number }>([
+        { $match: { eventId: new Types.ObjectId(eventId) } },
+        { $project: { size: { $size: "$members" } } },
+        { $sort: { size: -1 } },
+        { $limit: 1 },
+    ]);
+
+    if (largest && maxTeamSize === null) {
+        return { maxTeamSize: "The event already has teams, it can't stop being a team event" };
+    }
+
+    if (largest && maxTeamSize !== null && largest.size > maxTeamSize) {
+        return { maxTeamSize: `maxTeamSize can't be less than the ${largest.size} members a team already has` };
+    }
+
+    return null;
+};
@@ -0,0 +1,49 @@
+import dotenv from "dotenv";
+import jwt from "jsonwebtoken";
+import QRCode from "qrcode";
+import IEventAttendee from "../types/EventAttendee";
+import EventAttendee from "../models/EventAttendee";
+
+dotenv.config();
+
+const { JWT_TICKET_SECRET } = process.env;
+
+if (!JWT_TICKET_SECRET) {
+    throw new Error("JWT ticket secret is not defined in environment variables.");
+}
+
+export interface TicketPayload {
+    attendeeId: string;
+    eventId: string;
+    userId: string;
+}
+
+export const generateTicketToken = (attendee: IEventAttendee) => jwt.sign(
+    {
+        attendeeId: attendee.id,
+        eventId: attendee.eventId.toString(),
+        userId: attendee.userId.toString(),
+    },
+    JWT_TICKET_SECRET,
+);
+
+export const verifyTicketToken = (token: string) => new Promise<TicketPayload>((resolve, reject) => {
+    jwt.verify(token, JWT_TICKET_SECRET, (err, decoded) => {
+        if (err) {
+            reject(err);
+        } else {
+            resolve(decoded as TicketPayload);
+        }
+    });
+});
+
+export const generateTicketQRCode = (token: string) => QRCode.toDataURL(token);
+
+export const checkInAttendee = async (attendeeId: string, staffId: string) => {
+    const attendee = await EventAttendee.findOneAndUpdate(
+        { _id: attendeeId, checkedInAt: null },
+        { checkedInAt: new Date(), checkedInBy: staffId },
+        { new: true },
+    ).populate("user").populate("event");
+    return attendee;
+};
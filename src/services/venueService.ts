@@ -0,0 +1,95 @@
+import Event, { EventStatus } from "../models/Event";
+import Venue from "../models/Venue";
+import Errors from "../types/Errors";
+
+export interface VenueBooking {
+    venue: string | null;
+    room: string | null;
+    capacity: number;
+    duration: number; // Hours is unit of measurement
+    startDates: Date[];
+}
+
+const HOUR = 60 * 60 * 1000;
+
+export const findRoomBookingConflict = async (
+    venueId: string,
+    room: string,
+    slots: { startDate: Date, endDate: Date }[],
+    excludeEventIds: string[] = [],
+) => {
+    const conflict = await Event.findOne({
+        _id: { $nin: excludeEventIds },
+        venue: venueId,
+        room,
+        isActive: true,
+        status: { $ne: EventStatus.Cancelled },
+        $or: slots.map(({ startDate, endDate }) => ({ startDate: { $lt: endDate }, endDate: { $gt: startDate } })),
+    }).sort({ startDate: 1 });
+    return conflict;
+};
+
+// upcoming events booking a room that isn't in `roomNames`, used before rooms are removed from a venue
+export const findBookingOutsideRooms = async (venueId: string, roomNames: string[]) => {
+    const event = await Event.findOne({
+        venue: venueId,
+        room: { $nin: [...roomNames, null] },
+        isActive: true,
+        status: { $ne: EventStatus.Cancelled },
+        endDate: { $gt: new Date() },
+    });
+    return event;
+};
+
+export const countVenueEvents = async (venueId: string) => {
+    const count = await Event.countDocuments({ venue: venueId });
+    return count;
+};
+
+/**
+ * Checks the venue and room booked by an event, or by every occurrence of a series.
+ * Overlapping room bookings are errors, exceeding the capacity of the venue or room is only a warning.
+ */
+export const checkVenueBooking = async (
+    booking: VenueBooking,
+    excludeEventIds: string[] = [],
+): Promise<{ errors: Errors | null, warnings: string[] }> => {
+    const warnings: string[] = [];
+
+    if (!booking.venue) {
+        const errors = booking.room ? { room: "A room can only be booked with a venue" } : null;
+        return { errors, warnings };
+    }
+
+    const venue = await Venue.findById(booking.venue);
+
+    if (!venue) {
+        return { errors: { venue: "Venue doesn't exist" }, warnings };
+    }
+
+    const room = booking.room ? venue.rooms.find(({ name }) => name === booking.room) : null;
+
+    if (booking.room && !room) {
+        return { errors: { room: `${venue.name} has no room named ${booking.room}` }, warnings };
+    }
+
+    if (room && booking.startDates.length) {
+        const slots = booking.startDates.map((startDate) => ({
+            startDate,
+            endDate: new Date(startDate.getTime() + booking.duration * HOUR),
+        }));
+        const conflict = await findRoomBookingConflict(venue.id, room.name, slots, excludeEventIds);
+
+        if (conflict) {
+            const period = `${conflict.startDate.toISOString()} to ${conflict.endDate.toISOString()}`;
+            return { errors: { room: `${room.name} is already booked by "${conflict.name}" from ${period}` }, warnings };
+        }
+    }
+
+    const [place, capacity] = room?.capacity ? [room.name, room.capacity] : [venue.name, venue.capacity];
+    if (booking.capacity > capacity) {
+        warnings.push(`Event capacity (${booking.capacity}) exceeds the capacity of ${place} (${capacity})`);
+    }
+
+    return { errors: null, warnings };
+};
@@ -0,0 +1,14 @@
+export type AttendeeExportFormat = "csv" | "xlsx";
+
+export type AttendeeExportStatus = "approved" | "pending" | "rejected" | "waitlisted";
+
+export default interface AttendeeExportFilters {
+    format: AttendeeExportFormat;
+    eventId?: string;
+    // the events an organizer may export, unset for admins
+    eventIds?: string[];
+    status?: AttendeeExportStatus;
+    checkedIn?: boolean;
+    from?: Date;
+    to?: Date;
+}
@@ -1,9 +1,28 @@
 import { Document, Schema } from "mongoose";
 import Receipt from "./Receipt";
+import { PaymentMethod, RescheduleResponse, ReviewStatus } from "../models/EventAttendee";
 
 export default interface EventAttendee extends Document {
     userId: Schema.Types.ObjectId;
     eventId: Schema.Types.ObjectId;
     isApproved: boolean;
+    reviewStatus: ReviewStatus;
+    reviewedBy: Schema.Types.ObjectId | null;
+    reviewedAt: Date | null;
+    rejectionReason: string | null;
+    isWaitlisted: boolean;
+    promotedAt: Date | null;
+    ticketTier: string | null;
+    promoCode: string | null;
+    price: number | null;
+    paymentMethod: PaymentMethod | null;
     receipt: Receipt;
+    answers: { [key: string]: unknown };
+    checkedInAt: Date | null;
+    checkedInBy: Schema.Types.ObjectId | null;
+    rescheduleResponse: RescheduleResponse | null;
+    needsRefund: boolean;
+    remindersSent: number[];
+    createdAt: Date;
+    updatedAt: Date;
 };
@@ -0,0 +1,18 @@
+export type EventSearchTiming = "upcoming" | "happening" | "finished";
+
+export type EventSearchSort = "startDate" | "-startDate" | "price" | "-price" | "name" | "-name" | "createdAt" | "-createdAt" | "relevance";
+
+export default interface EventSearchFilters {
+    q?: string;
+    category?: string;
+    timing?: EventSearchTiming;
+    from?: Date;
+    to?: Date;
+    isPaid?: boolean;
+    minPrice?: number;
+    maxPrice?: number;
+    age?: number;
+    sort: EventSearchSort;
+    page: number;
+    limit: number;
+}
@@ -0,0 +1,38 @@
+import { IncomingHttpHeaders } from "http";
+
+export type PaymentOutcome = "succeeded" | "failed";
+
+export interface CheckoutSessionRequest {
+    reference: string;
+    amount: number;
+    currency: string;
+    description: string;
+    customerEmail: string;
+    successUrl: string;
+    cancelUrl: string;
+}
+
+export interface CheckoutSession {
+    sessionId: string;
+    checkoutUrl: string;
+    expiresAt: Date | null;
+}
+
+export interface PaymentWebhookEvent {
+    sessionId: string;
+    outcome: PaymentOutcome;
+    amount: number;
+    currency: string;
+    providerPaymentId: string | null;
+    failureReason: string | null;
+}
+
+/**
+ * What a payment gateway has to offer to take event payments. `parseWebhook` must throw when the
+ * signature doesn't match, the webhook route is public.
+ */
+export default interface PaymentProvider {
+    name: string;
+    createCheckoutSession(request: CheckoutSessionRequest): Promise<CheckoutSession>;
+    parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent;
+}
@@ -0,0 +1,8 @@
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+export default interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    interval: number;
+    count?: number;
+    until?: Date;
+}
@@ -0,0 +1,11 @@
+export type RegistrationQuestionType = "text" | "single_choice" | "multi_choice" | "number";
+
+export default interface RegistrationQuestion {
+    key: string;
+    label: string;
+    type: RegistrationQuestionType;
+    required: boolean;
+    options: string[];
+    min?: number;
+    max?: number;
+}
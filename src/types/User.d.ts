@@ -9,6 +9,7 @@ export interface UserAttributes {
     password: string;
     isActive: boolean;
     role: UserRole;
+    calendarToken: string | null;
 }
 
 export type UserAuth = UserAttributes & { id: string };
@@ -0,0 +1,45 @@
+import Joi from "joi";
+import { UserRole } from "../models/User";
+
+const MAX_LISTED_USERS = 1000;
+
+const userIds = (field: string) => Joi.array()
+    .items(Joi.string().hex().length(24))
+    .max(MAX_LISTED_USERS)
+    .unique()
+    .messages({
+        "string.hex": `${field} must contain valid user ids`,
+        "string.length": `${field} must contain valid user ids`,
+        "array.max": `${field} can't have more than ${MAX_LISTED_USERS} users`,
+        "array.unique": `${field} can't contain the same user twice`,
+    });
+
+// Joi schema validating the eligibility rules of an event, the whole object is replaced on update
+const buildEligibilitySchema = () => Joi.object({
+    allowedRoles: Joi.array()
+        .items(Joi.string().valid(...Object.values(UserRole)))
+        .unique()
+        .messages({
+            "any.only": `allowedRoles must contain only ${Object.values(UserRole).join(", ")}`,
+            "array.unique": "allowedRoles can't contain the same role twice",
+        }),
+    emailDomains: Joi.array()
+        .items(Joi.string().lowercase().domain())
+        .unique()
+        .messages({
+            "string.domain": "emailDomains must contain valid domains like iti.gov.eg",
+            "array.unique": "emailDomains can't contain the same domain twice",
+        }),
+    allowedUsers: userIds("allowedUsers"),
+    deniedUsers: userIds("deniedUsers"),
+    requireVerifiedEmail: Joi.boolean()
+        .strict()
+        .messages({
+            "boolean.base": "requireVerifiedEmail must be true/false",
+        }),
+})
+    .messages({
+        "object.base": "eligibility must be an object",
+    });
+
+export default buildEligibilitySchema;
@@ -0,0 +1,64 @@
+export interface CalendarEvent {
+    uid: string;
+    summary: string;
+    description: string;
+    start: Date;
+    end: Date;
+    sequence: number;
+    lastModified: Date;
+    cancelled: boolean;
+    url?: string;
+}
+
+const PRODUCT_ID = "-//ITI Events//ITI Events Server//EN";
+const MAX_LINE_LENGTH = 75;
+
+const escapeText = (text: string) => text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const formatDate = (date: Date) => `${date.toISOString().replace(/[-:]/g, "").split(".")[0]}Z`;
+
+// RFC 5545 lines longer than 75 octets are split and continued with a leading space
+const foldLine = (line: string) => {
+    const chunks: string[] = [];
+    let current = "";
+    Array.from(line).forEach((char) => {
+        const limit = chunks.length ? MAX_LINE_LENGTH - 1 : MAX_LINE_LENGTH;
+        if (Buffer.byteLength(current + char) > limit) {
+            chunks.push(current);
+            current = "";
+        }
+        current += char;
+    });
+    chunks.push(current);
+    return chunks.join("\r\n ");
+};
+
+const buildEvent = (event: CalendarEvent) => [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDate(event.lastModified)}`,
+    `DTSTART:${formatDate(event.start)}`,
+    `DTEND:${formatDate(event.end)}`,
+    `SEQUENCE:${event.sequence}`,
+    `STATUS:${event.cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    ...(event.url ? [`URL:${event.url}`] : []),
+    `LAST-MODIFIED:${formatDate(event.lastModified)}`,
+    "END:VEVENT",
+];
+
+export const buildCalendar = (name: string, events: CalendarEvent[]) => [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(buildEvent),
+    "END:VCALENDAR",
+].map(foldLine).join("\r\n").concat("\r\n");
@@ -0,0 +1,51 @@
+import RecurrenceRule from "../types/Recurrence";
+import { getWallClock, wallClockToUtc, WallClock } from "./timezone";
+
+export const MAX_OCCURRENCES = 100;
+
+const addPeriods = (start: WallClock, rule: RecurrenceRule, periods: number): WallClock => {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day));
+    const steps = periods * rule.interval;
+
+    if (rule.frequency === "daily") {
+        date.setUTCDate(date.getUTCDate() + steps);
+    } else if (rule.frequency === "weekly") {
+        date.setUTCDate(date.getUTCDate() + steps * 7);
+    } else {
+        date.setUTCMonth(date.getUTCMonth() + steps);
+    }
+
+    return {
+        ...start,
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+    };
+};
+
+/**
+ * Expands a recurrence rule into the start dates of its occurrences, the first one being `start`.
+ * Occurrences keep the wall-clock time of `start` in `timeZone`, so they don't drift across DST changes.
+ * Like RRULE, monthly occurrences falling on a day the month doesn't have (e.g. the 31st) are skipped.
+ * At most MAX_OCCURRENCES + 1 dates are returned so callers can detect rules that produce too many.
+ */
+export const expandRecurrence = (start: Date, rule: RecurrenceRule, timeZone: string) => {
+    const dates: Date[] = [];
+    const startWallClock = getWallClock(start, timeZone);
+    const limit = Math.min(rule.count ?? Infinity, MAX_OCCURRENCES + 1);
+
+    for (let period = 0; dates.length < limit; period += 1) {
+        const wallClock = addPeriods(startWallClock, rule, period);
+        const date = period === 0 ? start : wallClockToUtc(wallClock, timeZone);
+
+        if (rule.until && date > rule.until) {
+            break;
+        }
+
+        if (rule.frequency !== "monthly" || wallClock.day === startWallClock.day) {
+            dates.push(date);
+        }
+    }
+
+    return dates;
+};
@@ -0,0 +1,126 @@
+import Joi from "joi";
+import RegistrationQuestion from "../types/RegistrationQuestion";
+
+export const QUESTION_TYPES = ["text", "single_choice", "multi_choice", "number"];
+
+// Joi schema validating a list of questions admins define on an event, e.g. its registration form
+export const buildQuestionsSchema = (field: string) => Joi.array()
+    .items(Joi.object({
+        key: Joi.string()
+            .pattern(/^[A-Za-z][A-Za-z0-9_]*$/)
+            .max(50)
+            .required()
+            .messages({
+                "string.pattern.base": "question key must start with a letter and contain only letters, digits and _",
+                "any.required": "question key is required",
+            }),
+        label: Joi.string()
+            .max(200)
+            .required()
+            .messages({
+                "string.empty": "question label cannot be empty",
+                "any.required": "question label is required",
+            }),
+        type: Joi.string()
+            .valid(...QUESTION_TYPES)
+            .required()
+            .messages({
+                "any.only": `question type must be one of ${QUESTION_TYPES.join(", ")}`,
+                "any.required": "question type is required",
+            }),
+        required: Joi.boolean()
+            .strict()
+            .messages({
+                "boolean.base": "question required must be true/false",
+            }),
+        options: Joi.array()
+            .items(Joi.string())
+            .unique()
+            .when("type", {
+                is: Joi.valid("single_choice", "multi_choice"),
+                then: Joi.array().min(2).required(),
+                otherwise: Joi.array().max(0),
+            })
+            .messages({
+                "array.min": "choice questions need at least {#limit} options",
+                "array.max": "only choice questions can have options",
+                "array.unique": "question options must be unique",
+                "any.required": "choice questions need options",
+            }),
+        min: Joi.number()
+            .strict()
+            .messages({
+                "number.base": "question min should be a number",
+            }),
+        max: Joi.number()
+            .strict()
+            .when("min", { is: Joi.number().required(), then: Joi.number().min(Joi.ref("min")) })
+            .messages({
+                "number.base": "question max should be a number",
+                "number.min": "question max can't be less than min",
+            }),
+    }))
+    .unique("key")
+    .max(30)
+    .messages({
+        "array.base": `${field} should be a list of questions`,
+        "array.unique": `${field} question keys must be unique`,
+        "array.max": `${field} can have at most {#limit} questions`,
+    });
+
+const buildAnswerSchema = (question: RegistrationQuestion) => {
+    let schema: Joi.Schema;
+
+    if (question.type === "number") {
+        let numberSchema = Joi.number();
+        if (question.min !== undefined && question.min !== null) {
+            numberSchema = numberSchema.min(question.min);
+        }
+        if (question.max !== undefined && question.max !== null) {
+            numberSchema = numberSchema.max(question.max);
+        }
+        schema = numberSchema;
+    } else if (question.type === "single_choice") {
+        schema = Joi.string().valid(...question.options);
+    } else if (question.type === "multi_choice") {
+        let arraySchema = Joi.array().items(Joi.string().valid(...question.options)).unique();
+        if (question.required) {
+            arraySchema = arraySchema.min(1);
+        }
+        schema = arraySchema;
+    } else {
+        let stringSchema = Joi.string().trim().max(question.max ?? 1000);
+        if (question.min !== undefined && question.min !== null) {
+            stringSchema = stringSchema.min(question.min);
+        }
+        schema = stringSchema;
+    }
+
+    schema = schema.label(question.label).messages({
+        "any.required": `${question.label} is required`,
+        "any.only": `${question.label} must be one of ${question.options.join(", ")}`,
+        "array.includes": `${question.label} answers must be from ${question.options.join(", ")}`,
+        "array.min": `${question.label} needs at least one answer`,
+        "array.unique": `${question.label} can't have the same answer twice`,
+        "number.base": `${question.label} should be a number`,
+        "number.min": `${question.label} must be at least {#limit}`,
+        "number.max": `${question.label} must be at most {#limit}`,
+        "string.base": `${question.label} should be a type of 'text'`,
+        "string.empty": `${question.label} cannot be empty`,
+        "string.min": `${question.label} should have a minimum length of {#limit}`,
+        "string.max": `${question.label} should have a maximum length of {#limit}`,
+    });
+
+    return question.required ? schema.required() : schema.allow(null, "");
+};
+
+// Joi schema validating the answers a user submits against the registration form of an event
+export const buildAnswersSchema = (questions: RegistrationQuestion[]) => Joi.object(
+    questions.reduce((keys: { [key: string]: Joi.Schema }, question) => {
+        keys[question.key] = buildAnswerSchema(question);
+        return keys;
+    }, {}),
+).messages({
+    "object.base": "answers should be an object",
+    "object.unknown": "{#label} is not a question of this event",
+});
@@ -1,31 +1,44 @@
-import nodemailer from "nodemailer";
+import nodemailer, { Transporter } from "nodemailer";
+import Mail from "nodemailer/lib/mailer";
 import asyncWrapper from "../utils/asyncWrapper";
 import AppError from "../errors/AppError";
 
-const sendEmail = async (email: string, subject: string, text: string) => {
-    const transporter = nodemailer.createTransport({
-        host: process.env.EMAIL_HOST,
-        service: process.env.EMAIL_SERVICE,
-        port: 587,
-        secure: false,
-        auth: {
-            user: process.env.EMAIL_USER,
-            pass: process.env.EMAIL_PASS,
-        },
-    });
+// anything that can send mail like nodemailer, lets jobs swap in a fake transport
+export type MailTransport = Pick<Transporter, "sendMail">;
 
+export type MailAttachment = Mail.Attachment;
+
+export const createMailTransport = (): MailTransport => nodemailer.createTransport({
+    host: process.env.EMAIL_HOST,
+    service: process.env.EMAIL_SERVICE,
+    port: 587,
+    secure: false,
+    auth: {
+        user: process.env.EMAIL_USER,
+        pass: process.env.EMAIL_PASS,
+    },
+});
+
+const sendEmail = async (
+    email: string,
+    subject: string,
+    text: string,
+    attachments: MailAttachment[] = [],
+    transporter: MailTransport = createMailTransport(),
+) => {
     const [error, info] = await asyncWrapper(
         transporter.sendMail({
             from: process.env.EMAIL_USER,
             to: email,
             subject,
             text,
+            attachments,
         }),
     );
 
     if (error) {
         console.log("Email not sent:", error);
-        throw new AppError("Failed to send email verification.");
+        throw new AppError("Failed to send email.");
     }
 
     console.log("Email sent successfully:", info);
@@ -0,0 +1,87 @@
+import Joi from "joi";
+
+const MAX_TICKET_TIERS = 10;
+
+export const TIER_DATE_FIELDS = ["salesStartAt", "salesEndAt", "earlyBirdEndsAt"];
+
+const tierDate = (field: string) => Joi.date()
+    .iso()
+    .allow(null)
+    .messages({
+        "date.base": `tier ${field} should be a valid date`,
+        "date.format": `tier ${field} should be ISO 8601 format YYYY-MM-DD / YYYY-MM-DDT00:00:00`,
+    });
+
+// Joi schema validating the ticket tiers admins define on an event, sold counts are never sent by clients
+export const buildTicketTiersSchema = () => Joi.array()
+    .items(Joi.object({
+        key: Joi.string()
+            .pattern(/^[A-Za-z][A-Za-z0-9_]*$/)
+            .max(50)
+            .required()
+            .messages({
+                "string.pattern.base": "tier key must start with a letter and contain only letters, digits and _",
+                "any.required": "tier key is required",
+            }),
+        name: Joi.string()
+            .max(100)
+            .required()
+            .messages({
+                "string.empty": "tier name cannot be empty",
+                "any.required": "tier name is required",
+            }),
+        price: Joi.number()
+            .min(0)
+            .precision(2)
+            .strict()
+            .required()
+            .messages({
+                "number.base": "tier price should be a number",
+                "number.min": "tier price can't be negative",
+                "number.precision": "tier price must have no more than 2 decimal places",
+                "any.required": "tier price is required",
+            }),
+        capacity: Joi.number()
+            .integer()
+            .positive()
+            .allow(null)
+            .strict()
+            .messages({
+                "number.base": "tier capacity should be a number",
+                "number.integer": "tier capacity must be an integer",
+                "number.positive": "tier capacity must be a positive number",
+            }),
+        salesStartAt: tierDate("salesStartAt"),
+        salesEndAt: tierDate("salesEndAt")
+            .when("salesStartAt", { is: Joi.date().required(), then: Joi.date().greater(Joi.ref("salesStartAt")) })
+            .messages({
+                "date.greater": "tier salesEndAt must be after salesStartAt",
+            }),
+        earlyBirdPrice: Joi.number()
+            .min(0)
+            .precision(2)
+            .less(Joi.ref("price"))
+            .allow(null)
+            .strict()
+            .messages({
+                "number.base": "tier earlyBirdPrice should be a number",
+                "number.min": "tier earlyBirdPrice can't be negative",
+                "number.less": "tier earlyBirdPrice must be lower than its price",
+                "number.precision": "tier earlyBirdPrice must have no more than 2 decimal places",
+            }),
+        earlyBirdEndsAt: tierDate("earlyBirdEndsAt")
+            .when("earlyBirdPrice", {
+                is: Joi.number().required(),
+                then: Joi.date().required(),
+            })
+            .messages({
+                "any.required": "tier earlyBirdEndsAt is required with an earlyBirdPrice",
+            }),
+    }))
+    .unique("key")
+    .max(MAX_TICKET_TIERS)
+    .messages({
+        "array.base": "ticketTiers should be a list of tiers",
+        "array.unique": "ticketTiers keys must be unique",
+        "array.max": "ticketTiers can have at most {#limit} tiers",
+    });
@@ -0,0 +1,112 @@
+export const DEFAULT_TIMEZONE = "Africa/Cairo";
+
+export interface WallClock {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+            second: "numeric",
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch (err) {
+        return false;
+    }
+};
+
+export const getWallClock = (date: Date, timeZone: string): WallClock => {
+    const parts = getFormatter(timeZone).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+
+    return {
+        year: part("year"),
+        month: part("month"),
+        day: part("day"),
+        hour: part("hour"),
+        minute: part("minute"),
+        second: part("second"),
+    };
+};
+
+const wallClockAsUtc = (wall: WallClock) => Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+
+// offset of the zone from UTC in milliseconds at the given instant, e.g. +3h for Africa/Cairo in summer
+export const getTimeZoneOffset = (date: Date, timeZone: string) => {
+    const instant = Math.floor(date.getTime() / 1000) * 1000;
+    return wallClockAsUtc(getWallClock(new Date(instant), timeZone)) - instant;
+};
+
+/**
+ * Converts a wall-clock time in the given zone to the UTC instant it represents.
+ * Times skipped by a DST jump are shifted forward and ambiguous times resolve to the earlier instant.
+ */
+export const wallClockToUtc = (wall: WallClock, timeZone: string) => {
+    const guess = wallClockAsUtc(wall);
+    const offsetBefore = getTimeZoneOffset(new Date(guess - DAY_MS), timeZone);
+    const offsetAfter = getTimeZoneOffset(new Date(guess + DAY_MS), timeZone);
+    const candidates = [guess - offsetBefore, guess - offsetAfter]
+        .filter((instant) => wallClockAsUtc(getWallClock(new Date(instant), timeZone)) === guess)
+        .sort((a, b) => a - b);
+
+    return new Date(candidates.length ? candidates[0] : guess - offsetBefore);
+};
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+
+/**
+ * Parses an ISO 8601 date, dates that carry no offset are read as wall-clock time in the given zone
+ * instead of the server's zone.
+ */
+export const parseDateInTimeZone = (value: string | Date, timeZone: string) => {
+    if (value instanceof Date) {
+        return value;
+    }
+
+    const match = LOCAL_DATE_TIME.exec(value);
+    if (!match) {
+        return new Date(value);
+    }
+
+    const [year, month, day, hour = 0, minute = 0, second = 0] = match.slice(1).map((part) => Number(part ?? 0));
+    return wallClockToUtc({
+        year, month, day, hour, minute, second,
+    }, timeZone);
+};
+
+const pad = (value: number, length = 2) => String(Math.abs(value)).padStart(length, "0");
+
+// ISO 8601 representation of the instant in the given zone, e.g. 2024-07-01T10:00:00+03:00
+export const formatInTimeZone = (date: Date, timeZone: string) => {
+    const wall = getWallClock(date, timeZone);
+    const offsetMinutes = Math.round(getTimeZoneOffset(date, timeZone) / 60000);
+    const sign = offsetMinutes < 0 ? "-" : "+";
+
+    return `${pad(wall.year, 4)}-${pad(wall.month)}-${pad(wall.day)}T${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}`
+        + `${sign}${pad(Math.trunc(offsetMinutes / 60))}:${pad(offsetMinutes % 60)}`;
+};